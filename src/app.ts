@@ -2,10 +2,20 @@ import express, { type Application } from 'express';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import { errorHandler } from '@/shared/middlewares/error-handler';
+import { rateLimit } from '@/shared/middlewares/rate-limit.middleware';
+import { rateLimitConfig } from '@/config/rate-limit';
 import { healthRouter } from '@/shared/routes/health.routes';
 import { authRouter } from '@/modules/auth/routes/auth.routes';
 import { userRouter } from '@/modules/users/routes/user.routes';
 import { checkInRouter } from '@/modules/check-ins/routes/check-in.routes'; // ← ÚNICA LINHA NOVA
+import { subscriptionRouter } from '@/modules/subscriptions/routes/subscription.routes';
+import { planRouter } from '@/modules/plans/routes/plan.routes';
+import { paymentRouter } from '@/modules/payments/routes/payment.routes';
+import { gymRouter } from '@/modules/gyms/routes/gym.routes';
+import { exerciseRouter } from '@/modules/exercises/routes/exercise.routes';
+import { workoutRouter } from '@/modules/workouts/routes/workout.routes';
+import { workoutTemplateRouter } from '@/modules/workout-templates/routes/workout-template.routes';
+import { workoutSessionRouter } from '@/modules/workout-sessions/routes/workout-session.routes';
 
 export class App {
   public app: Application;
@@ -53,6 +63,13 @@ export class App {
         credentials: true, // Permite envio de cookies
         methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
         allowedHeaders: ['Content-Type', 'Authorization'],
+        exposedHeaders: [
+          'RateLimit-Policy',
+          'RateLimit-Limit',
+          'RateLimit-Remaining',
+          'RateLimit-Reset',
+          'Retry-After',
+        ],
       })
     );
 
@@ -68,6 +85,26 @@ export class App {
       res.setHeader('X-XSS-Protection', '1; mode=block');
       next();
     });
+
+    // Rate limiting: orçamentos separados para /api/auth e o restante da API
+    if (rateLimitConfig.enabled) {
+      const windowMs = rateLimitConfig.windowSeconds * 1000;
+
+      this.app.use(
+        '/api/auth',
+        rateLimit({ name: 'auth', windowMs, limit: rateLimitConfig.authMax })
+      );
+
+      this.app.use(
+        '/api',
+        rateLimit({
+          name: 'api',
+          windowMs,
+          limit: rateLimitConfig.apiMax,
+          skip: req => /^\/auth(\/|$)/.test(req.path),
+        })
+      );
+    }
   }
 
   private routes(): void {
@@ -76,12 +113,36 @@ export class App {
     
     // Rotas de autenticação
     this.app.use('/api/auth', authRouter);
+
+    // Rotas de academias
+    this.app.use('/api/gyms', gymRouter);
     
     // Rotas de usuários
     this.app.use('/api/users', userRouter);
     
     // Rotas de check-ins ← ÚNICA LINHA NOVA
     this.app.use('/api/check-ins', checkInRouter);
+
+    // Rotas de assinaturas
+    this.app.use('/api/subscriptions', subscriptionRouter);
+
+    // Rotas de planos
+    this.app.use('/api/plans', planRouter);
+
+    // Rotas de pagamentos
+    this.app.use('/api/payments', paymentRouter);
+
+    // Rotas de exercícios
+    this.app.use('/api/exercises', exerciseRouter);
+
+    // Rotas de treinos
+    this.app.use('/api/workouts', workoutRouter);
+
+    // Rotas de modelos de treino
+    this.app.use('/api/workout-templates', workoutTemplateRouter);
+
+    // Rotas de sessões de treino
+    this.app.use('/api/workout-sessions', workoutSessionRouter);
   }
 
   private errorHandling(): void {
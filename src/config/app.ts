@@ -0,0 +1,25 @@
+export const appConfig = {
+  // URL do front-end, usada nos links enviados por e-mail
+  url: process.env.APP_URL || 'http://localhost:3000',
+  passwordResetExpiresMinutes:
+    Number(process.env.PASSWORD_RESET_EXPIRES_MINUTES) || 30,
+  invitationExpiresHours: Number(process.env.INVITATION_EXPIRES_HOURS) || 72,
+  // Importação de usuários por CSV
+  userImportMaxRows: Number(process.env.USER_IMPORT_MAX_ROWS) || 1000,
+  userImportBatchSize: Number(process.env.USER_IMPORT_BATCH_SIZE) || 100,
+  emailVerificationExpiresHours:
+    Number(process.env.EMAIL_VERIFICATION_EXPIRES_HOURS) || 24,
+  // Limites de reenvio do e-mail de verificação (por usuário)
+  emailVerificationResendCooldownSeconds:
+    Number(process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS) || 60,
+  emailVerificationMaxResendsPerHour:
+    Number(process.env.EMAIL_VERIFICATION_MAX_RESENDS_PER_HOUR) || 5,
+  // Proteção contra força bruta no login
+  loginMaxFailedAttempts: Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS) || 5,
+  loginIpMaxFailedAttempts:
+    Number(process.env.LOGIN_IP_MAX_FAILED_ATTEMPTS) || 20,
+  loginFailureWindowMinutes:
+    Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES) || 15,
+  loginLockoutMinutes: Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15,
+  loginMaxLockoutMinutes: Number(process.env.LOGIN_MAX_LOCKOUT_MINUTES) || 1440,
+};
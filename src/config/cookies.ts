@@ -1,7 +1,7 @@
 export const cookieConfig = {
   httpOnly: true,
   secure: process.env.NODE_ENV === 'production', // HTTPS apenas em produção
-  sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax' as const,
+  sameSite: (process.env.NODE_ENV === 'production' ? 'strict' : 'lax') as 'strict' | 'lax',
   maxAge: 7 * 24 * 60 * 60 * 1000, // 7 dias
   path: '/',
   // Em desenvolvimento, permitir acesso de qualquer domínio da rede local
@@ -0,0 +1,8 @@
+export const rateLimitConfig = {
+  enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+  windowSeconds: Number(process.env.RATE_LIMIT_WINDOW_SECONDS) || 60,
+  // Orçamento de /api/auth/* (por IP ou usuário)
+  authMax: Number(process.env.RATE_LIMIT_AUTH_MAX) || 30,
+  // Orçamento do restante da API (por IP ou usuário)
+  apiMax: Number(process.env.RATE_LIMIT_API_MAX) || 300,
+};
@@ -1,15 +1,61 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../services/auth.service';
 import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
-import { registerSchema, loginSchema, refreshTokenSchema } from '../dtos/auth.dto';
+import { PrismaGymRepository } from '@/modules/gyms/repositories/prisma-gym.repository';
+import { PrismaRefreshTokenRepository } from '../repositories/prisma-refresh-token.repository';
+import { PrismaAuthSessionRepository } from '../repositories/prisma-auth-session.repository';
+import { PrismaPasswordResetTokenRepository } from '../repositories/prisma-password-reset-token.repository';
+import { PrismaEmailVerificationTokenRepository } from '../repositories/prisma-email-verification-token.repository';
+import { PrismaLoginAttemptStore } from '../repositories/prisma-login-attempt.store';
+import { PrismaTwoFactorRecoveryCodeRepository } from '../repositories/prisma-two-factor-recovery-code.repository';
+import { LoginThrottleService } from '../services/login-throttle.service';
+import { TwoFactorService } from '../services/two-factor.service';
+import { SessionClientInfo } from '../interfaces/auth-session-repository.interface';
+import { createMailTransport } from '@/shared/mail/mail-transport.factory';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  resendEmailVerificationSchema,
+  twoFactorLoginSchema,
+  twoFactorChallengeSchema,
+  twoFactorCodeConfirmationSchema,
+  disableTwoFactorSchema,
+} from '../dtos/auth.dto';
 import { cookieConfig } from '@/config/cookies';
 
 export class AuthController {
   private authService: AuthService;
+  private twoFactorService: TwoFactorService;
 
   constructor() {
     const userRepository = new PrismaUserRepository();
-    this.authService = new AuthService(userRepository);
+    const gymRepository = new PrismaGymRepository();
+    const refreshTokenRepository = new PrismaRefreshTokenRepository();
+    const authSessionRepository = new PrismaAuthSessionRepository();
+    const passwordResetTokenRepository =
+      new PrismaPasswordResetTokenRepository();
+    const emailVerificationTokenRepository =
+      new PrismaEmailVerificationTokenRepository();
+    this.twoFactorService = new TwoFactorService(
+      userRepository,
+      gymRepository,
+      new PrismaTwoFactorRecoveryCodeRepository()
+    );
+    this.authService = new AuthService(
+      userRepository,
+      gymRepository,
+      refreshTokenRepository,
+      authSessionRepository,
+      passwordResetTokenRepository,
+      emailVerificationTokenRepository,
+      createMailTransport(),
+      new LoginThrottleService(new PrismaLoginAttemptStore()),
+      this.twoFactorService
+    );
   }
 
   register = async (
@@ -19,7 +65,23 @@ export class AuthController {
   ): Promise<void> => {
     try {
       const data = registerSchema.parse(req.body);
-      const result = await this.authService.register(data);
+      const result = await this.authService.register(
+        data,
+        this.getClientInfo(req)
+      );
+
+      // Academia exige e-mail verificado: sem sessão até a verificação
+      if (!result.accessToken || !result.refreshToken) {
+        res.status(201).json({
+          status: 'success',
+          message:
+            'Usuário registrado. Confirme seu e-mail para acessar a conta',
+          data: {
+            user: result.user,
+          },
+        });
+        return;
+      }
 
       // Access Token: 15 minutos
       res.cookie('accessToken', result.accessToken, {
@@ -49,16 +111,54 @@ export class AuthController {
   ): Promise<void> => {
     try {
       const data = loginSchema.parse(req.body);
-      const result = await this.authService.login(data);
+      const result = await this.authService.login(
+        data,
+        this.getClientInfo(req)
+      );
 
-      // Access Token: 15 minutos
-      res.cookie('accessToken', result.accessToken, {
-        ...cookieConfig,
-        maxAge: 15 * 60 * 1000,
+      // 2FA: sem sessão até a segunda etapa
+      if ('challengeToken' in result) {
+        res.status(200).json({
+          status: 'success',
+          message: result.setupRequired
+            ? 'A academia exige autenticação em dois fatores. Cadastre o autenticador'
+            : 'Informe o código do autenticador',
+          data: result,
+        });
+        return;
+      }
+
+      this.setAuthCookies(res, result);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Login realizado com sucesso',
+        data: {
+          user: result.user,
+        },
       });
+    } catch (error) {
+      next(error);
+    }
+  };
 
-      // Refresh Token: 7 dias
-      res.cookie('refreshToken', result.refreshToken, cookieConfig);
+  /**
+   * POST /api/auth/login/2fa
+   * Concluir login com o código do autenticador ou de recuperação
+   */
+  completeTwoFactorLogin = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = twoFactorLoginSchema.parse(req.body);
+      const result = await this.authService.completeTwoFactorLogin(
+        data,
+        this.getClientInfo(req)
+      );
+
+      this.setAuthCookies(res, result);
 
       res.status(200).json({
         status: 'success',
@@ -72,6 +172,61 @@ export class AuthController {
     }
   };
 
+  /**
+   * POST /api/auth/login/2fa/setup
+   * Iniciar cadastro obrigatório do 2FA durante o login
+   */
+  startTwoFactorSetup = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = twoFactorChallengeSchema.parse(req.body);
+      const setup = await this.authService.startTwoFactorSetup(data);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Cadastre o segredo no app autenticador',
+        data: setup,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/auth/login/2fa/enable
+   * Concluir cadastro obrigatório do 2FA e o login
+   */
+  completeTwoFactorSetup = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = twoFactorLoginSchema.parse(req.body);
+      const result = await this.authService.completeTwoFactorSetup(
+        data,
+        this.getClientInfo(req)
+      );
+
+      this.setAuthCookies(res, result);
+
+      res.status(200).json({
+        status: 'success',
+        message:
+          'Autenticação em dois fatores ativada. Guarde os códigos de recuperação',
+        data: {
+          user: result.user,
+          recoveryCodes: result.recoveryCodes,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   refresh = async (
     req: Request,
     res: Response,
@@ -89,19 +244,26 @@ export class AuthController {
       }
 
       refreshTokenSchema.parse({ refreshToken });
-      const result = await this.authService.refreshAccessToken(refreshToken);
+      const result = await this.authService.refreshAccessToken(
+        refreshToken,
+        this.getClientInfo(req)
+      );
 
-      // Atualizar apenas o Access Token
+      // Access Token novo
       res.cookie('accessToken', result.accessToken, {
         ...cookieConfig,
         maxAge: 15 * 60 * 1000,
       });
 
+      // Refresh Token rotacionado (o anterior deixa de valer)
+      res.cookie('refreshToken', result.refreshToken, cookieConfig);
+
       res.status(200).json({
         status: 'success',
         message: 'Token renovado com sucesso',
         data: {
           accessToken: result.accessToken,
+          refreshToken: result.refreshToken,
         },
       });
     } catch (error) {
@@ -115,6 +277,10 @@ export class AuthController {
     next: NextFunction
   ): Promise<void> => {
     try {
+      // Revogar a família do Refresh Token no servidor
+      const refreshToken = req.cookies.refreshToken || req.body?.refreshToken;
+      await this.authService.logout(refreshToken);
+
       res.clearCookie('accessToken');
       res.clearCookie('refreshToken');
 
@@ -127,6 +293,215 @@ export class AuthController {
     }
   };
 
+  /**
+   * POST /api/auth/forgot-password
+   * Enviar link de redefinição de senha por e-mail
+   */
+  forgotPassword = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = forgotPasswordSchema.parse(req.body);
+      await this.authService.requestPasswordReset(data);
+
+      // Mesma resposta para e-mails cadastrados ou não
+      res.status(200).json({
+        status: 'success',
+        message:
+          'Se o e-mail estiver cadastrado, você receberá um link para redefinir a senha',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/auth/reset-password
+   * Redefinir senha com o token recebido por e-mail
+   */
+  resetPassword = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = resetPasswordSchema.parse(req.body);
+      await this.authService.resetPassword(data, this.getClientInfo(req));
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Senha redefinida com sucesso. Faça login novamente',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/auth/verify-email
+   * Confirmar e-mail com o token recebido por e-mail
+   */
+  verifyEmail = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = verifyEmailSchema.parse(req.body);
+      await this.authService.verifyEmail(data);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'E-mail verificado com sucesso',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/auth/verify-email/resend
+   * Reenviar e-mail de verificação
+   */
+  resendEmailVerification = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = resendEmailVerificationSchema.parse(req.body);
+      await this.authService.resendEmailVerification(data);
+
+      res.status(200).json({
+        status: 'success',
+        message:
+          'Se o e-mail estiver pendente de verificação, você receberá um novo link',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/auth/2fa
+   * Situação do 2FA do usuário autenticado
+   */
+  getTwoFactorStatus = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const status = await this.twoFactorService.getStatus(req.userId!);
+
+      res.status(200).json({
+        status: 'success',
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/setup
+   * Gerar segredo para cadastrar o autenticador
+   */
+  setupTwoFactor = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const setup = await this.twoFactorService.setup(req.userId!);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Cadastre o segredo no app autenticador',
+        data: setup,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/enable
+   * Ativar 2FA confirmando um código do autenticador
+   */
+  enableTwoFactor = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { code } = twoFactorCodeConfirmationSchema.parse(req.body);
+      const recoveryCodes = await this.twoFactorService.enable(
+        req.userId!,
+        code
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message:
+          'Autenticação em dois fatores ativada. Guarde os códigos de recuperação',
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/disable
+   * Desativar 2FA (exige senha e código)
+   */
+  disableTwoFactor = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = disableTwoFactorSchema.parse(req.body);
+      await this.twoFactorService.disable(req.userId!, data);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Autenticação em dois fatores desativada',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/recovery-codes
+   * Gerar novos códigos de recuperação (invalida os anteriores)
+   */
+  regenerateRecoveryCodes = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { code } = twoFactorCodeConfirmationSchema.parse(req.body);
+      const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+        req.userId!,
+        code
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Novos códigos de recuperação gerados',
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   getProfile = async (
     req: Request,
     res: Response,
@@ -153,4 +528,103 @@ export class AuthController {
       next(error);
     }
   };
-}
\ No newline at end of file
+
+  /**
+   * GET /api/auth/sessions
+   * Listar sessões ativas do usuário autenticado
+   */
+  listSessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const sessions = await this.authService.listSessions(
+        req.userId!,
+        req.sessionId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: { sessions },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/auth/sessions/:id
+   * Encerrar uma sessão do usuário autenticado
+   */
+  revokeSession = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      await this.authService.revokeSession(id, req.userId!);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Sessão encerrada com sucesso',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/auth/sessions
+   * Encerrar todas as outras sessões (mantém a atual)
+   */
+  revokeOtherSessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const revokedCount = await this.authService.revokeOtherSessions(
+        req.userId!,
+        req.sessionId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Outras sessões encerradas com sucesso',
+        data: { revokedCount },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Grava os tokens da sessão nos cookies HttpOnly
+   */
+  private setAuthCookies(
+    res: Response,
+    tokens: { accessToken: string; refreshToken: string }
+  ): void {
+    // Access Token: 15 minutos
+    res.cookie('accessToken', tokens.accessToken, {
+      ...cookieConfig,
+      maxAge: 15 * 60 * 1000,
+    });
+
+    // Refresh Token: 7 dias
+    res.cookie('refreshToken', tokens.refreshToken, cookieConfig);
+  }
+
+  /**
+   * Dados do dispositivo para registrar na sessão
+   */
+  private getClientInfo(req: Request): SessionClientInfo {
+    return {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    };
+  }
+}
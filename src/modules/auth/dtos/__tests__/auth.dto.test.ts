@@ -1,5 +1,10 @@
 import 'dotenv/config';
-import { registerSchema, loginSchema } from '../auth.dto';
+import {
+  registerSchema,
+  loginSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+} from '../auth.dto';
 import { Role } from '@prisma/client';
 import { ZodError } from 'zod';
 
@@ -32,15 +37,14 @@ function testAuthDTOs() {
       email: 'JOAO@GMAIL.COM',
       password: 'Senha123',
       gymId: '123e4567-e89b-12d3-a456-426614174000',
-      role: Role.MEMBER,
-      cpf: '12345678901',
+      cpf: '529.982.247-25',
       phone: '11987654321',
     });
 
     console.log(`   ✅ Dados válidos!`);
     console.log(`   Nome: ${validData.name}`);
     console.log(`   Email normalizado: ${validData.email}`);
-    console.log(`   Role: ${validData.role}\n`);
+    console.log(`   CPF normalizado: ${validData.cpf}\n`);
   } catch (error) {
     console.log(`   ❌ Erro inesperado no teste 1`);
     handleZodError(error, 'Dados válidos');
@@ -59,7 +63,6 @@ function testAuthDTOs() {
     });
 
     console.log(`   ✅ Registro mínimo aceito!`);
-    console.log(`   Role padrão: ${minimalData.role}`);
     console.log(`   CPF: ${minimalData.cpf || 'não informado'}\n`);
   } catch (error) {
     console.log(`   ❌ Erro inesperado no teste 2`);
@@ -211,6 +214,100 @@ function testAuthDTOs() {
     handleZodError(error, 'Login inválido');
   }
 
+  // ========================================
+  // TESTE 11: Login com slug da academia
+  // ========================================
+  console.log('1️⃣1️⃣ Testando login com gymSlug...');
+  try {
+    const loginData = loginSchema.parse({
+      email: 'usuario@example.com',
+      password: 'qualquerSenha',
+      gymSlug: ' Academia-Centro ',
+    });
+
+    console.log(`   ✅ Login por slug válido!`);
+    console.log(`   Slug normalizado: ${loginData.gymSlug}\n`);
+  } catch (error) {
+    console.log(`   ❌ Erro inesperado no teste 11`);
+    handleZodError(error, 'Login por slug');
+  }
+
+  // ========================================
+  // TESTE 12: Login sem academia
+  // ========================================
+  console.log('1️⃣2️⃣ Testando login sem gymId nem gymSlug...');
+  try {
+    loginSchema.parse({
+      email: 'usuario@example.com',
+      password: 'qualquerSenha',
+    });
+    console.log(`   ❌ Login sem academia foi aceito (BUG!)\n`);
+  } catch (error) {
+    handleZodError(error, 'Login sem academia');
+  }
+
+  // ========================================
+  // TESTE 13: Redefinição com senha fraca
+  // ========================================
+  console.log('1️⃣3️⃣ Testando redefinição de senha com senha fraca...');
+  try {
+    resetPasswordSchema.parse({
+      token: 'a'.repeat(64),
+      password: 'semnumero',
+    });
+    console.log(`   ❌ Senha fraca foi aceita (BUG!)\n`);
+  } catch (error) {
+    handleZodError(error, 'Senha fraca');
+  }
+
+  // ========================================
+  // TESTE 14: Verificação de e-mail sem token
+  // ========================================
+  console.log('1️⃣4️⃣ Testando verificação de e-mail sem token...');
+  try {
+    verifyEmailSchema.parse({ token: '' });
+    console.log(`   ❌ Token vazio foi aceito (BUG!)\n`);
+  } catch (error) {
+    handleZodError(error, 'Token vazio');
+  }
+
+  // ========================================
+  // TESTE 15: Registro tentando definir role
+  // ========================================
+  console.log('1️⃣5️⃣ Testando registro com role no corpo...');
+  try {
+    const data = registerSchema.parse({
+      name: 'Invasor Admin',
+      email: 'invasor@example.com',
+      password: 'Senha123',
+      gymId: '123e4567-e89b-12d3-a456-426614174000',
+      role: Role.ADMIN,
+    });
+    console.log(
+      `   ${'role' in data ? '❌ Role aceito no registro (BUG!)' : '✅ Role ignorado no registro público'}\n`
+    );
+  } catch (error) {
+    handleZodError(error, 'Role no registro');
+  }
+
+  // ========================================
+  // TESTE 16: CPF com dígitos verificadores inválidos
+  // ========================================
+  console.log('1️⃣6️⃣ Testando CPFs com 11 dígitos, mas inválidos...');
+  for (const cpf of ['52998224724', '111.111.111-11']) {
+    const result = registerSchema.safeParse({
+      name: 'Gustavo Pereira',
+      email: 'gustavo@example.com',
+      password: 'Senha123',
+      gymId: '123e4567-e89b-12d3-a456-426614174000',
+      cpf,
+    });
+    console.log(
+      `   ${result.success ? `❌ CPF ${cpf} foi aceito (BUG!)` : `✅ CPF ${cpf} rejeitado`}`
+    );
+  }
+  console.log('');
+
   console.log('✅ Todos os testes de DTOs concluídos!');
 }
 
@@ -1,10 +1,65 @@
 import { z } from 'zod';
-import { Role } from '@prisma/client';
+import { isValidCpf, onlyDigits } from '@/shared/utils/document.util';
 
 /**
- * Schema de validação para registro de usuário
+ * Regras de senha (compartilhadas por todos os fluxos que definem senha)
+ */
+export const passwordSchema = z
+  .string({
+    required_error: 'Senha é obrigatória',
+    invalid_type_error: 'Senha deve ser uma string',
+  })
+  .min(8, 'Senha deve ter pelo menos 8 caracteres')
+  .max(100, 'Senha deve ter no máximo 100 caracteres')
+  .regex(
+    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+    'Senha deve conter pelo menos uma letra maiúscula, uma minúscula e um número'
+  );
+
+/**
+ * CPF (compartilhado por todos os fluxos que recebem CPF)
+ * Aceita máscara (123.456.789-09), valida os dígitos verificadores
+ * e normaliza para apenas dígitos
+ */
+export const cpfSchema = z
+  .string()
+  .trim()
+  .refine(isValidCpf, { message: 'CPF inválido' })
+  .transform(onlyDigits);
+
+/**
+ * Identificação da academia: aceita gymId (UUID) ou gymSlug
+ * Exatamente um dos dois deve ser informado
+ */
+const gymIdSchema = z
+  .string({
+    invalid_type_error: 'ID da academia deve ser uma string',
+  })
+  .uuid('ID da academia inválido')
+  .optional();
+
+const gymSlugSchema = z
+  .string({
+    invalid_type_error: 'Slug da academia deve ser uma string',
+  })
+  .min(1, 'Slug da academia é obrigatório')
+  .toLowerCase()
+  .trim()
+  .optional();
+
+const hasSingleGymReference = (data: { gymId?: string; gymSlug?: string }) =>
+  Boolean(data.gymId) !== Boolean(data.gymSlug);
+
+const gymReferenceError = {
+  message: 'Informe o ID (gymId) ou o slug (gymSlug) da academia',
+  path: ['gymId'],
+};
+
+/**
+ * Campos do registro de usuário
+ * Também usados para validar cada linha da importação em massa
  */
-export const registerSchema = z.object({
+export const registerFieldsSchema = z.object({
   name: z
     .string({
       required_error: 'Nome é obrigatório',
@@ -23,36 +78,13 @@ export const registerSchema = z.object({
     .toLowerCase()
     .trim(),
 
-  password: z
-    .string({
-      required_error: 'Senha é obrigatória',
-      invalid_type_error: 'Senha deve ser uma string',
-    })
-    .min(8, 'Senha deve ter pelo menos 8 caracteres')
-    .max(100, 'Senha deve ter no máximo 100 caracteres')
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
-      'Senha deve conter pelo menos uma letra maiúscula, uma minúscula e um número'
-    ),
-
-  gymId: z
-    .string({
-      required_error: 'ID da academia é obrigatório',
-      invalid_type_error: 'ID da academia deve ser uma string',
-    })
-    .uuid('ID da academia inválido'),
+  password: passwordSchema,
 
-  role: z
-    .nativeEnum(Role, {
-      errorMap: () => ({ message: 'Role inválido. Use: ADMIN, INSTRUCTOR ou MEMBER' }),
-    })
-    .default(Role.MEMBER),
+  gymId: gymIdSchema,
 
-  cpf: z
-    .string()
-    .regex(/^\d{11}$/, 'CPF deve conter 11 dígitos')
-    .optional()
-    .or(z.literal('')),
+  gymSlug: gymSlugSchema,
+
+  cpf: cpfSchema.optional().or(z.literal('')),
 
   phone: z
     .string()
@@ -68,28 +100,37 @@ export const registerSchema = z.object({
     .transform(val => (val ? new Date(val) : undefined)),
 });
 
+/**
+ * Schema de validação para registro de usuário
+ * Registro público cria apenas MEMBER (equipe entra por convite)
+ */
+export const registerSchema = registerFieldsSchema.refine(
+  hasSingleGymReference,
+  gymReferenceError
+);
+
 /**
  * Schema de validação para login
  */
-export const loginSchema = z.object({
-  email: z
-    .string({
-      required_error: 'E-mail é obrigatório',
-    })
-    .email('E-mail inválido')
-    .toLowerCase()
-    .trim(),
+export const loginSchema = z
+  .object({
+    email: z
+      .string({
+        required_error: 'E-mail é obrigatório',
+      })
+      .email('E-mail inválido')
+      .toLowerCase()
+      .trim(),
 
-  password: z.string({
-    required_error: 'Senha é obrigatória',
-  }),
+    password: z.string({
+      required_error: 'Senha é obrigatória',
+    }),
 
-  gymId: z
-    .string({
-      required_error: 'ID da academia é obrigatório',
-    })
-    .uuid('ID da academia inválido'),
-});
+    gymId: gymIdSchema,
+
+    gymSlug: gymSlugSchema,
+  })
+  .refine(hasSingleGymReference, gymReferenceError);
 
 /**
  * Schema de validação para refresh token
@@ -100,9 +141,93 @@ export const refreshTokenSchema = z.object({
   }),
 });
 
+/**
+ * Schema de validação para solicitar redefinição de senha
+ */
+export const forgotPasswordSchema = z
+  .object({
+    email: z.string().email('E-mail inválido').toLowerCase().trim(),
+
+    gymId: gymIdSchema,
+
+    gymSlug: gymSlugSchema,
+  })
+  .refine(hasSingleGymReference, gymReferenceError);
+
+/**
+ * Schema de validação para redefinir senha com o token recebido por e-mail
+ */
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token é obrigatório'),
+
+  password: passwordSchema,
+});
+
+/**
+ * Schema de validação para confirmar o e-mail com o token recebido
+ */
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Token é obrigatório'),
+});
+
+/**
+ * Schema de validação para reenviar o e-mail de verificação
+ */
+export const resendEmailVerificationSchema = forgotPasswordSchema;
+
+/**
+ * Código do segundo fator: TOTP (6 dígitos) ou código de recuperação
+ */
+const twoFactorCodeSchema = z
+  .string()
+  .trim()
+  .min(6, 'Código deve ter pelo menos 6 caracteres')
+  .max(11, 'Código inválido');
+
+/**
+ * Schema de validação para concluir o login com o segundo fator
+ */
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Token de desafio é obrigatório'),
+
+  code: twoFactorCodeSchema,
+});
+
+/**
+ * Schema de validação para iniciar o cadastro obrigatório do 2FA no login
+ */
+export const twoFactorChallengeSchema = twoFactorLoginSchema.pick({
+  challengeToken: true,
+});
+
+/**
+ * Schema de validação para confirmar um código do segundo fator
+ */
+export const twoFactorCodeConfirmationSchema = z.object({
+  code: twoFactorCodeSchema,
+});
+
+/**
+ * Schema de validação para desativar o 2FA
+ */
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Senha é obrigatória'),
+
+  code: twoFactorCodeSchema,
+});
+
 /**
  * Inferência de tipos TypeScript a partir dos schemas
  */
 export type RegisterDTO = z.infer<typeof registerSchema>;
 export type LoginDTO = z.infer<typeof loginSchema>;
-export type RefreshTokenDTO = z.infer<typeof refreshTokenSchema>;
\ No newline at end of file
+export type RefreshTokenDTO = z.infer<typeof refreshTokenSchema>;
+export type ForgotPasswordDTO = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordDTO = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailDTO = z.infer<typeof verifyEmailSchema>;
+export type ResendEmailVerificationDTO = z.infer<
+  typeof resendEmailVerificationSchema
+>;
+export type TwoFactorLoginDTO = z.infer<typeof twoFactorLoginSchema>;
+export type TwoFactorChallengeDTO = z.infer<typeof twoFactorChallengeSchema>;
+export type DisableTwoFactorDTO = z.infer<typeof disableTwoFactorSchema>;
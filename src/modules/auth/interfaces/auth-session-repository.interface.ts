@@ -0,0 +1,60 @@
+import { AuthSession } from '@prisma/client';
+
+/**
+ * Dados do dispositivo que abriu a sessão
+ */
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * DTO para abrir sessão
+ */
+export interface CreateAuthSessionData extends SessionClientInfo {
+  userId: string;
+}
+
+/**
+ * Interface do Repository de Sessões de Login
+ * Cada sessão é uma família de Refresh Tokens (familyId = id da sessão)
+ */
+export interface IAuthSessionRepository {
+  /**
+   * Abrir sessão (login ou registro)
+   */
+  create(data: CreateAuthSessionData): Promise<AuthSession>;
+
+  /**
+   * Buscar sessão por ID
+   */
+  findById(id: string): Promise<AuthSession | null>;
+
+  /**
+   * Sessão aberta (não revogada) de um usuário ativo
+   * Usado a cada requisição autenticada: encerramento de sessão e
+   * desativação do usuário valem antes de o Access Token expirar
+   */
+  isActive(id: string, userId: string): Promise<boolean>;
+
+  /**
+   * Sessões ativas do usuário (não revogadas e com Refresh Token válido)
+   */
+  findActiveByUser(userId: string): Promise<AuthSession[]>;
+
+  /**
+   * Registrar uso da sessão (renovação de token)
+   */
+  touch(id: string, ipAddress?: string): Promise<void>;
+
+  /**
+   * Revogar sessão e todos os seus Refresh Tokens
+   */
+  revoke(id: string): Promise<void>;
+
+  /**
+   * Revogar todas as sessões do usuário, opcionalmente mantendo uma
+   * Retorna a quantidade de sessões encerradas
+   */
+  revokeAllByUser(userId: string, exceptSessionId?: string): Promise<number>;
+}
@@ -0,0 +1,48 @@
+import { EmailVerificationToken } from '@prisma/client';
+
+/**
+ * DTO para registrar token de verificação de e-mail
+ */
+export interface CreateEmailVerificationTokenData {
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * Interface do Repository de Tokens de Verificação de E-mail
+ */
+export interface IEmailVerificationTokenRepository {
+  /**
+   * Registrar token (apenas o hash é persistido)
+   */
+  create(
+    data: CreateEmailVerificationTokenData
+  ): Promise<EmailVerificationToken>;
+
+  /**
+   * Buscar token pelo hash
+   */
+  findByTokenHash(tokenHash: string): Promise<EmailVerificationToken | null>;
+
+  /**
+   * Buscar o token emitido mais recentemente para o usuário
+   */
+  findLatestByUser(userId: string): Promise<EmailVerificationToken | null>;
+
+  /**
+   * Contar tokens emitidos para o usuário a partir de uma data
+   */
+  countCreatedSince(userId: string, since: Date): Promise<number>;
+
+  /**
+   * Marcar token como usado
+   * Retorna false se o token já tiver sido usado (uso único)
+   */
+  markUsed(id: string): Promise<boolean>;
+
+  /**
+   * Invalidar tokens pendentes do usuário
+   */
+  invalidateAllByUser(userId: string): Promise<void>;
+}
@@ -0,0 +1,79 @@
+import { LoginThrottleScope } from '@prisma/client';
+
+/**
+ * Contador de falhas de login de uma chave (conta ou IP)
+ */
+export interface LoginAttemptRecord {
+  key: string;
+  failures: number;
+  lockouts: number; // Bloqueios consecutivos (define a duração do próximo)
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Referências de tempo para contar uma tentativa
+ */
+export interface IncrementLoginAttemptOptions {
+  now: Date;
+  windowStart: Date; // Falhas anteriores deixam de contar
+  historyStart: Date; // Bloqueios anteriores deixam de agravar o próximo
+}
+
+/**
+ * DTO para registrar um bloqueio no histórico
+ */
+export interface CreateLoginLockoutData {
+  key: string;
+  scope: LoginThrottleScope;
+  failures: number;
+  lockedUntil: Date;
+}
+
+/**
+ * Interface do Store de Tentativas de Login
+ * Implementações: em memória (testes) e Postgres (produção)
+ */
+export interface ILoginAttemptStore {
+  /**
+   * Buscar contador da chave
+   */
+  find(key: string): Promise<LoginAttemptRecord | null>;
+
+  /**
+   * Contar uma tentativa de forma atômica e retornar o contador atualizado
+   * Chave bloqueada não é alterada
+   */
+  increment(
+    key: string,
+    options: IncrementLoginAttemptOptions
+  ): Promise<LoginAttemptRecord>;
+
+  /**
+   * Devolver uma tentativa contada (o contador não fica negativo)
+   */
+  decrement(key: string): Promise<void>;
+
+  /**
+   * Bloquear a chave se ela ainda tiver pelo menos minFailures falhas
+   * Zera as falhas e soma um bloqueio consecutivo
+   * Retorna false se outra requisição já aplicou o bloqueio
+   */
+  lock(key: string, minFailures: number, lockedUntil: Date): Promise<boolean>;
+
+  /**
+   * Zerar o contador da chave (login bem-sucedido)
+   */
+  reset(key: string): Promise<void>;
+
+  /**
+   * Registrar bloqueio no histórico
+   */
+  recordLockout(data: CreateLoginLockoutData): Promise<void>;
+
+  /**
+   * Remover contadores sem falhas desde a data informada e já desbloqueados
+   * Retorna a quantidade removida
+   */
+  purgeStale(before: Date): Promise<number>;
+}
@@ -0,0 +1,36 @@
+import { PasswordResetToken } from '@prisma/client';
+
+/**
+ * DTO para registrar token de redefinição de senha
+ */
+export interface CreatePasswordResetTokenData {
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * Interface do Repository de Tokens de Redefinição de Senha
+ */
+export interface IPasswordResetTokenRepository {
+  /**
+   * Registrar token (apenas o hash é persistido)
+   */
+  create(data: CreatePasswordResetTokenData): Promise<PasswordResetToken>;
+
+  /**
+   * Buscar token pelo hash
+   */
+  findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null>;
+
+  /**
+   * Marcar token como usado
+   * Retorna false se o token já tiver sido usado (uso único)
+   */
+  markUsed(id: string): Promise<boolean>;
+
+  /**
+   * Invalidar tokens pendentes do usuário
+   */
+  invalidateAllByUser(userId: string): Promise<void>;
+}
@@ -0,0 +1,36 @@
+import { RefreshToken } from '@prisma/client';
+
+/**
+ * DTO para persistir um Refresh Token emitido
+ * O id é o mesmo enviado no payload do JWT (tokenId)
+ */
+export interface CreateRefreshTokenData {
+  id: string;
+  userId: string;
+  familyId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Interface do Repository de Refresh Tokens
+ */
+export interface IRefreshTokenRepository {
+  /**
+   * Registrar token emitido
+   */
+  create(data: CreateRefreshTokenData): Promise<RefreshToken>;
+
+  /**
+   * Buscar token por ID
+   */
+  findById(id: string): Promise<RefreshToken | null>;
+
+  /**
+   * Trocar um token ainda válido pelo próximo da família
+   * Retorna null se o token já tiver sido usado ou revogado
+   */
+  rotate(
+    id: string,
+    next: CreateRefreshTokenData
+  ): Promise<RefreshToken | null>;
+}
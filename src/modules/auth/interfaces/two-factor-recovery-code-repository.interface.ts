@@ -0,0 +1,26 @@
+/**
+ * Interface do Repository de Códigos de Recuperação (2FA)
+ * Apenas o hash dos códigos é persistido
+ */
+export interface ITwoFactorRecoveryCodeRepository {
+  /**
+   * Substituir todos os códigos do usuário pelos novos
+   */
+  replaceAllByUser(userId: string, codeHashes: string[]): Promise<void>;
+
+  /**
+   * Consumir um código ainda não usado
+   * Retorna false se o código não existir ou já tiver sido usado
+   */
+  consume(userId: string, codeHash: string): Promise<boolean>;
+
+  /**
+   * Contar códigos ainda não usados
+   */
+  countRemainingByUser(userId: string): Promise<number>;
+
+  /**
+   * Remover todos os códigos do usuário
+   */
+  deleteAllByUser(userId: string): Promise<void>;
+}
@@ -0,0 +1,23 @@
+import { Job, JobResult } from '@/shared/jobs/interfaces/job.interface';
+import { ILoginAttemptStore } from '../interfaces/login-attempt-store.interface';
+
+// Mesmo prazo em que bloqueios anteriores deixam de agravar o próximo
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Job de limpeza dos contadores de login
+ * Remove contadores sem falhas nas últimas 24h (o histórico de bloqueios é mantido)
+ */
+export class PurgeLoginAttemptsJob implements Job {
+  readonly name = 'purge-login-attempts';
+
+  constructor(private loginAttemptStore: ILoginAttemptStore) {}
+
+  async run(now: Date): Promise<JobResult> {
+    const affectedCount = await this.loginAttemptStore.purgeStale(
+      new Date(now.getTime() - RETENTION_MS)
+    );
+
+    return { affectedCount };
+  }
+}
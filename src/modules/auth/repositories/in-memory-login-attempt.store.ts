@@ -0,0 +1,97 @@
+import {
+  ILoginAttemptStore,
+  LoginAttemptRecord,
+  CreateLoginLockoutData,
+  IncrementLoginAttemptOptions,
+} from '../interfaces/login-attempt-store.interface';
+
+/**
+ * Store em memória (testes e desenvolvimento)
+ * Os bloqueios registrados ficam expostos em `lockouts`
+ */
+export class InMemoryLoginAttemptStore implements ILoginAttemptStore {
+  private records = new Map<string, LoginAttemptRecord>();
+
+  readonly lockouts: CreateLoginLockoutData[] = [];
+
+  async find(key: string): Promise<LoginAttemptRecord | null> {
+    const record = this.records.get(key);
+
+    return record ? { ...record } : null;
+  }
+
+  async increment(
+    key: string,
+    { now, windowStart, historyStart }: IncrementLoginAttemptOptions
+  ): Promise<LoginAttemptRecord> {
+    const current = this.records.get(key);
+
+    if (current?.lockedUntil && current.lockedUntil > now) {
+      return { ...current };
+    }
+
+    const record: LoginAttemptRecord = {
+      key,
+      failures:
+        current && current.lastFailureAt >= windowStart
+          ? current.failures + 1
+          : 1,
+      lockouts:
+        current && current.lastFailureAt >= historyStart ? current.lockouts : 0,
+      lastFailureAt: now,
+      lockedUntil: current?.lockedUntil ?? null,
+    };
+    this.records.set(key, record);
+
+    return { ...record };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const record = this.records.get(key);
+
+    if (record && record.failures > 0) {
+      record.failures -= 1;
+    }
+  }
+
+  async lock(
+    key: string,
+    minFailures: number,
+    lockedUntil: Date
+  ): Promise<boolean> {
+    const record = this.records.get(key);
+
+    if (!record || record.failures < minFailures) {
+      return false;
+    }
+
+    record.failures = 0;
+    record.lockouts += 1;
+    record.lockedUntil = lockedUntil;
+
+    return true;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  async recordLockout(data: CreateLoginLockoutData): Promise<void> {
+    this.lockouts.push({ ...data });
+  }
+
+  async purgeStale(before: Date): Promise<number> {
+    let count = 0;
+
+    for (const [key, record] of this.records) {
+      const unlocked = !record.lockedUntil || record.lockedUntil < before;
+
+      if (record.lastFailureAt < before && unlocked) {
+        this.records.delete(key);
+        count++;
+      }
+    }
+
+    return count;
+  }
+}
@@ -0,0 +1,97 @@
+import { AuthSession } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IAuthSessionRepository,
+  CreateAuthSessionData,
+} from '../interfaces/auth-session-repository.interface';
+
+export class PrismaAuthSessionRepository implements IAuthSessionRepository {
+  async create(data: CreateAuthSessionData): Promise<AuthSession> {
+    return prisma.authSession.create({
+      data,
+    });
+  }
+
+  async findById(id: string): Promise<AuthSession | null> {
+    return prisma.authSession.findUnique({
+      where: { id },
+    });
+  }
+
+  async isActive(id: string, userId: string): Promise<boolean> {
+    const count = await prisma.authSession.count({
+      where: {
+        id,
+        userId,
+        revokedAt: null,
+        user: { isActive: true },
+      },
+    });
+
+    return count > 0;
+  }
+
+  async findActiveByUser(userId: string): Promise<AuthSession[]> {
+    return prisma.authSession.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        refreshTokens: {
+          some: {
+            revokedAt: null,
+            expiresAt: { gt: new Date() },
+          },
+        },
+      },
+      orderBy: {
+        lastUsedAt: 'desc',
+      },
+    });
+  }
+
+  async touch(id: string, ipAddress?: string): Promise<void> {
+    await prisma.authSession.update({
+      where: { id },
+      data: {
+        lastUsedAt: new Date(),
+        ipAddress,
+      },
+    });
+  }
+
+  async revoke(id: string): Promise<void> {
+    const now = new Date();
+
+    await prisma.$transaction([
+      prisma.authSession.updateMany({
+        where: { id, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+      prisma.refreshToken.updateMany({
+        where: { familyId: id, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+    ]);
+  }
+
+  async revokeAllByUser(
+    userId: string,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const now = new Date();
+    const keep = exceptSessionId ? { not: exceptSessionId } : undefined;
+
+    const [sessions] = await prisma.$transaction([
+      prisma.authSession.updateMany({
+        where: { userId, revokedAt: null, id: keep },
+        data: { revokedAt: now },
+      }),
+      prisma.refreshToken.updateMany({
+        where: { userId, revokedAt: null, familyId: keep },
+        data: { revokedAt: now },
+      }),
+    ]);
+
+    return sessions.count;
+  }
+}
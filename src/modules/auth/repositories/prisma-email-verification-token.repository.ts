@@ -0,0 +1,56 @@
+import { EmailVerificationToken } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IEmailVerificationTokenRepository,
+  CreateEmailVerificationTokenData,
+} from '../interfaces/email-verification-token-repository.interface';
+
+export class PrismaEmailVerificationTokenRepository implements IEmailVerificationTokenRepository {
+  async create(
+    data: CreateEmailVerificationTokenData
+  ): Promise<EmailVerificationToken> {
+    return prisma.emailVerificationToken.create({
+      data,
+    });
+  }
+
+  async findByTokenHash(
+    tokenHash: string
+  ): Promise<EmailVerificationToken | null> {
+    return prisma.emailVerificationToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  async findLatestByUser(
+    userId: string
+  ): Promise<EmailVerificationToken | null> {
+    return prisma.emailVerificationToken.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async countCreatedSince(userId: string, since: Date): Promise<number> {
+    return prisma.emailVerificationToken.count({
+      where: { userId, createdAt: { gte: since } },
+    });
+  }
+
+  async markUsed(id: string): Promise<boolean> {
+    // Filtro por usedAt garante uso único mesmo com requisições simultâneas
+    const { count } = await prisma.emailVerificationToken.updateMany({
+      where: { id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  async invalidateAllByUser(userId: string): Promise<void> {
+    await prisma.emailVerificationToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+  }
+}
@@ -0,0 +1,97 @@
+import { prisma } from '@/config/database';
+import {
+  ILoginAttemptStore,
+  LoginAttemptRecord,
+  CreateLoginLockoutData,
+  IncrementLoginAttemptOptions,
+} from '../interfaces/login-attempt-store.interface';
+
+export class PrismaLoginAttemptStore implements ILoginAttemptStore {
+  async find(key: string): Promise<LoginAttemptRecord | null> {
+    return prisma.loginAttempt.findUnique({
+      where: { key },
+    });
+  }
+
+  /**
+   * Um único INSERT ... ON CONFLICT: tentativas paralelas não perdem incrementos
+   */
+  async increment(
+    key: string,
+    { now, windowStart, historyStart }: IncrementLoginAttemptOptions
+  ): Promise<LoginAttemptRecord> {
+    const [record] = await prisma.$queryRaw<LoginAttemptRecord[]>`
+      INSERT INTO login_attempts (key, failures, lockouts, last_failure_at)
+      VALUES (${key}, 1, 0, ${now})
+      ON CONFLICT (key) DO UPDATE SET
+        failures = CASE
+          WHEN login_attempts.locked_until > ${now} THEN login_attempts.failures
+          WHEN login_attempts.last_failure_at >= ${windowStart} THEN login_attempts.failures + 1
+          ELSE 1
+        END,
+        lockouts = CASE
+          WHEN login_attempts.last_failure_at >= ${historyStart} THEN login_attempts.lockouts
+          ELSE 0
+        END,
+        last_failure_at = CASE
+          WHEN login_attempts.locked_until > ${now} THEN login_attempts.last_failure_at
+          ELSE ${now}
+        END
+      RETURNING
+        key,
+        failures,
+        lockouts,
+        last_failure_at AS "lastFailureAt",
+        locked_until AS "lockedUntil"
+    `;
+
+    return record;
+  }
+
+  async decrement(key: string): Promise<void> {
+    await prisma.loginAttempt.updateMany({
+      where: { key, failures: { gt: 0 } },
+      data: { failures: { decrement: 1 } },
+    });
+  }
+
+  async lock(
+    key: string,
+    minFailures: number,
+    lockedUntil: Date
+  ): Promise<boolean> {
+    const { count } = await prisma.loginAttempt.updateMany({
+      where: { key, failures: { gte: minFailures } },
+      data: {
+        failures: 0,
+        lockouts: { increment: 1 },
+        lockedUntil,
+      },
+    });
+
+    return count > 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    await prisma.loginAttempt.deleteMany({
+      where: { key },
+    });
+  }
+
+  async recordLockout(data: CreateLoginLockoutData): Promise<void> {
+    await prisma.loginLockout.create({
+      data,
+    });
+  }
+
+  async purgeStale(before: Date): Promise<number> {
+    const { count } = await prisma.loginAttempt.deleteMany({
+      where: {
+        lastFailureAt: { lt: before },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: before } }],
+      },
+    });
+
+    return count;
+  }
+}
@@ -0,0 +1,39 @@
+import { PasswordResetToken } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IPasswordResetTokenRepository,
+  CreatePasswordResetTokenData,
+} from '../interfaces/password-reset-token-repository.interface';
+
+export class PrismaPasswordResetTokenRepository implements IPasswordResetTokenRepository {
+  async create(
+    data: CreatePasswordResetTokenData
+  ): Promise<PasswordResetToken> {
+    return prisma.passwordResetToken.create({
+      data,
+    });
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null> {
+    return prisma.passwordResetToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  async markUsed(id: string): Promise<boolean> {
+    // Filtro por usedAt garante uso único mesmo com requisições simultâneas
+    const { count } = await prisma.passwordResetToken.updateMany({
+      where: { id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  async invalidateAllByUser(userId: string): Promise<void> {
+    await prisma.passwordResetToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+  }
+}
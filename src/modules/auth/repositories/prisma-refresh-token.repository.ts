@@ -0,0 +1,44 @@
+import { RefreshToken } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IRefreshTokenRepository,
+  CreateRefreshTokenData,
+} from '../interfaces/refresh-token-repository.interface';
+
+export class PrismaRefreshTokenRepository implements IRefreshTokenRepository {
+  async create(data: CreateRefreshTokenData): Promise<RefreshToken> {
+    return prisma.refreshToken.create({
+      data,
+    });
+  }
+
+  async findById(id: string): Promise<RefreshToken | null> {
+    return prisma.refreshToken.findUnique({
+      where: { id },
+    });
+  }
+
+  async rotate(
+    id: string,
+    next: CreateRefreshTokenData
+  ): Promise<RefreshToken | null> {
+    return prisma.$transaction(async tx => {
+      // Filtro por revokedAt garante que só uma requisição consegue rotacionar
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id, revokedAt: null },
+        data: {
+          revokedAt: new Date(),
+          replacedById: next.id,
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      return tx.refreshToken.create({
+        data: next,
+      });
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import { prisma } from '@/config/database';
+import { ITwoFactorRecoveryCodeRepository } from '../interfaces/two-factor-recovery-code-repository.interface';
+
+export class PrismaTwoFactorRecoveryCodeRepository implements ITwoFactorRecoveryCodeRepository {
+  async replaceAllByUser(userId: string, codeHashes: string[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({
+        where: { userId },
+      }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: codeHashes.map(codeHash => ({ userId, codeHash })),
+      }),
+    ]);
+  }
+
+  async consume(userId: string, codeHash: string): Promise<boolean> {
+    // Filtro por usedAt garante uso único mesmo com requisições simultâneas
+    const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  async countRemainingByUser(userId: string): Promise<number> {
+    return prisma.twoFactorRecoveryCode.count({
+      where: { userId, usedAt: null },
+    });
+  }
+
+  async deleteAllByUser(userId: string): Promise<void> {
+    await prisma.twoFactorRecoveryCode.deleteMany({
+      where: { userId },
+    });
+  }
+}
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller';
 import { authenticate } from '@/shared/middlewares/authenticate.middleware';
+import { authorize } from '@/shared/middlewares/authorize.middleware';
+import { Role } from '@prisma/client';
 
 const authRouter = Router();
 const authController = new AuthController();
@@ -12,10 +14,66 @@ authRouter.post('/register', authController.register);
 authRouter.post('/login', authController.login);
 authRouter.post('/refresh', authController.refresh);
 authRouter.post('/logout', authController.logout);
+authRouter.post('/forgot-password', authController.forgotPassword);
+authRouter.post('/reset-password', authController.resetPassword);
+authRouter.post('/verify-email', authController.verifyEmail);
+authRouter.post('/verify-email/resend', authController.resendEmailVerification);
+
+/**
+ * Login em duas etapas (token de desafio retornado pelo /login)
+ */
+authRouter.post('/login/2fa', authController.completeTwoFactorLogin);
+authRouter.post('/login/2fa/setup', authController.startTwoFactorSetup);
+authRouter.post('/login/2fa/enable', authController.completeTwoFactorSetup);
 
 /**
  * Rotas protegidas
  */
 authRouter.get('/me', authenticate, authController.getProfile); // ← Protegida agora
 
+/**
+ * Sessões ativas (dispositivos conectados)
+ */
+authRouter.get('/sessions', authenticate, authController.listSessions);
+authRouter.delete(
+  '/sessions',
+  authenticate,
+  authController.revokeOtherSessions
+);
+authRouter.delete('/sessions/:id', authenticate, authController.revokeSession);
+
+/**
+ * Autenticação em dois fatores (apenas equipe)
+ */
+authRouter.get(
+  '/2fa',
+  authenticate,
+  authorize([Role.ADMIN, Role.INSTRUCTOR]),
+  authController.getTwoFactorStatus
+);
+authRouter.post(
+  '/2fa/setup',
+  authenticate,
+  authorize([Role.ADMIN, Role.INSTRUCTOR]),
+  authController.setupTwoFactor
+);
+authRouter.post(
+  '/2fa/enable',
+  authenticate,
+  authorize([Role.ADMIN, Role.INSTRUCTOR]),
+  authController.enableTwoFactor
+);
+authRouter.post(
+  '/2fa/disable',
+  authenticate,
+  authorize([Role.ADMIN, Role.INSTRUCTOR]),
+  authController.disableTwoFactor
+);
+authRouter.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  authorize([Role.ADMIN, Role.INSTRUCTOR]),
+  authController.regenerateRecoveryCodes
+);
+
 export { authRouter };
\ No newline at end of file
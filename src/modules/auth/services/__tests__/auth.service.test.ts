@@ -1,14 +1,65 @@
 import 'dotenv/config';
 import { AuthService } from '../auth.service';
 import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaGymRepository } from '@/modules/gyms/repositories/prisma-gym.repository';
+import { PrismaRefreshTokenRepository } from '../../repositories/prisma-refresh-token.repository';
+import { PrismaAuthSessionRepository } from '../../repositories/prisma-auth-session.repository';
+import { PrismaPasswordResetTokenRepository } from '../../repositories/prisma-password-reset-token.repository';
+import { PrismaEmailVerificationTokenRepository } from '../../repositories/prisma-email-verification-token.repository';
+import { InMemoryLoginAttemptStore } from '../../repositories/in-memory-login-attempt.store';
+import { PrismaTwoFactorRecoveryCodeRepository } from '../../repositories/prisma-two-factor-recovery-code.repository';
+import { LoginThrottleService } from '../login-throttle.service';
+import { TwoFactorService } from '../two-factor.service';
+import { MailMessage } from '@/shared/mail/interfaces/mail-transport.interface';
 import { Role } from '@prisma/client';
 import { prisma } from '@/config/database';
+import { decodeToken, generateRefreshToken } from '@/shared/utils/jwt.util';
+import { RefreshTokenPayload } from '@/shared/interfaces/jwt-payload.interface';
+import { generateTotp } from '@/shared/utils/totp.util';
+import { hashPassword } from '@/shared/utils/password.util';
 
 async function testAuthService() {
   console.log('🧪 Testando Auth Service...\n');
 
   const userRepository = new PrismaUserRepository();
-  const authService = new AuthService(userRepository);
+  const gymRepository = new PrismaGymRepository();
+  const refreshTokenRepository = new PrismaRefreshTokenRepository();
+  const authSessionRepository = new PrismaAuthSessionRepository();
+
+  // Transporte em memória para capturar os e-mails enviados
+  const sentMails: MailMessage[] = [];
+  const mailTransport = {
+    send: async (message: MailMessage) => {
+      sentMails.push(message);
+    },
+  };
+
+  const authService = new AuthService(
+    userRepository,
+    gymRepository,
+    refreshTokenRepository,
+    authSessionRepository,
+    new PrismaPasswordResetTokenRepository(),
+    new PrismaEmailVerificationTokenRepository(),
+    mailTransport,
+    new LoginThrottleService(new InMemoryLoginAttemptStore()),
+    new TwoFactorService(
+      userRepository,
+      gymRepository,
+      new PrismaTwoFactorRecoveryCodeRepository()
+    )
+  );
+
+  // Login sem 2FA: falha se o serviço retornar um desafio
+  const loginWithSession = async (
+    ...args: Parameters<AuthService['login']>
+  ) => {
+    const result = await authService.login(...args);
+    if ('challengeToken' in result) {
+      throw new Error('Login retornou desafio de 2FA inesperado');
+    }
+    return result;
+  };
 
   let testGymId: string;
   let testUserId: string;
@@ -37,7 +88,6 @@ async function testAuthService() {
       name: 'Maria Silva',
       email: `maria-${Date.now()}@example.com`,
       password: 'Senha123',
-      role: Role.MEMBER,
       cpf: `${Math.floor(10000000000 + Math.random() * 90000000000)}`,
       phone: '11987654321',
     };
@@ -48,8 +98,12 @@ async function testAuthService() {
     console.log(`   ✅ Usuário registrado: ${registerResult.user.name}`);
     console.log(`   Email: ${registerResult.user.email}`);
     console.log(`   Role: ${registerResult.user.role}`);
-    console.log(`   Access Token: ${registerResult.accessToken.substring(0, 30)}...`);
-    console.log(`   Refresh Token: ${registerResult.refreshToken.substring(0, 30)}...\n`);
+    console.log(
+      `   Access Token: ${registerResult.accessToken!.substring(0, 30)}...`
+    );
+    console.log(
+      `   Refresh Token: ${registerResult.refreshToken!.substring(0, 30)}...\n`
+    );
 
     // ========================================
     // TESTE 2: Tentar registrar email duplicado
@@ -66,7 +120,7 @@ async function testAuthService() {
     // TESTE 3: Login com credenciais corretas
     // ========================================
     console.log('3️⃣ Testando login...');
-    const loginResult = await authService.login({
+    const loginResult = await loginWithSession({
       email: registerData.email,
       password: 'Senha123',
       gymId: testGymId,
@@ -112,7 +166,12 @@ async function testAuthService() {
     const refreshResult = await authService.refreshAccessToken(
       loginResult.refreshToken
     );
-    console.log(`   ✅ Novo Access Token gerado: ${refreshResult.accessToken.substring(0, 30)}...\n`);
+    console.log(
+      `   ✅ Novo Access Token gerado: ${refreshResult.accessToken.substring(0, 30)}...`
+    );
+    console.log(
+      `   ${refreshResult.refreshToken !== loginResult.refreshToken ? '✅' : '❌'} Refresh Token rotacionado\n`
+    );
 
     // ========================================
     // TESTE 7: Refresh Token inválido
@@ -122,7 +181,21 @@ async function testAuthService() {
       await authService.refreshAccessToken('token.invalido.aqui');
       console.log(`   ❌ Token inválido foi aceito (BUG!)\n`);
     } catch (error: any) {
-      console.log(`   ✅ Token inválido rejeitado: ${error.message}\n`);
+      console.log(`   ✅ Token inválido rejeitado: ${error.message}`);
+    }
+
+    // Assinado corretamente, mas sem tokenId (emitido antes da rotação)
+    try {
+      await authService.refreshAccessToken(
+        generateRefreshToken({
+          userId: loginResult.user.id,
+        } as RefreshTokenPayload)
+      );
+      console.log(`   ❌ Token sem tokenId foi aceito (BUG!)\n`);
+    } catch (error: any) {
+      console.log(
+        `   ${error.statusCode === 401 ? '✅' : '❌'} Token sem tokenId rejeitado: ${error.message}\n`
+      );
     }
 
     // ========================================
@@ -134,6 +207,305 @@ async function testAuthService() {
     console.log(`   Email: ${profile.email}`);
     console.log(`   Senha retornada: ${(profile as any).passwordHash ? 'SIM (BUG!)' : 'NÃO (correto)'}\n`);
 
+    // ========================================
+    // TESTE 9: Login pelo slug da academia
+    // ========================================
+    console.log('9️⃣ Testando login por gymSlug...');
+    const slugLogin = await loginWithSession({
+      email: registerData.email,
+      password: 'Senha123',
+      gymSlug: gym.slug,
+    });
+    console.log(
+      `   ✅ Login por slug: ${slugLogin.user.gymId === testGymId ? 'academia correta' : 'academia ERRADA (BUG!)'}\n`
+    );
+
+    // ========================================
+    // TESTE 10: Slug inexistente e academia inativa
+    // ========================================
+    console.log('🔟 Testando academia inexistente e inativa...');
+    try {
+      await authService.login({
+        email: registerData.email,
+        password: 'Senha123',
+        gymSlug: 'academia-que-nao-existe',
+      });
+      console.log(`   ❌ Slug inexistente foi aceito (BUG!)`);
+    } catch (error: any) {
+      console.log(
+        `   ✅ Slug inexistente rejeitado: ${error.message} (${error.statusCode})`
+      );
+    }
+
+    await prisma.gym.update({
+      where: { id: testGymId },
+      data: { isActive: false },
+    });
+    try {
+      await authService.login({
+        email: registerData.email,
+        password: 'Senha123',
+        gymId: testGymId,
+      });
+      console.log(`   ❌ Academia inativa foi aceita (BUG!)\n`);
+    } catch (error: any) {
+      console.log(
+        `   ✅ Academia inativa rejeitada: ${error.message} (${error.statusCode})\n`
+      );
+    }
+
+    // ========================================
+    // TESTE 11: Reuso de Refresh Token já rotacionado
+    // ========================================
+    console.log('1️⃣1️⃣ Testando reuso de refresh token...');
+    try {
+      await authService.refreshAccessToken(loginResult.refreshToken);
+      console.log(`   ❌ Token rotacionado foi aceito (BUG!)`);
+    } catch (error: any) {
+      console.log(`   ✅ Token rotacionado rejeitado: ${error.message}`);
+    }
+    try {
+      await authService.refreshAccessToken(refreshResult.refreshToken);
+      console.log(`   ❌ Família não foi revogada (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ Família revogada: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 12: Logout revoga o Refresh Token
+    // ========================================
+    console.log('1️⃣2️⃣ Testando logout...');
+    await authService.logout(registerResult.refreshToken!);
+    try {
+      await authService.refreshAccessToken(registerResult.refreshToken!);
+      console.log(`   ❌ Token após logout foi aceito (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ Token após logout rejeitado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 13: Listar sessões e encerrar as outras
+    // ========================================
+    console.log('1️⃣3️⃣ Testando sessões ativas...');
+    await prisma.gym.update({
+      where: { id: testGymId },
+      data: { isActive: true },
+    });
+    const browser = await loginWithSession(
+      { email: registerData.email, password: 'Senha123', gymId: testGymId },
+      { userAgent: 'Navegador', ipAddress: '10.0.0.2' }
+    );
+    await authService.login(
+      { email: registerData.email, password: 'Senha123', gymId: testGymId },
+      { userAgent: 'Tablet', ipAddress: '10.0.0.3' }
+    );
+    const browserSessionId = decodeToken(browser.accessToken)!.sessionId;
+
+    const sessions = await authService.listSessions(
+      testUserId,
+      browserSessionId
+    );
+    console.log(
+      `   Sessões: ${sessions.map(item => `${item.userAgent}${item.current ? ' (atual)' : ''}`).join(', ')}`
+    );
+
+    const revokedCount = await authService.revokeOtherSessions(
+      testUserId,
+      browserSessionId
+    );
+    const remaining = await authService.listSessions(testUserId);
+    console.log(
+      `   ${remaining.length === 1 && remaining[0].id === browserSessionId ? '✅' : '❌'} ${revokedCount} sessão(ões) encerrada(s), atual mantida\n`
+    );
+
+    // ========================================
+    // TESTE 14: Esqueci minha senha
+    // ========================================
+    console.log('1️⃣4️⃣ Testando redefinição de senha...');
+    const mailsBeforeReset = sentMails.length;
+    await authService.requestPasswordReset({
+      email: 'naoexiste@example.com',
+      gymId: testGymId,
+    });
+    await authService.requestPasswordReset({
+      email: registerData.email,
+      gymId: testGymId,
+    });
+    const resetMail = sentMails[sentMails.length - 1];
+    const resetToken = resetMail?.text.match(/token=([a-f0-9]+)/)?.[1];
+    console.log(
+      `   ${sentMails.length === mailsBeforeReset + 1 && resetToken ? '✅' : '❌'} Apenas 1 e-mail enviado (para ${resetMail?.to})`
+    );
+
+    await authService.resetPassword({
+      token: resetToken!,
+      password: 'NovaSenha123',
+    });
+    const afterReset = await loginWithSession({
+      email: registerData.email,
+      password: 'NovaSenha123',
+      gymId: testGymId,
+    });
+    console.log(`   ✅ Login com a nova senha: ${afterReset.user.name}`);
+
+    try {
+      await authService.resetPassword({
+        token: resetToken!,
+        password: 'OutraSenha123',
+      });
+      console.log(`   ❌ Token reutilizado foi aceito (BUG!)`);
+    } catch (error: any) {
+      console.log(`   ✅ Token reutilizado rejeitado: ${error.message}`);
+    }
+
+    try {
+      await authService.refreshAccessToken(browser.refreshToken);
+      console.log(
+        `   ❌ Sessão anterior à redefinição continua ativa (BUG!)\n`
+      );
+    } catch (error: any) {
+      console.log(`   ✅ Sessões anteriores encerradas: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 15: Verificação de e-mail
+    // ========================================
+    console.log('1️⃣5️⃣ Testando verificação de e-mail...');
+    await prisma.gym.update({
+      where: { id: testGymId },
+      data: { allowUnverifiedLogin: false },
+    });
+
+    const pendingData = {
+      gymId: testGymId,
+      name: 'João Pendente',
+      email: `joao-${Date.now()}@example.com`,
+      password: 'Senha123',
+    };
+    const pending = await authService.register({
+      ...pendingData,
+      birthDate: undefined,
+    });
+    console.log(
+      `   ${!pending.accessToken && !pending.user.emailVerified ? '✅' : '❌'} Registro sem sessão enquanto o e-mail não é verificado`
+    );
+
+    try {
+      await authService.login(pendingData);
+      console.log(`   ❌ Login sem e-mail verificado foi aceito (BUG!)`);
+    } catch (error: any) {
+      console.log(`   ✅ Login bloqueado: ${error.message}`);
+    }
+
+    // Reenvio imediato é ignorado com a mesma resposta de um e-mail
+    // inexistente (não revela quais contas estão pendentes)
+    const mailsBeforeResend = sentMails.length;
+    await authService.resendEmailVerification({
+      email: pendingData.email,
+      gymId: testGymId,
+    });
+    await authService.resendEmailVerification({
+      email: `inexistente-${Date.now()}@example.com`,
+      gymId: testGymId,
+    });
+    console.log(
+      `   ${sentMails.length === mailsBeforeResend ? '✅' : '❌'} Reenvio imediato limitado sem erro`
+    );
+
+    const verifyMail = sentMails.find(mail => mail.to === pendingData.email);
+    const verifyToken = verifyMail?.text.match(/token=([a-f0-9]+)/)?.[1];
+    await authService.verifyEmail({ token: verifyToken! });
+
+    const verifiedLogin = await loginWithSession(pendingData);
+    console.log(
+      `   ${verifiedLogin.user.emailVerified ? '✅' : '❌'} Login após verificar o e-mail`
+    );
+
+    try {
+      await authService.verifyEmail({ token: verifyToken! });
+      console.log(`   ❌ Token reutilizado foi aceito (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ Token reutilizado rejeitado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 16: 2FA obrigatório para ADMIN
+    // ========================================
+    console.log('1️⃣6️⃣ Testando autenticação em dois fatores...');
+    await prisma.gym.update({
+      where: { id: testGymId },
+      data: { requireAdminTwoFactor: true },
+    });
+    const adminData = {
+      email: `admin-2fa-${Date.now()}@example.com`,
+      password: 'Senha123',
+      gymId: testGymId,
+    };
+    const admin = await userRepository.create({
+      gymId: testGymId,
+      name: 'Admin 2FA',
+      email: adminData.email,
+      passwordHash: await hashPassword(adminData.password),
+      role: Role.ADMIN,
+    });
+    await userRepository.update(admin.id, { emailVerifiedAt: new Date() });
+
+    const setupChallenge = await authService.login(adminData);
+    if (
+      !('challengeToken' in setupChallenge) ||
+      !setupChallenge.setupRequired
+    ) {
+      throw new Error('Login do ADMIN deveria exigir cadastro do 2FA');
+    }
+    console.log(`   ✅ Login exige cadastro do autenticador`);
+
+    const setup = await authService.startTwoFactorSetup({
+      challengeToken: setupChallenge.challengeToken,
+    });
+    const enrolled = await authService.completeTwoFactorSetup({
+      challengeToken: setupChallenge.challengeToken,
+      code: generateTotp(setup.secret),
+    });
+    console.log(
+      `   ${enrolled.accessToken && enrolled.recoveryCodes.length === 10 ? '✅' : '❌'} 2FA ativado com ${enrolled.recoveryCodes.length} códigos de recuperação`
+    );
+
+    const challenge = await authService.login(adminData);
+    if (!('challengeToken' in challenge) || challenge.setupRequired) {
+      throw new Error('Login do ADMIN deveria pedir o código do autenticador');
+    }
+
+    try {
+      await authService.completeTwoFactorLogin({
+        challengeToken: challenge.challengeToken,
+        code: generateTotp(setup.secret),
+      });
+      console.log(`   ❌ Código TOTP reutilizado foi aceito (BUG!)`);
+    } catch (error: any) {
+      console.log(`   ✅ Código TOTP reutilizado rejeitado: ${error.message}`);
+    }
+
+    const recoveryCode = enrolled.recoveryCodes[0];
+    const secondFactorLogin = await authService.completeTwoFactorLogin({
+      challengeToken: challenge.challengeToken,
+      code: recoveryCode.toUpperCase(),
+    });
+    console.log(
+      `   ✅ Login com código de recuperação: ${secondFactorLogin.user.name}`
+    );
+
+    try {
+      await authService.completeTwoFactorLogin({
+        challengeToken: challenge.challengeToken,
+        code: recoveryCode,
+      });
+      console.log(`   ❌ Código de recuperação reutilizado (BUG!)\n`);
+    } catch (error: any) {
+      console.log(
+        `   ✅ Código de recuperação de uso único: ${error.message}\n`
+      );
+    }
+
     console.log('✅ Todos os testes do Auth Service passaram!\n');
   } catch (error) {
     console.error('❌ Erro nos testes:', error);
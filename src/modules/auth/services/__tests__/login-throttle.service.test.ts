@@ -0,0 +1,176 @@
+import { LoginThrottleService } from '../login-throttle.service';
+import { InMemoryLoginAttemptStore } from '../../repositories/in-memory-login-attempt.store';
+
+const config = {
+  maxFailedAttempts: 3,
+  ipMaxFailedAttempts: 5,
+  failureWindowMinutes: 15,
+  lockoutMinutes: 10,
+  maxLockoutMinutes: 30,
+};
+
+const minutes = (base: Date, amount: number) =>
+  new Date(base.getTime() + amount * 60 * 1000);
+
+async function isLocked(
+  throttle: LoginThrottleService,
+  context: { gymId: string; email: string; ipAddress?: string },
+  now: Date
+): Promise<boolean> {
+  try {
+    await throttle.reserveAttempt(context, now);
+    await throttle.releaseAttempt(context);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Tentativa completa com senha errada (reserva + falha)
+ */
+async function fail(
+  throttle: LoginThrottleService,
+  context: { gymId: string; email: string; ipAddress?: string },
+  now: Date
+): Promise<void> {
+  await throttle.reserveAttempt(context, now);
+  await throttle.registerFailure(context, now);
+}
+
+async function testLoginThrottle() {
+  console.log('🧪 Testando proteção contra força bruta no login...\n');
+
+  const start = new Date('2024-01-01T10:00:00Z');
+  const maria = { gymId: 'gym-1', email: 'maria@example.com' };
+
+  // ========================================
+  // TESTE 1: Bloqueio após o limite de falhas
+  // ========================================
+  console.log('1️⃣ Testando bloqueio da conta...');
+  const store = new InMemoryLoginAttemptStore();
+  const throttle = new LoginThrottleService(store, config);
+
+  await fail(throttle, maria, start);
+  await fail(throttle, maria, start);
+  const lockedBefore = await isLocked(throttle, maria, start);
+  await fail(throttle, maria, start);
+  const lockedAfter = await isLocked(throttle, maria, start);
+  console.log(
+    `   ${!lockedBefore && lockedAfter ? '✅' : '❌'} Bloqueada na 3ª falha`
+  );
+  console.log(
+    `   ${store.lockouts.length === 1 && store.lockouts[0].scope === 'ACCOUNT' ? '✅' : '❌'} Bloqueio registrado\n`
+  );
+
+  // ========================================
+  // TESTE 2: Bloqueio temporário e progressivo
+  // ========================================
+  console.log('2️⃣ Testando bloqueio progressivo...');
+  const afterFirst = minutes(start, 11);
+  console.log(
+    `   ${!(await isLocked(throttle, maria, afterFirst)) ? '✅' : '❌'} Liberada após 10 minutos`
+  );
+
+  for (let i = 0; i < 3; i++) {
+    await fail(throttle, maria, afterFirst);
+  }
+  const secondLockout = store.lockouts[1];
+  const secondDuration =
+    (secondLockout.lockedUntil.getTime() - afterFirst.getTime()) / 60000;
+  console.log(
+    `   ${secondDuration === 20 ? '✅' : '❌'} Segundo bloqueio: ${secondDuration} minutos`
+  );
+
+  const afterSecond = minutes(afterFirst, 21);
+  for (let i = 0; i < 3; i++) {
+    await fail(throttle, maria, afterSecond);
+  }
+  const thirdDuration =
+    (store.lockouts[2].lockedUntil.getTime() - afterSecond.getTime()) / 60000;
+  console.log(
+    `   ${thirdDuration === 30 ? '✅' : '❌'} Terceiro bloqueio limitado a ${thirdDuration} minutos\n`
+  );
+
+  // ========================================
+  // TESTE 3: Janela de contagem e login bem-sucedido
+  // ========================================
+  console.log('3️⃣ Testando janela e sucesso...');
+  const joao = { gymId: 'gym-1', email: 'joao@example.com' };
+  await fail(throttle, joao, start);
+  await fail(throttle, joao, start);
+  await fail(throttle, joao, minutes(start, 16));
+  console.log(
+    `   ${!(await isLocked(throttle, joao, minutes(start, 16))) ? '✅' : '❌'} Falhas fora da janela não somam`
+  );
+
+  await fail(throttle, joao, minutes(start, 17));
+  await throttle.registerSuccess(joao);
+  await fail(throttle, joao, minutes(start, 18));
+  console.log(
+    `   ${!(await isLocked(throttle, joao, minutes(start, 18))) ? '✅' : '❌'} Sucesso zera o contador da conta\n`
+  );
+
+  // ========================================
+  // TESTE 4: Bloqueio por IP em várias contas
+  // ========================================
+  console.log('4️⃣ Testando bloqueio por IP...');
+  const ipStore = new InMemoryLoginAttemptStore();
+  const ipThrottle = new LoginThrottleService(ipStore, config);
+  const ipAddress = '203.0.113.7';
+
+  for (let i = 0; i < 5; i++) {
+    await fail(
+      ipThrottle,
+      { gymId: 'gym-1', email: `alvo-${i}@example.com`, ipAddress },
+      start
+    );
+  }
+  const otherAccount = {
+    gymId: 'gym-1',
+    email: 'novo@example.com',
+    ipAddress,
+  };
+  console.log(
+    `   ${(await isLocked(ipThrottle, otherAccount, start)) ? '✅' : '❌'} IP bloqueado para qualquer conta`
+  );
+  console.log(
+    `   ${ipStore.lockouts.some(lockout => lockout.scope === 'IP') ? '✅' : '❌'} Bloqueio de IP registrado`
+  );
+
+  const purged = await ipStore.purgeStale(minutes(start, 60));
+  console.log(
+    `   ${purged === 6 ? '✅' : '❌'} ${purged} contadores antigos removidos\n`
+  );
+
+  // ========================================
+  // TESTE 5: Rajada de tentativas paralelas
+  // ========================================
+  console.log('5️⃣ Testando tentativas paralelas...');
+  const burstStore = new InMemoryLoginAttemptStore();
+  const burstThrottle = new LoginThrottleService(burstStore, config);
+  const ana = { gymId: 'gym-1', email: 'ana@example.com' };
+
+  const reservations = await Promise.allSettled(
+    Array.from({ length: 10 }, () => burstThrottle.reserveAttempt(ana, start))
+  );
+  const allowed = reservations.filter(
+    result => result.status === 'fulfilled'
+  ).length;
+  console.log(
+    `   ${allowed === 3 ? '✅' : '❌'} ${allowed} de 10 tentativas chegaram à senha`
+  );
+
+  await Promise.all(
+    Array.from({ length: allowed }, () =>
+      burstThrottle.registerFailure(ana, start)
+    )
+  );
+  console.log(
+    `   ${burstStore.lockouts.length === 1 && (await isLocked(burstThrottle, ana, start)) ? '✅' : '❌'} Um único bloqueio aplicado\n`
+  );
+
+  console.log('✅ Todos os testes de proteção do login passaram!\n');
+}
+
+testLoginThrottle();
@@ -1,13 +1,46 @@
-import { User, Role } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import {
+  AuthSession,
+  Gym,
+  User,
+  Role,
+  PasswordChangeReason,
+} from '@prisma/client';
 import { IUserRepository } from '@/modules/users/interfaces/user-repository.interface';
+import { SafeUser } from '@/modules/users/services/user.service';
+import { IGymRepository } from '@/modules/gyms/interfaces/gym-repository.interface';
+import { IRefreshTokenRepository } from '../interfaces/refresh-token-repository.interface';
+import {
+  IAuthSessionRepository,
+  SessionClientInfo,
+} from '../interfaces/auth-session-repository.interface';
+import { IPasswordResetTokenRepository } from '../interfaces/password-reset-token-repository.interface';
+import { IEmailVerificationTokenRepository } from '../interfaces/email-verification-token-repository.interface';
+import { MailTransport } from '@/shared/mail/interfaces/mail-transport.interface';
+import { LoginThrottleService } from './login-throttle.service';
+import { TwoFactorService, TwoFactorSetup } from './two-factor.service';
 import { hashPassword, comparePassword } from '@/shared/utils/password.util';
 import {
   generateAccessToken,
   generateRefreshToken,
   verifyRefreshToken,
+  getTokenExpiration,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
 } from '@/shared/utils/jwt.util';
+import { generateOpaqueToken, hashToken } from '@/shared/utils/token.util';
+import { appConfig } from '@/config/app';
 import { AppError } from '@/shared/errors/app-error';
-import { RegisterDTO, LoginDTO } from '../dtos/auth.dto';
+import {
+  RegisterDTO,
+  LoginDTO,
+  ForgotPasswordDTO,
+  ResetPasswordDTO,
+  VerifyEmailDTO,
+  ResendEmailVerificationDTO,
+  TwoFactorLoginDTO,
+  TwoFactorChallengeDTO,
+} from '../dtos/auth.dto';
 
 /**
  * Resposta do registro/login contendo tokens e dados do usuário
@@ -19,26 +52,71 @@ export interface AuthResponse {
     email: string;
     role: Role;
     gymId: string;
+    emailVerified: boolean;
   };
   accessToken: string;
   refreshToken: string;
 }
 
+/**
+ * Resposta do login quando o segundo fator é exigido
+ * O challengeToken conclui o login (código) ou o cadastro obrigatório do 2FA
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  setupRequired: boolean;
+  challengeToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+/**
+ * Resposta do registro
+ * Sem tokens quando a academia exige e-mail verificado (ou 2FA) para login
+ */
+export type RegisterResponse = Pick<AuthResponse, 'user'> &
+  Partial<Pick<AuthResponse, 'accessToken' | 'refreshToken'>>;
+
+/**
+ * Sessão ativa exibida ao usuário
+ */
+export type SessionSummary = Pick<
+  AuthSession,
+  'id' | 'userAgent' | 'ipAddress' | 'createdAt' | 'lastUsedAt'
+> & { current: boolean };
+
 /**
  * Service de Autenticação
  * Contém toda a lógica de negócio relacionada à autenticação
  */
 export class AuthService {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private gymRepository: IGymRepository,
+    private refreshTokenRepository: IRefreshTokenRepository,
+    private authSessionRepository: IAuthSessionRepository,
+    private passwordResetTokenRepository: IPasswordResetTokenRepository,
+    private emailVerificationTokenRepository: IEmailVerificationTokenRepository,
+    private mailTransport: MailTransport,
+    private loginThrottle: LoginThrottleService,
+    private twoFactorService: TwoFactorService
+  ) {}
 
   /**
    * Registra um novo usuário no sistema
+   * A conta começa com e-mail não verificado e recebe o link de verificação
    */
-  async register(data: RegisterDTO): Promise<AuthResponse> {
+  async register(
+    data: RegisterDTO,
+    client: SessionClientInfo = {}
+  ): Promise<RegisterResponse> {
+    // 0. Resolver academia (gymId ou gymSlug)
+    const gym = await this.resolveGym(data);
+
     // 1. Verificar se email já existe na academia
     const emailExists = await this.userRepository.existsByEmailAndGymId(
       data.email,
-      data.gymId
+      gym.id
     );
 
     if (emailExists) {
@@ -58,135 +136,459 @@ export class AuthService {
 
     // 4. Criar usuário
     const user = await this.userRepository.create({
-      gymId: data.gymId,
+      gymId: gym.id,
       name: data.name,
       email: data.email,
       passwordHash,
-      role: data.role || Role.MEMBER,
+      role: Role.MEMBER,
       cpf: data.cpf,
       phone: data.phone,
       birthDate: data.birthDate,
     });
 
-    // 5. Gerar tokens
-    const accessToken = generateAccessToken({
-      userId: user.id,
-      gymId: user.gymId,
-      role: user.role,
-    });
+    // 5. Enviar link de verificação de e-mail
+    await this.sendEmailVerification(user, gym);
 
-    const refreshToken = generateRefreshToken({
-      userId: user.id,
-    });
+    // 6. Academia exige e-mail verificado ou 2FA: login só depois
+    if (
+      !gym.allowUnverifiedLogin ||
+      this.twoFactorService.isSetupRequired(user, gym)
+    ) {
+      return { user: this.toAuthUser(user) };
+    }
 
-    // 6. Retornar dados (sem senha!)
-    return {
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        gymId: user.gymId,
-      },
-      accessToken,
-      refreshToken,
-    };
+    // 7. Abrir sessão, gerar tokens e retornar dados (sem senha!)
+    return this.startSession(user, client);
   }
 
   /**
    * Autentica um usuário (login)
+   * Falhas são contadas por conta e por IP; acima do limite, bloqueio temporário
+   * Com 2FA ativo (ou obrigatório), retorna um desafio em vez dos tokens
    */
-  async login(data: LoginDTO): Promise<AuthResponse> {
-    // 1. Buscar usuário por email e academia
+  async login(
+    data: LoginDTO,
+    client: SessionClientInfo = {}
+  ): Promise<LoginResponse> {
+    // 0. Resolver academia (gymId ou gymSlug)
+    const gym = await this.resolveGym(data);
+
+    // 1. Reservar a tentativa (recusa conta ou IP bloqueados ou no limite)
+    const attempt = {
+      gymId: gym.id,
+      email: data.email,
+      ipAddress: client.ipAddress,
+    };
+    await this.loginThrottle.reserveAttempt(attempt);
+
+    // 2. Buscar usuário por email e academia
     const user = await this.userRepository.findByEmailAndGymId(
       data.email,
-      data.gymId
+      gym.id
     );
 
     if (!user) {
+      await this.loginThrottle.registerFailure(attempt);
       throw new AppError('Credenciais inválidas', 401);
     }
 
-    // 2. Verificar se usuário está ativo
+    // 3. Verificar se usuário está ativo
     if (!user.isActive) {
+      await this.loginThrottle.releaseAttempt(attempt);
       throw new AppError('Usuário inativo', 403);
     }
 
-    // 3. Validar senha
+    // 4. Validar senha
     const isPasswordValid = await comparePassword(
       data.password,
       user.passwordHash
     );
 
     if (!isPasswordValid) {
+      await this.loginThrottle.registerFailure(attempt);
       throw new AppError('Credenciais inválidas', 401);
     }
 
-    // 4. Gerar tokens
-    const accessToken = generateAccessToken({
-      userId: user.id,
-      gymId: user.gymId,
-      role: user.role,
-    });
+    // 5. Verificar política da academia para e-mails não verificados
+    if (!user.emailVerifiedAt && !gym.allowUnverifiedLogin) {
+      await this.loginThrottle.releaseAttempt(attempt);
+      throw new AppError('E-mail não verificado', 403, true, {
+        emailVerificationRequired: true,
+      });
+    }
 
-    const refreshToken = generateRefreshToken({
-      userId: user.id,
-    });
+    // 6. Segunda etapa: código do autenticador (ou cadastro obrigatório)
+    // O contador de falhas só é zerado após o segundo fator
+    const setupRequired = this.twoFactorService.isSetupRequired(user, gym);
 
-    // 5. Retornar dados
-    return {
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        gymId: user.gymId,
-      },
-      accessToken,
-      refreshToken,
+    if (user.twoFactorEnabledAt || setupRequired) {
+      await this.loginThrottle.releaseAttempt(attempt);
+      return {
+        twoFactorRequired: true,
+        setupRequired,
+        challengeToken: generateTwoFactorChallengeToken({
+          userId: user.id,
+          setupRequired,
+        }),
+      };
+    }
+
+    await this.loginThrottle.registerSuccess(attempt);
+
+    // 7. Abrir sessão, gerar tokens e retornar dados
+    return this.startSession(user, client);
+  }
+
+  /**
+   * Conclui o login em duas etapas com o código do autenticador
+   * ou com um código de recuperação
+   */
+  async completeTwoFactorLogin(
+    data: TwoFactorLoginDTO,
+    client: SessionClientInfo = {}
+  ): Promise<AuthResponse> {
+    const { user, gym } = await this.resolveChallenge(
+      data.challengeToken,
+      false
+    );
+
+    // Códigos errados contam como falhas de login da conta e do IP
+    const attempt = {
+      gymId: gym.id,
+      email: user.email,
+      ipAddress: client.ipAddress,
     };
+    await this.loginThrottle.reserveAttempt(attempt);
+
+    const isCodeValid = await this.twoFactorService.verifyCode(user, data.code);
+
+    if (!isCodeValid) {
+      await this.loginThrottle.registerFailure(attempt);
+      throw new AppError('Código de verificação inválido', 401);
+    }
+
+    await this.loginThrottle.registerSuccess(attempt);
+
+    return this.startSession(user, client);
+  }
+
+  /**
+   * Inicia o cadastro obrigatório do 2FA durante o login
+   */
+  async startTwoFactorSetup(
+    data: TwoFactorChallengeDTO
+  ): Promise<TwoFactorSetup> {
+    const { user } = await this.resolveChallenge(data.challengeToken, true);
+
+    return this.twoFactorService.setup(user.id);
+  }
+
+  /**
+   * Conclui o cadastro obrigatório do 2FA e o login
+   * Retorna os códigos de recuperação junto com os tokens
+   */
+  async completeTwoFactorSetup(
+    data: TwoFactorLoginDTO,
+    client: SessionClientInfo = {}
+  ): Promise<AuthResponse & { recoveryCodes: string[] }> {
+    const { user, gym } = await this.resolveChallenge(
+      data.challengeToken,
+      true
+    );
+
+    const recoveryCodes = await this.twoFactorService.enable(
+      user.id,
+      data.code
+    );
+
+    await this.loginThrottle.registerSuccess({
+      gymId: gym.id,
+      email: user.email,
+    });
+
+    const auth = await this.startSession(user, client);
+
+    return { ...auth, recoveryCodes };
   }
 
   /**
    * Renova o Access Token usando o Refresh Token
+   * O Refresh Token é rotacionado: o atual é revogado e um novo é emitido.
+   * Reapresentar um token já rotacionado revoga a sessão inteira.
    */
-  async refreshAccessToken(refreshToken: string): Promise<{
+  async refreshAccessToken(
+    refreshToken: string,
+    client: SessionClientInfo = {}
+  ): Promise<{
     accessToken: string;
+    refreshToken: string;
   }> {
     // 1. Validar Refresh Token
     let decoded;
     try {
       decoded = verifyRefreshToken(refreshToken);
-    } catch (error) {
+    } catch {
+      throw new AppError('Refresh token inválido ou expirado', 401);
+    }
+
+    // Tokens emitidos antes da rotação não têm tokenId
+    if (typeof decoded.tokenId !== 'string' || !decoded.tokenId) {
+      throw new AppError('Refresh token inválido', 401);
+    }
+
+    // 2. Buscar token persistido
+    const storedToken = await this.refreshTokenRepository.findById(
+      decoded.tokenId
+    );
+
+    if (!storedToken || storedToken.userId !== decoded.userId) {
       throw new AppError('Refresh token inválido ou expirado', 401);
     }
 
-    // 2. Buscar usuário
+    // 3. Token já rotacionado ou revogado: possível roubo
+    if (storedToken.revokedAt) {
+      await this.authSessionRepository.revoke(storedToken.familyId);
+      throw new AppError(
+        'Refresh token reutilizado. Faça login novamente',
+        401
+      );
+    }
+
+    // 4. Buscar usuário
     const user = await this.userRepository.findById(decoded.userId);
 
     if (!user) {
       throw new AppError('Usuário não encontrado', 404);
     }
 
-    // 3. Verificar se está ativo
+    // 5. Verificar se está ativo
     if (!user.isActive) {
       throw new AppError('Usuário inativo', 403);
     }
 
-    // 4. Gerar novo Access Token
-    const accessToken = generateAccessToken({
+    // 6. Rotacionar e gerar novos tokens
+    const tokens = await this.issueTokens(
+      user,
+      storedToken.familyId,
+      storedToken.id
+    );
+
+    await this.authSessionRepository.touch(
+      storedToken.familyId,
+      client.ipAddress
+    );
+
+    return tokens;
+  }
+
+  /**
+   * Encerra a sessão do Refresh Token
+   * Tokens inválidos são ignorados (os cookies são limpos de qualquer forma)
+   */
+  async logout(refreshToken?: string): Promise<void> {
+    if (!refreshToken) {
+      return;
+    }
+
+    try {
+      const decoded = verifyRefreshToken(refreshToken);
+      await this.authSessionRepository.revoke(decoded.familyId);
+    } catch {
+      // Token inválido ou expirado: nada a revogar
+    }
+  }
+
+  /**
+   * Solicita redefinição de senha enviando um link por e-mail
+   * Não revela se o e-mail está cadastrado: usuários inexistentes ou
+   * inativos são ignorados silenciosamente
+   */
+  async requestPasswordReset(data: ForgotPasswordDTO): Promise<void> {
+    const gym = await this.resolveGym(data);
+
+    const user = await this.userRepository.findByEmailAndGymId(
+      data.email,
+      gym.id
+    );
+
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    // Apenas o link mais recente continua válido
+    await this.passwordResetTokenRepository.invalidateAllByUser(user.id);
+
+    const token = generateOpaqueToken();
+    const expiresInMinutes = appConfig.passwordResetExpiresMinutes;
+
+    await this.passwordResetTokenRepository.create({
       userId: user.id,
-      gymId: user.gymId,
-      role: user.role,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+    });
+
+    const resetUrl = `${appConfig.url}/reset-password?token=${token}`;
+
+    await this.mailTransport.send({
+      to: user.email,
+      subject: `${gym.name}: redefinição de senha`,
+      text: [
+        `Olá, ${user.name}!`,
+        '',
+        'Recebemos uma solicitação para redefinir a sua senha.',
+        `Acesse o link abaixo em até ${expiresInMinutes} minutos:`,
+        resetUrl,
+        '',
+        'Se você não fez esta solicitação, ignore este e-mail.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Redefine a senha com o token recebido por e-mail
+   * O token é de uso único e todas as sessões do usuário são encerradas
+   * Usar o link também confirma o e-mail (é o caminho dos membros importados
+   * com convite, que não recebem a mensagem de verificação)
+   */
+  async resetPassword(
+    data: ResetPasswordDTO,
+    client: SessionClientInfo = {}
+  ): Promise<void> {
+    const resetToken = await this.passwordResetTokenRepository.findByTokenHash(
+      hashToken(data.token)
+    );
+
+    if (
+      !resetToken ||
+      resetToken.usedAt ||
+      resetToken.expiresAt <= new Date()
+    ) {
+      throw new AppError('Token de redefinição inválido ou expirado', 400);
+    }
+
+    // Outra requisição pode ter usado o token ao mesmo tempo
+    const marked = await this.passwordResetTokenRepository.markUsed(
+      resetToken.id
+    );
+
+    if (!marked) {
+      throw new AppError('Token de redefinição inválido ou expirado', 400);
+    }
+
+    const user = await this.userRepository.findById(resetToken.userId);
+
+    if (!user) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    if (!user.isActive) {
+      throw new AppError('Usuário inativo', 403);
+    }
+
+    await this.userRepository.updatePassword(user.id, {
+      passwordHash: await hashPassword(data.password),
+      reason: PasswordChangeReason.RESET,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
     });
 
-    return { accessToken };
+    if (!user.emailVerifiedAt) {
+      await this.userRepository.update(user.id, {
+        emailVerifiedAt: new Date(),
+      });
+    }
+
+    // Sessões abertas com a senha antiga deixam de valer
+    await this.authSessionRepository.revokeAllByUser(user.id);
+  }
+
+  /**
+   * Confirma o e-mail com o token recebido na mensagem de verificação
+   */
+  async verifyEmail(data: VerifyEmailDTO): Promise<void> {
+    const verificationToken =
+      await this.emailVerificationTokenRepository.findByTokenHash(
+        hashToken(data.token)
+      );
+
+    if (
+      !verificationToken ||
+      verificationToken.usedAt ||
+      verificationToken.expiresAt <= new Date()
+    ) {
+      throw new AppError('Token de verificação inválido ou expirado', 400);
+    }
+
+    // Outra requisição pode ter usado o token ao mesmo tempo
+    const marked = await this.emailVerificationTokenRepository.markUsed(
+      verificationToken.id
+    );
+
+    if (!marked) {
+      throw new AppError('Token de verificação inválido ou expirado', 400);
+    }
+
+    const user = await this.userRepository.findById(verificationToken.userId);
+
+    if (!user) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    if (!user.emailVerifiedAt) {
+      await this.userRepository.update(user.id, {
+        emailVerifiedAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Reenvia o e-mail de verificação
+   * Usuários inexistentes, inativos ou já verificados são ignorados;
+   * reenvios são limitados por intervalo mínimo e por hora
+   * A resposta é sempre a mesma (inclusive quando o limite é atingido):
+   * um erro só para contas pendentes revelaria quais e-mails estão cadastrados
+   */
+  async resendEmailVerification(
+    data: ResendEmailVerificationDTO
+  ): Promise<void> {
+    const gym = await this.resolveGym(data);
+
+    const user = await this.userRepository.findByEmailAndGymId(
+      data.email,
+      gym.id
+    );
+
+    if (!user || !user.isActive || user.emailVerifiedAt) {
+      return;
+    }
+
+    const now = Date.now();
+    const cooldownMs = appConfig.emailVerificationResendCooldownSeconds * 1000;
+    const latest = await this.emailVerificationTokenRepository.findLatestByUser(
+      user.id
+    );
+
+    if (latest && now - latest.createdAt.getTime() < cooldownMs) {
+      return;
+    }
+
+    const sentInLastHour =
+      await this.emailVerificationTokenRepository.countCreatedSince(
+        user.id,
+        new Date(now - 60 * 60 * 1000)
+      );
+
+    if (sentInLastHour >= appConfig.emailVerificationMaxResendsPerHour) {
+      return;
+    }
+
+    await this.sendEmailVerification(user, gym);
   }
 
   /**
    * Busca dados do usuário autenticado
    */
-  async getProfile(userId: string): Promise<Omit<User, 'passwordHash'>> {
+  async getProfile(userId: string): Promise<SafeUser> {
     const user = await this.userRepository.findById(userId);
 
     if (!user) {
@@ -197,9 +599,250 @@ export class AuthService {
       throw new AppError('Usuário inativo', 403);
     }
 
-    // Remover senha do retorno
-    const { passwordHash, ...userWithoutPassword } = user;
+    // Remover senha e segredo do 2FA do retorno
+    const {
+      passwordHash,
+      twoFactorSecret,
+      twoFactorLastStep,
+      ...userWithoutPassword
+    } = user;
 
     return userWithoutPassword;
   }
-}
\ No newline at end of file
+
+  /**
+   * Lista as sessões ativas do usuário (mais recentes primeiro)
+   */
+  async listSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<SessionSummary[]> {
+    const sessions = await this.authSessionRepository.findActiveByUser(userId);
+
+    return sessions.map(session => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Encerra uma sessão do próprio usuário
+   * Os Access Tokens da sessão deixam de ser aceitos imediatamente (o
+   * middleware de autenticação confere se a sessão continua ativa)
+   */
+  async revokeSession(sessionId: string, userId: string): Promise<void> {
+    const session = await this.authSessionRepository.findById(sessionId);
+
+    if (!session || session.userId !== userId) {
+      throw new AppError('Sessão não encontrada', 404);
+    }
+
+    await this.authSessionRepository.revoke(session.id);
+  }
+
+  /**
+   * Encerra todas as sessões do usuário, exceto a atual
+   */
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<number> {
+    if (!currentSessionId) {
+      throw new AppError(
+        'Sessão atual não identificada. Faça login novamente',
+        401
+      );
+    }
+
+    return this.authSessionRepository.revokeAllByUser(userId, currentSessionId);
+  }
+
+  /**
+   * Gera um token de verificação e envia o link por e-mail
+   * Apenas o link mais recente continua válido
+   */
+  private async sendEmailVerification(user: User, gym: Gym): Promise<void> {
+    await this.emailVerificationTokenRepository.invalidateAllByUser(user.id);
+
+    const token = generateOpaqueToken();
+    const expiresInHours = appConfig.emailVerificationExpiresHours;
+
+    await this.emailVerificationTokenRepository.create({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    });
+
+    const verifyUrl = `${appConfig.url}/verify-email?token=${token}`;
+
+    await this.mailTransport.send({
+      to: user.email,
+      subject: `${gym.name}: confirme seu e-mail`,
+      text: [
+        `Olá, ${user.name}!`,
+        '',
+        'Confirme o seu e-mail acessando o link abaixo',
+        `(válido por ${expiresInHours} horas):`,
+        verifyUrl,
+        '',
+        'Se preferir, informe este código no aplicativo:',
+        token,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Valida o token de desafio do 2FA para a etapa esperada
+   */
+  private async resolveChallenge(
+    challengeToken: string,
+    setupRequired: boolean
+  ): Promise<{ user: User; gym: Gym }> {
+    let payload;
+    try {
+      payload = verifyTwoFactorChallengeToken(challengeToken);
+    } catch {
+      throw new AppError('Desafio de login inválido ou expirado', 401);
+    }
+
+    if (payload.setupRequired !== setupRequired) {
+      throw new AppError('Desafio de login inválido para esta etapa', 400);
+    }
+
+    const user = await this.userRepository.findById(payload.userId);
+
+    if (!user) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    if (!user.isActive) {
+      throw new AppError('Usuário inativo', 403);
+    }
+
+    const gym = await this.resolveGym({ gymId: user.gymId });
+
+    return { user, gym };
+  }
+
+  /**
+   * Abre a sessão e monta a resposta de autenticação
+   */
+  private async startSession(
+    user: User,
+    client: SessionClientInfo
+  ): Promise<AuthResponse> {
+    const { accessToken, refreshToken } = await this.openSession(user, client);
+
+    return {
+      user: this.toAuthUser(user),
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  private toAuthUser(user: User): AuthResponse['user'] {
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      gymId: user.gymId,
+      emailVerified: user.emailVerifiedAt !== null,
+    };
+  }
+
+  /**
+   * Abre uma sessão (nova família de Refresh Tokens) e gera os tokens
+   */
+  private async openSession(
+    user: User,
+    client: SessionClientInfo
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const session = await this.authSessionRepository.create({
+      userId: user.id,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+    });
+
+    return this.issueTokens(user, session.id);
+  }
+
+  /**
+   * Gera Access Token e Refresh Token, persistindo o Refresh Token
+   * Sem token anterior emite o primeiro da sessão; com token anterior, rotaciona
+   */
+  private async issueTokens(
+    user: User,
+    sessionId: string,
+    previousTokenId?: string
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const accessToken = generateAccessToken({
+      userId: user.id,
+      gymId: user.gymId,
+      role: user.role,
+      sessionId,
+    });
+
+    const tokenId = randomUUID();
+    const refreshToken = generateRefreshToken({
+      userId: user.id,
+      tokenId,
+      familyId: sessionId,
+    });
+
+    const tokenData = {
+      id: tokenId,
+      userId: user.id,
+      familyId: sessionId,
+      expiresAt: getTokenExpiration(refreshToken),
+    };
+
+    if (!previousTokenId) {
+      await this.refreshTokenRepository.create(tokenData);
+      return { accessToken, refreshToken };
+    }
+
+    const rotated = await this.refreshTokenRepository.rotate(
+      previousTokenId,
+      tokenData
+    );
+
+    // Outra requisição já usou o token anterior
+    if (!rotated) {
+      await this.authSessionRepository.revoke(sessionId);
+      throw new AppError(
+        'Refresh token reutilizado. Faça login novamente',
+        401
+      );
+    }
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Resolve a academia pelo ID ou slug
+   * Academias inativas não aceitam login nem cadastro
+   */
+  private async resolveGym(reference: {
+    gymId?: string;
+    gymSlug?: string;
+  }): Promise<Gym> {
+    const gym = reference.gymId
+      ? await this.gymRepository.findById(reference.gymId)
+      : await this.gymRepository.findBySlug(reference.gymSlug!);
+
+    if (!gym) {
+      throw new AppError('Academia não encontrada', 404);
+    }
+
+    if (!gym.isActive) {
+      throw new AppError('Academia inativa', 403);
+    }
+
+    return gym;
+  }
+}
@@ -0,0 +1,243 @@
+import { LoginThrottleScope } from '@prisma/client';
+import { ILoginAttemptStore } from '../interfaces/login-attempt-store.interface';
+import { appConfig } from '@/config/app';
+import { AppError } from '@/shared/errors/app-error';
+
+/**
+ * Limites da proteção contra força bruta
+ */
+export interface LoginThrottleConfig {
+  maxFailedAttempts: number; // Por conta (e-mail + academia)
+  ipMaxFailedAttempts: number; // Por IP
+  failureWindowMinutes: number;
+  lockoutMinutes: number; // Primeiro bloqueio; dobra a cada bloqueio consecutivo
+  maxLockoutMinutes: number;
+}
+
+/**
+ * Identificação de uma tentativa de login
+ */
+export interface LoginAttemptContext {
+  gymId: string;
+  email: string;
+  ipAddress?: string;
+}
+
+/**
+ * Chave contada (conta ou IP) e seu limite de falhas
+ */
+interface ThrottleKey {
+  key: string;
+  scope: LoginThrottleScope;
+  maxFailures: number;
+}
+
+/**
+ * Chave das falhas de login de uma conta (e-mail + academia)
+ */
+export function accountThrottleKey(gymId: string, email: string): string {
+  return `account:${gymId}:${email}`;
+}
+
+const defaultConfig: LoginThrottleConfig = {
+  maxFailedAttempts: appConfig.loginMaxFailedAttempts,
+  ipMaxFailedAttempts: appConfig.loginIpMaxFailedAttempts,
+  failureWindowMinutes: appConfig.loginFailureWindowMinutes,
+  lockoutMinutes: appConfig.loginLockoutMinutes,
+  maxLockoutMinutes: appConfig.loginMaxLockoutMinutes,
+};
+
+// Após 24h sem falhas, os bloqueios anteriores deixam de agravar o próximo
+const LOCKOUT_HISTORY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service de Proteção do Login
+ * Conta falhas por conta e por IP e aplica bloqueios temporários progressivos
+ */
+export class LoginThrottleService {
+  constructor(
+    private loginAttemptStore: ILoginAttemptStore,
+    private config: LoginThrottleConfig = defaultConfig
+  ) {}
+
+  /**
+   * Reserva a tentativa antes de validar a senha
+   * Cada tentativa é contada de forma atômica ao começar: em uma rajada de
+   * tentativas paralelas, as que passariam do limite são recusadas sem chegar
+   * ao bcrypt, mesmo antes de as primeiras falhas serem confirmadas
+   */
+  async reserveAttempt(
+    context: LoginAttemptContext,
+    now = new Date()
+  ): Promise<void> {
+    const keys = this.keysFor(context);
+
+    // Bloqueio já aplicado: recusa sem contar (não cria contadores para a
+    // conta quando o IP está bloqueado)
+    const current = await Promise.all(
+      keys.map(({ key }) => this.loginAttemptStore.find(key))
+    );
+    this.throwIfLocked(
+      current.map(record => record?.lockedUntil),
+      now
+    );
+
+    const records = await Promise.all(
+      keys.map(({ key }) =>
+        this.loginAttemptStore.increment(key, {
+          now,
+          windowStart: new Date(
+            now.getTime() - this.config.failureWindowMinutes * 60000
+          ),
+          historyStart: new Date(now.getTime() - LOCKOUT_HISTORY_TTL_MS),
+        })
+      )
+    );
+
+    const locked = records.map(
+      record => !!record.lockedUntil && record.lockedUntil > now
+    );
+    const overLimit = records.some(
+      (record, index) => record.failures > keys[index].maxFailures
+    );
+
+    if (!locked.includes(true) && !overLimit) {
+      return;
+    }
+
+    // Chaves bloqueadas não foram incrementadas; as demais devolvem a tentativa
+    await Promise.all(
+      keys
+        .filter((_, index) => !locked[index])
+        .map(({ key }) => this.loginAttemptStore.decrement(key))
+    );
+
+    this.throwIfLocked(
+      records.map(record => record.lockedUntil),
+      now
+    );
+    throw new AppError(
+      'Muitas tentativas de login. Tente novamente mais tarde',
+      429
+    );
+  }
+
+  /**
+   * Confirma a tentativa reservada como falha
+   * Bloqueia a conta ou o IP que atingiram o limite
+   */
+  async registerFailure(
+    context: LoginAttemptContext,
+    now = new Date()
+  ): Promise<void> {
+    for (const { key, scope, maxFailures } of this.keysFor(context)) {
+      await this.lockIfLimitReached(key, scope, maxFailures, now);
+    }
+  }
+
+  /**
+   * Devolve a tentativa reservada que não foi uma falha de credenciais
+   * (ex: usuário inativo ou segundo fator pendente)
+   */
+  async releaseAttempt(context: LoginAttemptContext): Promise<void> {
+    for (const { key } of this.keysFor(context)) {
+      await this.loginAttemptStore.decrement(key);
+    }
+  }
+
+  /**
+   * Login bem-sucedido zera o contador da conta
+   * O contador do IP é mantido (apenas a tentativa reservada é devolvida):
+   * uma conta válida não pode liberar o IP
+   */
+  async registerSuccess(context: LoginAttemptContext): Promise<void> {
+    const [account, ip] = this.keysFor(context);
+
+    await this.loginAttemptStore.reset(account.key);
+
+    if (ip) {
+      await this.loginAttemptStore.decrement(ip.key);
+    }
+  }
+
+  private throwIfLocked(
+    lockedUntilDates: (Date | null | undefined)[],
+    now: Date
+  ): void {
+    const lockedUntil = lockedUntilDates
+      .filter((date): date is Date => !!date && date > now)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+
+    if (lockedUntil) {
+      throw new AppError(
+        'Muitas tentativas de login. Tente novamente mais tarde',
+        429,
+        true,
+        {
+          retryAfterSeconds: Math.ceil(
+            (lockedUntil.getTime() - now.getTime()) / 1000
+          ),
+        }
+      );
+    }
+  }
+
+  private keysFor(context: LoginAttemptContext): ThrottleKey[] {
+    const keys: ThrottleKey[] = [
+      {
+        key: accountThrottleKey(context.gymId, context.email),
+        scope: LoginThrottleScope.ACCOUNT,
+        maxFailures: this.config.maxFailedAttempts,
+      },
+    ];
+
+    if (context.ipAddress) {
+      keys.push({
+        key: `ip:${context.ipAddress}`,
+        scope: LoginThrottleScope.IP,
+        maxFailures: this.config.ipMaxFailedAttempts,
+      });
+    }
+
+    return keys;
+  }
+
+  /**
+   * A decisão usa o contador já incrementado na reserva; o bloqueio só é
+   * aplicado uma vez (falhas paralelas que chegam juntas ao limite não
+   * registram bloqueios duplicados)
+   */
+  private async lockIfLimitReached(
+    key: string,
+    scope: LoginThrottleScope,
+    maxFailures: number,
+    now: Date
+  ): Promise<void> {
+    const current = await this.loginAttemptStore.find(key);
+
+    if (!current || current.failures < maxFailures) {
+      return;
+    }
+
+    const lockoutMinutes = Math.min(
+      this.config.lockoutMinutes * 2 ** current.lockouts,
+      this.config.maxLockoutMinutes
+    );
+    const lockedUntil = new Date(now.getTime() + lockoutMinutes * 60000);
+
+    const locked = await this.loginAttemptStore.lock(
+      key,
+      maxFailures,
+      lockedUntil
+    );
+
+    if (locked) {
+      await this.loginAttemptStore.recordLockout({
+        key,
+        scope,
+        failures: current.failures,
+        lockedUntil,
+      });
+    }
+  }
+}
@@ -0,0 +1,276 @@
+import { Gym, Role, User } from '@prisma/client';
+import { IUserRepository } from '@/modules/users/interfaces/user-repository.interface';
+import { IGymRepository } from '@/modules/gyms/interfaces/gym-repository.interface';
+import { ITwoFactorRecoveryCodeRepository } from '../interfaces/two-factor-recovery-code-repository.interface';
+import { comparePassword } from '@/shared/utils/password.util';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from '@/shared/utils/totp.util';
+import {
+  generateRecoveryCode,
+  hashToken,
+  normalizeRecoveryCode,
+} from '@/shared/utils/token.util';
+import { AppError } from '@/shared/errors/app-error';
+import { DisableTwoFactorDTO } from '../dtos/auth.dto';
+
+const RECOVERY_CODES_COUNT = 10;
+
+/**
+ * Dados para cadastrar o autenticador
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCodeData: string; // Conteúdo do QR code (o cliente renderiza a imagem)
+}
+
+/**
+ * Situação do 2FA do usuário
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Service de Autenticação em Dois Fatores (TOTP)
+ * Disponível para ADMIN e INSTRUCTOR; a academia pode exigir dos ADMINs
+ */
+export class TwoFactorService {
+  constructor(
+    private userRepository: IUserRepository,
+    private gymRepository: IGymRepository,
+    private recoveryCodeRepository: ITwoFactorRecoveryCodeRepository
+  ) {}
+
+  /**
+   * Situação do 2FA do usuário
+   * Permissões: ADMIN, INSTRUCTOR
+   */
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.findStaffUser(userId);
+    const gym = await this.findGym(user.gymId);
+
+    return {
+      enabled: user.twoFactorEnabledAt !== null,
+      required: this.isRequiredFor(user, gym),
+      recoveryCodesRemaining: user.twoFactorEnabledAt
+        ? await this.recoveryCodeRepository.countRemainingByUser(user.id)
+        : 0,
+    };
+  }
+
+  /**
+   * Gerar segredo para cadastrar o autenticador
+   * O 2FA só é ativado após confirmar um código (enable)
+   * Permissões: ADMIN, INSTRUCTOR
+   */
+  async setup(userId: string): Promise<TwoFactorSetup> {
+    const user = await this.findStaffUser(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw new AppError('Autenticação em dois fatores já está ativada', 409);
+    }
+
+    const gym = await this.findGym(user.gymId);
+    const secret = generateTotpSecret();
+
+    await this.userRepository.update(user.id, {
+      twoFactorSecret: secret,
+      twoFactorLastStep: null,
+    });
+
+    const otpauthUri = buildOtpauthUri({
+      secret,
+      accountName: user.email,
+      issuer: gym.name,
+    });
+
+    return { secret, otpauthUri, qrCodeData: otpauthUri };
+  }
+
+  /**
+   * Ativar o 2FA confirmando um código do autenticador
+   * Retorna os códigos de recuperação (exibidos uma única vez)
+   * Permissões: ADMIN, INSTRUCTOR
+   */
+  async enable(userId: string, code: string): Promise<string[]> {
+    const user = await this.findStaffUser(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw new AppError('Autenticação em dois fatores já está ativada', 409);
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new AppError(
+        'Inicie a configuração da autenticação em dois fatores',
+        400
+      );
+    }
+
+    const isValid = await this.verifyTotpCode(user, code);
+
+    if (!isValid) {
+      throw new AppError('Código de verificação inválido', 400);
+    }
+
+    await this.userRepository.update(user.id, {
+      twoFactorEnabledAt: new Date(),
+    });
+
+    return this.issueRecoveryCodes(user.id);
+  }
+
+  /**
+   * Desativar o 2FA (exige senha e código)
+   * Permissões: ADMIN, INSTRUCTOR
+   */
+  async disable(userId: string, data: DisableTwoFactorDTO): Promise<void> {
+    const user = await this.findStaffUser(userId);
+
+    if (!user.twoFactorEnabledAt) {
+      throw new AppError('Autenticação em dois fatores não está ativada', 400);
+    }
+
+    const gym = await this.findGym(user.gymId);
+
+    if (this.isRequiredFor(user, gym)) {
+      throw new AppError(
+        'A academia exige autenticação em dois fatores para administradores',
+        403
+      );
+    }
+
+    const isPasswordValid = await comparePassword(
+      data.password,
+      user.passwordHash
+    );
+
+    if (!isPasswordValid || !(await this.verifyCode(user, data.code))) {
+      throw new AppError('Senha ou código de verificação inválidos', 400);
+    }
+
+    await this.userRepository.update(user.id, {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastStep: null,
+    });
+
+    await this.recoveryCodeRepository.deleteAllByUser(user.id);
+  }
+
+  /**
+   * Gerar novos códigos de recuperação (invalida os anteriores)
+   * Permissões: ADMIN, INSTRUCTOR
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string
+  ): Promise<string[]> {
+    const user = await this.findStaffUser(userId);
+
+    if (!user.twoFactorEnabledAt) {
+      throw new AppError('Autenticação em dois fatores não está ativada', 400);
+    }
+
+    const isValid = await this.verifyTotpCode(user, code);
+
+    if (!isValid) {
+      throw new AppError('Código de verificação inválido', 400);
+    }
+
+    return this.issueRecoveryCodes(user.id);
+  }
+
+  /**
+   * Validar o segundo fator no login: código TOTP ou de recuperação
+   * Códigos de recuperação são de uso único
+   */
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret || !user.twoFactorEnabledAt) {
+      return false;
+    }
+
+    if (await this.verifyTotpCode(user, code)) {
+      return true;
+    }
+
+    return this.recoveryCodeRepository.consume(
+      user.id,
+      hashToken(normalizeRecoveryCode(code))
+    );
+  }
+
+  /**
+   * ADMIN sem 2FA em academia que exige: precisa cadastrar antes de entrar
+   */
+  isSetupRequired(user: User, gym: Gym): boolean {
+    return this.isRequiredFor(user, gym) && !user.twoFactorEnabledAt;
+  }
+
+  private isRequiredFor(user: User, gym: Gym): boolean {
+    return gym.requireAdminTwoFactor && user.role === Role.ADMIN;
+  }
+
+  /**
+   * Valida o código TOTP recusando a reutilização de um código já aceito
+   */
+  private async verifyTotpCode(user: User, code: string): Promise<boolean> {
+    const step = verifyTotp(user.twoFactorSecret!, code);
+
+    if (
+      step === null ||
+      (user.twoFactorLastStep !== null && step <= user.twoFactorLastStep)
+    ) {
+      return false;
+    }
+
+    await this.userRepository.update(user.id, { twoFactorLastStep: step });
+
+    return true;
+  }
+
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODES_COUNT }, () =>
+      generateRecoveryCode()
+    );
+
+    await this.recoveryCodeRepository.replaceAllByUser(
+      userId,
+      codes.map(code => hashToken(normalizeRecoveryCode(code)))
+    );
+
+    return codes;
+  }
+
+  private async findStaffUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    if (user.role === Role.MEMBER) {
+      throw new AppError(
+        'Autenticação em dois fatores disponível apenas para a equipe',
+        403
+      );
+    }
+
+    return user;
+  }
+
+  private async findGym(gymId: string): Promise<Gym> {
+    const gym = await this.gymRepository.findById(gymId);
+
+    if (!gym) {
+      throw new AppError('Academia não encontrada', 404);
+    }
+
+    return gym;
+  }
+}
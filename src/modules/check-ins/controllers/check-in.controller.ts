@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from 'express';
 import { CheckInService } from '../services/check-in.service';
 import { PrismaCheckInRepository } from '../repositories/prisma-check-in.repository';
 import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaSubscriptionRepository } from '@/modules/subscriptions/repositories/prisma-subscription.repository';
+import { PrismaGymRepository } from '@/modules/gyms/repositories/prisma-gym.repository';
 import { listCheckInsFiltersSchema } from '../dtos/check-in.dto';
 import { Role } from '@prisma/client';
 
@@ -15,7 +17,14 @@ export class CheckInController {
   constructor() {
     const checkInRepository = new PrismaCheckInRepository();
     const userRepository = new PrismaUserRepository();
-    this.checkInService = new CheckInService(checkInRepository, userRepository);
+    const subscriptionRepository = new PrismaSubscriptionRepository();
+    const gymRepository = new PrismaGymRepository();
+    this.checkInService = new CheckInService(
+      checkInRepository,
+      userRepository,
+      subscriptionRepository,
+      gymRepository
+    );
   }
 
   /**
@@ -73,6 +73,11 @@ export interface ICheckInRepository {
    */
   hasCheckedInToday(userId: string, gymId: string): Promise<boolean>;
 
+  /**
+   * Contar check-ins do usuário na academia a partir de uma data
+   */
+  countByUserSince(userId: string, gymId: string, since: Date): Promise<number>;
+
   /**
    * Buscar check-ins com filtros
    */
@@ -80,6 +80,22 @@ export class PrismaCheckInRepository implements ICheckInRepository {
     return count > 0;
   }
 
+  async countByUserSince(
+    userId: string,
+    gymId: string,
+    since: Date
+  ): Promise<number> {
+    return prisma.checkIn.count({
+      where: {
+        userId,
+        gymId,
+        checkedInAt: {
+          gte: since,
+        },
+      },
+    });
+  }
+
   async findManyWithFilters(
     filters: FindCheckInsFilters
   ): Promise<PaginatedCheckIns> {
@@ -1,9 +1,26 @@
-import { CheckIn, Role } from '@prisma/client';
+import { CheckIn, Role, SubscriptionStatus, User } from '@prisma/client';
 import { ICheckInRepository } from '../interfaces/check-in-repository.interface';
 import { IUserRepository } from '@/modules/users/interfaces/user-repository.interface';
+import { ISubscriptionRepository } from '@/modules/subscriptions/interfaces/subscription-repository.interface';
+import { IGymRepository } from '@/modules/gyms/interfaces/gym-repository.interface';
 import { AppError } from '@/shared/errors/app-error';
+import { startOfWeek } from '@/shared/utils/date.util';
 import { ListCheckInsFiltersDTO } from '../dtos/check-in.dto';
 
+const EMAIL_VERIFICATION_REQUIRED_REASON =
+  'Confirme seu e-mail para fazer check-in';
+
+/**
+ * Resultado da verificação de assinatura para check-in
+ */
+interface SubscriptionCheck {
+  allowed: boolean;
+  reason?: string;
+  subscriptionStatus?: SubscriptionStatus;
+  subscriptionEndDate?: Date;
+  weeklyCheckInLimit?: number;
+}
+
 /**
  * Service de Check-ins
  * Contém lógica de negócio relacionada a check-ins
@@ -11,7 +28,9 @@ import { ListCheckInsFiltersDTO } from '../dtos/check-in.dto';
 export class CheckInService {
   constructor(
     private checkInRepository: ICheckInRepository,
-    private userRepository: IUserRepository
+    private userRepository: IUserRepository,
+    private subscriptionRepository: ISubscriptionRepository,
+    private gymRepository: IGymRepository
   ) {}
 
   /**
@@ -42,6 +61,13 @@ export class CheckInService {
       throw new AppError('Usuário inativo não pode fazer check-in', 403);
     }
 
+    // 2.1. Validar política da academia para e-mails não verificados
+    if (await this.isEmailVerificationRequired(user, gymId)) {
+      throw new AppError(EMAIL_VERIFICATION_REQUIRED_REASON, 403, true, {
+        emailVerificationRequired: true,
+      });
+    }
+
     // 3. Validar que não fez check-in hoje
     const hasCheckedInToday = await this.checkInRepository.hasCheckedInToday(
       userId,
@@ -52,10 +78,16 @@ export class CheckInService {
       throw new AppError('Você já fez check-in hoje', 409);
     }
 
-    // 4. Validar plano ativo (simplificado - verificar última subscription)
-    // TODO: Quando implementar assinaturas, validar se tem plano ativo
-    const subscriptions = await this.userRepository.findById(userId);
-    // Por enquanto, permitir sempre (quando tiver subscription, adicionar validação)
+    // 4. Validar plano ativo
+    const subscriptionCheck = await this.checkSubscription(userId, gymId);
+
+    if (!subscriptionCheck.allowed) {
+      throw new AppError(subscriptionCheck.reason!, 403, true, {
+        subscriptionStatus: subscriptionCheck.subscriptionStatus,
+        subscriptionEndDate: subscriptionCheck.subscriptionEndDate,
+        weeklyCheckInLimit: subscriptionCheck.weeklyCheckInLimit,
+      });
+    }
 
     // 5. Criar check-in
     const checkIn = await this.checkInRepository.create({
@@ -179,7 +211,14 @@ export class CheckInService {
   async canCheckInToday(
     userId: string,
     gymId: string
-  ): Promise<{ canCheckIn: boolean; reason?: string }> {
+  ): Promise<{
+    canCheckIn: boolean;
+    reason?: string;
+    subscriptionStatus?: SubscriptionStatus;
+    subscriptionEndDate?: Date;
+    weeklyCheckInLimit?: number;
+    emailVerificationRequired?: boolean;
+  }> {
     // Verificar se usuário está ativo
     const user = await this.userRepository.findById(userId);
 
@@ -190,6 +229,15 @@ export class CheckInService {
       };
     }
 
+    // Verificar política da academia para e-mails não verificados
+    if (await this.isEmailVerificationRequired(user, gymId)) {
+      return {
+        canCheckIn: false,
+        reason: EMAIL_VERIFICATION_REQUIRED_REASON,
+        emailVerificationRequired: true,
+      };
+    }
+
     // Verificar se já fez check-in hoje
     const hasCheckedIn = await this.checkInRepository.hasCheckedInToday(
       userId,
@@ -203,10 +251,102 @@ export class CheckInService {
       };
     }
 
-    // TODO: Validar assinatura ativa quando implementado
+    // Verificar se tem assinatura ativa
+    const subscriptionCheck = await this.checkSubscription(userId, gymId);
+
+    if (!subscriptionCheck.allowed) {
+      return {
+        canCheckIn: false,
+        reason: subscriptionCheck.reason,
+        subscriptionStatus: subscriptionCheck.subscriptionStatus,
+        subscriptionEndDate: subscriptionCheck.subscriptionEndDate,
+        weeklyCheckInLimit: subscriptionCheck.weeklyCheckInLimit,
+      };
+    }
 
     return {
       canCheckIn: true,
     };
   }
+
+  /**
+   * E-mail não verificado em academia que exige verificação para check-in
+   */
+  private async isEmailVerificationRequired(
+    user: User,
+    gymId: string
+  ): Promise<boolean> {
+    if (user.emailVerifiedAt) {
+      return false;
+    }
+
+    const gym = await this.gymRepository.findById(gymId);
+
+    return Boolean(gym && !gym.allowUnverifiedCheckIn);
+  }
+
+  /**
+   * Verificar se o usuário tem assinatura vigente na academia
+   * e se ainda não atingiu o limite semanal de check-ins do plano
+   * Retorna o motivo e a data de término quando não puder entrar
+   */
+  private async checkSubscription(
+    userId: string,
+    gymId: string
+  ): Promise<SubscriptionCheck> {
+    const activeSubscription =
+      await this.subscriptionRepository.findActiveByUserAndGym(userId, gymId);
+
+    if (activeSubscription) {
+      const weeklyLimit = activeSubscription.plan?.weeklyCheckInLimit;
+
+      if (weeklyLimit) {
+        const checkInsThisWeek = await this.checkInRepository.countByUserSince(
+          userId,
+          gymId,
+          startOfWeek(new Date())
+        );
+
+        if (checkInsThisWeek >= weeklyLimit) {
+          return {
+            allowed: false,
+            reason: 'Limite semanal de check-ins do plano atingido',
+            subscriptionStatus: activeSubscription.status,
+            subscriptionEndDate: activeSubscription.endDate,
+            weeklyCheckInLimit: weeklyLimit,
+          };
+        }
+      }
+
+      return { allowed: true };
+    }
+
+    const latestSubscription =
+      await this.subscriptionRepository.findLatestByUserAndGym(userId, gymId);
+
+    if (!latestSubscription) {
+      return {
+        allowed: false,
+        reason: 'Nenhuma assinatura encontrada. Procure a recepção',
+      };
+    }
+
+    const reasons: Record<SubscriptionStatus, string> = {
+      // ACTIVE com vigência encerrada (ainda não processada como EXPIRED)
+      [SubscriptionStatus.ACTIVE]: 'Assinatura expirada',
+      [SubscriptionStatus.EXPIRED]: 'Assinatura expirada',
+      [SubscriptionStatus.CANCELLED]: 'Assinatura cancelada',
+      [SubscriptionStatus.PENDING]: 'Assinatura pendente de ativação',
+    };
+
+    return {
+      allowed: false,
+      reason: reasons[latestSubscription.status],
+      subscriptionStatus:
+        latestSubscription.status === SubscriptionStatus.ACTIVE
+          ? SubscriptionStatus.EXPIRED
+          : latestSubscription.status,
+      subscriptionEndDate: latestSubscription.endDate,
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { Request, Response, NextFunction } from 'express';
+import { ExerciseService } from '../services/exercise.service';
+import { PrismaExerciseRepository } from '../repositories/prisma-exercise.repository';
+import {
+  createExerciseSchema,
+  updateExerciseSchema,
+  listExercisesFiltersSchema,
+} from '../dtos/exercise.dto';
+import { Role } from '@prisma/client';
+
+/**
+ * Controller de Exercícios
+ * Gerencia requisições HTTP do catálogo de exercícios
+ */
+export class ExerciseController {
+  private exerciseService: ExerciseService;
+
+  constructor() {
+    const exerciseRepository = new PrismaExerciseRepository();
+    this.exerciseService = new ExerciseService(exerciseRepository);
+  }
+
+  /**
+   * POST /api/exercises
+   * Criar exercício
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  create = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = createExerciseSchema.parse(req.body);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const exercise = await this.exerciseService.create(data, userRole, gymId);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Exercício criado com sucesso',
+        data: { exercise },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/exercises
+   * Buscar exercícios (busca textual, grupo muscular, equipamento)
+   * Permissões: Qualquer usuário autenticado
+   */
+  list = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const filters = listExercisesFiltersSchema.parse(req.query);
+
+      const gymId = req.gymId!;
+
+      const result = await this.exerciseService.list(filters, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        data: result.data,
+        meta: result.meta,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/exercises/:id
+   * Buscar exercício por ID
+   * Permissões: Qualquer usuário autenticado
+   */
+  getById = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const gymId = req.gymId!;
+
+      const exercise = await this.exerciseService.getById(id, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        data: { exercise },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/exercises/:id
+   * Atualizar exercício
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  update = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const data = updateExerciseSchema.parse(req.body);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const exercise = await this.exerciseService.update(
+        id,
+        data,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Exercício atualizado com sucesso',
+        data: { exercise },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/exercises/:id
+   * Deletar exercício
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  delete = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      await this.exerciseService.delete(id, userRole, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Exercício deletado com sucesso',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
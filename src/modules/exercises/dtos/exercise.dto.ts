@@ -0,0 +1,81 @@
+import { z } from 'zod';
+
+/**
+ * Campos base de um exercício
+ */
+const exerciseFields = {
+  name: z
+    .string()
+    .min(2, 'Nome do exercício deve ter pelo menos 2 caracteres')
+    .max(100, 'Nome do exercício deve ter no máximo 100 caracteres')
+    .trim(),
+
+  description: z
+    .string()
+    .max(1000, 'Descrição deve ter no máximo 1000 caracteres')
+    .optional(),
+
+  muscleGroup: z
+    .string()
+    .min(2, 'Grupo muscular deve ter pelo menos 2 caracteres')
+    .max(50, 'Grupo muscular deve ter no máximo 50 caracteres')
+    .trim(),
+
+  equipment: z
+    .string()
+    .max(50, 'Equipamento deve ter no máximo 50 caracteres')
+    .trim()
+    .optional(),
+
+  videoUrl: z.string().url('URL do vídeo inválida').optional(),
+
+  thumbnailUrl: z.string().url('URL da miniatura inválida').optional(),
+};
+
+/**
+ * DTO para criar exercício
+ */
+export const createExerciseSchema = z.object(exerciseFields);
+
+/**
+ * DTO para atualizar exercício
+ * (campos opcionais aceitam null para limpar o valor)
+ */
+export const updateExerciseSchema = z.object({
+  name: exerciseFields.name.optional(),
+  description: exerciseFields.description.nullable(),
+  muscleGroup: exerciseFields.muscleGroup.optional(),
+  equipment: exerciseFields.equipment.nullable(),
+  videoUrl: exerciseFields.videoUrl.nullable(),
+  thumbnailUrl: exerciseFields.thumbnailUrl.nullable(),
+});
+
+/**
+ * DTO para filtros de busca
+ */
+export const listExercisesFiltersSchema = z.object({
+  search: z.string().trim().optional(),
+
+  muscleGroup: z.string().trim().optional(),
+
+  equipment: z.string().trim().optional(),
+
+  page: z
+    .string()
+    .default('1')
+    .transform(val => parseInt(val, 10)),
+
+  limit: z
+    .string()
+    .default('20')
+    .transform(val => parseInt(val, 10)),
+});
+
+/**
+ * Tipos inferidos
+ */
+export type CreateExerciseDTO = z.infer<typeof createExerciseSchema>;
+export type UpdateExerciseDTO = z.infer<typeof updateExerciseSchema>;
+export type ListExercisesFiltersDTO = z.infer<
+  typeof listExercisesFiltersSchema
+>;
@@ -0,0 +1,89 @@
+import { Exercise } from '@prisma/client';
+import { PaginatedResult } from '@/modules/users/interfaces/user-repository.interface';
+
+/**
+ * DTO para criar exercício
+ * (sem gymId o exercício entra no catálogo global, somente leitura pela API)
+ */
+export interface CreateExerciseData {
+  gymId?: string;
+  name: string;
+  description?: string;
+  muscleGroup: string;
+  equipment?: string;
+  videoUrl?: string;
+  thumbnailUrl?: string;
+}
+
+/**
+ * DTO para atualizar exercício
+ * (null limpa o campo, undefined mantém o valor atual)
+ */
+export interface UpdateExerciseData {
+  name?: string;
+  description?: string | null;
+  muscleGroup?: string;
+  equipment?: string | null;
+  videoUrl?: string | null;
+  thumbnailUrl?: string | null;
+}
+
+/**
+ * Filtros para busca de exercícios
+ */
+export interface FindExercisesFilters {
+  gymId: string; // Catálogo global + exercícios da academia
+  search?: string; // Busca por nome ou descrição
+  muscleGroup?: string;
+  equipment?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Interface do Repository de Exercícios
+ */
+export interface IExerciseRepository {
+  /**
+   * Criar exercício
+   */
+  create(data: CreateExerciseData): Promise<Exercise>;
+
+  /**
+   * Buscar exercício por ID
+   */
+  findById(id: string): Promise<Exercise | null>;
+
+  /**
+   * Buscar exercício visível para a academia (global ou da própria academia)
+   */
+  findAvailableById(id: string, gymId: string): Promise<Exercise | null>;
+
+  /**
+   * Buscar exercício visível para a academia pelo nome
+   * (sem diferenciar maiúsculas)
+   */
+  findByName(name: string, gymId: string): Promise<Exercise | null>;
+
+  /**
+   * Busca paginada com filtros
+   */
+  findManyWithFilters(
+    filters: FindExercisesFilters
+  ): Promise<PaginatedResult<Exercise>>;
+
+  /**
+   * Atualizar exercício
+   */
+  update(id: string, data: UpdateExerciseData): Promise<Exercise>;
+
+  /**
+   * Deletar exercício
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Contar treinos, modelos e registros de séries que usam o exercício
+   */
+  countWorkoutUsages(id: string): Promise<number>;
+}
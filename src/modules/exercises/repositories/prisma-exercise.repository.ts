@@ -0,0 +1,128 @@
+import { Exercise, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IExerciseRepository,
+  CreateExerciseData,
+  UpdateExerciseData,
+  FindExercisesFilters,
+} from '../interfaces/exercise-repository.interface';
+import { PaginatedResult } from '@/modules/users/interfaces/user-repository.interface';
+
+export class PrismaExerciseRepository implements IExerciseRepository {
+  async create(data: CreateExerciseData): Promise<Exercise> {
+    return prisma.exercise.create({
+      data,
+    });
+  }
+
+  async findById(id: string): Promise<Exercise | null> {
+    return prisma.exercise.findUnique({
+      where: { id },
+    });
+  }
+
+  async findAvailableById(id: string, gymId: string): Promise<Exercise | null> {
+    return prisma.exercise.findFirst({
+      where: { id, ...this.availableTo(gymId) },
+    });
+  }
+
+  async findByName(name: string, gymId: string): Promise<Exercise | null> {
+    return prisma.exercise.findFirst({
+      where: {
+        name: { equals: name, mode: 'insensitive' },
+        ...this.availableTo(gymId),
+      },
+    });
+  }
+
+  async findManyWithFilters(
+    filters: FindExercisesFilters
+  ): Promise<PaginatedResult<Exercise>> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.ExerciseWhereInput = {
+      AND: [this.availableTo(filters.gymId)],
+    };
+
+    // Filtro por grupo muscular
+    if (filters.muscleGroup) {
+      where.muscleGroup = { equals: filters.muscleGroup, mode: 'insensitive' };
+    }
+
+    // Filtro por equipamento
+    if (filters.equipment) {
+      where.equipment = { equals: filters.equipment, mode: 'insensitive' };
+    }
+
+    // Busca por nome ou descrição
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { description: { contains: filters.search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.exercise.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: {
+          name: 'asc',
+        },
+      }),
+      prisma.exercise.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async update(id: string, data: UpdateExerciseData): Promise<Exercise> {
+    return prisma.exercise.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await prisma.exercise.delete({
+      where: { id },
+    });
+  }
+
+  async countWorkoutUsages(id: string): Promise<number> {
+    const [workouts, templates, setLogs] = await Promise.all([
+      prisma.workoutExercise.count({
+        where: { exerciseId: id },
+      }),
+      prisma.workoutTemplateExercise.count({
+        where: { exerciseId: id },
+      }),
+      prisma.workoutSetLog.count({
+        where: { exerciseId: id },
+      }),
+    ]);
+
+    return workouts + templates + setLogs;
+  }
+
+  /**
+   * Catálogo global (gymId nulo) + exercícios próprios da academia
+   */
+  private availableTo(gymId: string): Prisma.ExerciseWhereInput {
+    return {
+      OR: [{ gymId: null }, { gymId }],
+    };
+  }
+}
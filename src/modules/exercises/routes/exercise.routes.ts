@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { ExerciseController } from '../controllers/exercise.controller';
+import { authenticate } from '@/shared/middlewares/authenticate.middleware';
+import { authorize } from '@/shared/middlewares/authorize.middleware';
+import { Role } from '@prisma/client';
+
+const exerciseRouter = Router();
+const exerciseController = new ExerciseController();
+
+/**
+ * Todas as rotas requerem autenticação
+ */
+exerciseRouter.use(authenticate);
+
+/**
+ * @route GET /api/exercises
+ * @desc Buscar exercícios (search, muscleGroup, equipment, paginação)
+ * @access Private (qualquer usuário autenticado)
+ */
+exerciseRouter.get('/', exerciseController.list);
+
+/**
+ * @route GET /api/exercises/:id
+ * @desc Buscar exercício por ID
+ * @access Private (qualquer usuário autenticado)
+ */
+exerciseRouter.get('/:id', exerciseController.getById);
+
+/**
+ * @route POST /api/exercises
+ * @desc Criar exercício
+ * @access INSTRUCTOR, ADMIN
+ */
+exerciseRouter.post(
+  '/',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  exerciseController.create
+);
+
+/**
+ * @route PATCH /api/exercises/:id
+ * @desc Atualizar exercício
+ * @access INSTRUCTOR, ADMIN
+ */
+exerciseRouter.patch(
+  '/:id',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  exerciseController.update
+);
+
+/**
+ * @route DELETE /api/exercises/:id
+ * @desc Deletar exercício (apenas se não estiver em uso)
+ * @access INSTRUCTOR, ADMIN
+ */
+exerciseRouter.delete(
+  '/:id',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  exerciseController.delete
+);
+
+export { exerciseRouter };
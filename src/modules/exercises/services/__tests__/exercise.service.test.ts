@@ -0,0 +1,213 @@
+import 'dotenv/config';
+import { ExerciseService } from '../exercise.service';
+import { PrismaExerciseRepository } from '@/modules/exercises/repositories/prisma-exercise.repository';
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+
+async function testExerciseService() {
+  console.log('🧪 Testando Exercise Service...\n');
+
+  const exerciseRepository = new PrismaExerciseRepository();
+  const exerciseService = new ExerciseService(exerciseRepository);
+
+  const suffix = Date.now();
+  const createdIds: string[] = [];
+  const gymIds: string[] = [];
+
+  try {
+    // ========================================
+    // SETUP: Criar academias
+    // ========================================
+    console.log('🏗️  Setup: Criando academias...');
+    const [gym, otherGym] = await Promise.all(
+      ['a', 'b'].map(label =>
+        prisma.gym.create({
+          data: {
+            name: `Academia Exercícios ${label.toUpperCase()}`,
+            slug: `exercise-test-${label}-${suffix}`,
+            email: `exercise-${label}-${suffix}@gym.com`,
+          },
+        })
+      )
+    );
+    gymIds.push(gym.id, otherGym.id);
+    console.log(`   ✅ Academias criadas\n`);
+
+    // ========================================
+    // TESTE 1: Instrutor criando exercícios
+    // ========================================
+    console.log('1️⃣ Testando instrutor criar exercícios...');
+    const benchPress = await exerciseService.create(
+      {
+        name: `Supino Reto ${suffix}`,
+        description: 'Empurrar a barra deitado no banco reto',
+        muscleGroup: 'Peito',
+        equipment: 'Barra',
+        videoUrl: 'https://example.com/supino.mp4',
+      },
+      Role.INSTRUCTOR,
+      gym.id
+    );
+    createdIds.push(benchPress.id);
+
+    const squat = await exerciseService.create(
+      {
+        name: `Agachamento Livre ${suffix}`,
+        description: 'Agachamento com barra nas costas',
+        muscleGroup: 'Pernas',
+        equipment: 'Barra',
+      },
+      Role.ADMIN,
+      gym.id
+    );
+    createdIds.push(squat.id);
+    console.log(`   ✅ Criados: ${benchPress.name}, ${squat.name}\n`);
+
+    // ========================================
+    // TESTE 2: Membro tentando criar
+    // ========================================
+    console.log('2️⃣ Testando membro criar exercício...');
+    try {
+      await exerciseService.create(
+        { name: `Rosca ${suffix}`, muscleGroup: 'Bíceps' },
+        Role.MEMBER,
+        gym.id
+      );
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 3: Nome duplicado
+    // ========================================
+    console.log('3️⃣ Testando nome duplicado...');
+    try {
+      await exerciseService.create(
+        { name: `supino reto ${suffix}`, muscleGroup: 'Peito' },
+        Role.INSTRUCTOR,
+        gym.id
+      );
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 4: Busca textual e filtros
+    // ========================================
+    console.log('4️⃣ Testando busca e filtros...');
+    const byDescription = await exerciseService.list(
+      {
+        search: 'banco reto',
+        page: 1,
+        limit: 20,
+      },
+      gym.id
+    );
+    console.log(
+      `   ${byDescription.data.some(e => e.id === benchPress.id) ? '✅' : '❌'} Busca pela descrição encontrou o supino`
+    );
+
+    const legs = await exerciseService.list(
+      {
+        search: String(suffix),
+        muscleGroup: 'pernas',
+        equipment: 'barra',
+        page: 1,
+        limit: 20,
+      },
+      gym.id
+    );
+    console.log(
+      `   ${legs.meta.total === 1 && legs.data[0].id === squat.id ? '✅' : '❌'} Filtro por grupo muscular e equipamento: ${legs.meta.total} resultado(s)\n`
+    );
+
+    // ========================================
+    // TESTE 5: Atualização
+    // ========================================
+    console.log('5️⃣ Testando atualização...');
+    const updated = await exerciseService.update(
+      benchPress.id,
+      { equipment: null, thumbnailUrl: 'https://example.com/supino.jpg' },
+      Role.INSTRUCTOR,
+      gym.id
+    );
+    console.log(
+      `   ✅ Equipamento: ${updated.equipment ?? 'nenhum'} | Miniatura: ${updated.thumbnailUrl}\n`
+    );
+
+    // ========================================
+    // TESTE 6: Remoção
+    // ========================================
+    console.log('6️⃣ Testando remoção...');
+    await exerciseService.delete(squat.id, Role.ADMIN, gym.id);
+    createdIds.splice(createdIds.indexOf(squat.id), 1);
+    try {
+      await exerciseService.getById(squat.id, gym.id);
+      console.log('   ❌ Exercício ainda existe\n');
+    } catch (error: any) {
+      console.log(`   ✅ Exercício removido: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 7: Exercícios de outra academia
+    // ========================================
+    console.log('7️⃣ Testando acesso de outra academia...');
+    const otherList = await exerciseService.list(
+      { search: String(suffix), page: 1, limit: 20 },
+      otherGym.id
+    );
+    console.log(
+      `   ${otherList.meta.total === 0 ? '✅' : '❌'} Exercícios da academia A invisíveis para B`
+    );
+    try {
+      await exerciseService.update(
+        benchPress.id,
+        { name: `Supino Alterado ${suffix}` },
+        Role.ADMIN,
+        otherGym.id
+      );
+      console.log('   ❌ Academia B alterou exercício da academia A\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 8: Catálogo global somente leitura
+    // ========================================
+    console.log('8️⃣ Testando catálogo global...');
+    const globalExercise = await exerciseRepository.create({
+      name: `Prancha Global ${suffix}`,
+      muscleGroup: 'Core',
+    });
+    createdIds.push(globalExercise.id);
+    const visible = await exerciseService.getById(
+      globalExercise.id,
+      otherGym.id
+    );
+    console.log(`   ✅ Visível para qualquer academia: ${visible.name}`);
+    try {
+      await exerciseService.delete(globalExercise.id, Role.ADMIN, otherGym.id);
+      console.log('   ❌ Exercício global removido por uma academia\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    console.log('✅ Todos os testes do Exercise Service passaram!\n');
+  } catch (error) {
+    console.error('❌ Erro nos testes:', error);
+  } finally {
+    // ========================================
+    // CLEANUP
+    // ========================================
+    console.log('🧹 Limpando dados...');
+    await prisma.exercise.deleteMany({ where: { id: { in: createdIds } } });
+    await prisma.gym.deleteMany({ where: { id: { in: gymIds } } });
+    console.log('   ✅ Dados limpos');
+    await prisma.$disconnect();
+    console.log('   ✅ Conexão encerrada\n');
+  }
+}
+
+testExerciseService();
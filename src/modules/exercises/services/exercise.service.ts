@@ -0,0 +1,162 @@
+import { Exercise, Role } from '@prisma/client';
+import { IExerciseRepository } from '../interfaces/exercise-repository.interface';
+import { PaginatedResult } from '@/modules/users/interfaces/user-repository.interface';
+import { AppError } from '@/shared/errors/app-error';
+import {
+  CreateExerciseDTO,
+  UpdateExerciseDTO,
+  ListExercisesFiltersDTO,
+} from '../dtos/exercise.dto';
+
+/**
+ * Service de Exercícios
+ * Catálogo global (somente leitura) compartilhado entre as academias,
+ * mais os exercícios cadastrados por cada academia
+ */
+export class ExerciseService {
+  constructor(private exerciseRepository: IExerciseRepository) {}
+
+  /**
+   * Criar exercício
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async create(
+    data: CreateExerciseDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Exercise> {
+    this.ensureStaff(requestingUserRole);
+
+    await this.ensureNameAvailable(data.name, requestingUserGymId);
+
+    return this.exerciseRepository.create({
+      ...data,
+      gymId: requestingUserGymId,
+    });
+  }
+
+  /**
+   * Buscar exercícios com filtros
+   * Permissões: Qualquer usuário autenticado
+   */
+  async list(
+    filters: ListExercisesFiltersDTO,
+    requestingUserGymId: string
+  ): Promise<PaginatedResult<Exercise>> {
+    return this.exerciseRepository.findManyWithFilters({
+      ...filters,
+      gymId: requestingUserGymId,
+    });
+  }
+
+  /**
+   * Buscar exercício por ID
+   * Permissões: Qualquer usuário autenticado
+   */
+  async getById(
+    exerciseId: string,
+    requestingUserGymId: string
+  ): Promise<Exercise> {
+    // Exercício de outra academia é tratado como inexistente
+    const exercise = await this.exerciseRepository.findAvailableById(
+      exerciseId,
+      requestingUserGymId
+    );
+
+    if (!exercise) {
+      throw new AppError('Exercício não encontrado', 404);
+    }
+
+    return exercise;
+  }
+
+  /**
+   * Atualizar exercício
+   * Permissões: INSTRUCTOR, ADMIN (apenas exercícios da própria academia)
+   */
+  async update(
+    exerciseId: string,
+    data: UpdateExerciseDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Exercise> {
+    this.ensureStaff(requestingUserRole);
+
+    const exercise = await this.findOwnExercise(
+      exerciseId,
+      requestingUserGymId
+    );
+
+    if (data.name && data.name.toLowerCase() !== exercise.name.toLowerCase()) {
+      await this.ensureNameAvailable(data.name, requestingUserGymId);
+    }
+
+    return this.exerciseRepository.update(exerciseId, data);
+  }
+
+  /**
+   * Deletar exercício
+   * Permissões: INSTRUCTOR, ADMIN (apenas exercícios da própria academia)
+   */
+  async delete(
+    exerciseId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<void> {
+    this.ensureStaff(requestingUserRole);
+
+    await this.findOwnExercise(exerciseId, requestingUserGymId);
+
+    // Não remover exercícios em uso (o cascade apagaria treinos, modelos e histórico)
+    const usages = await this.exerciseRepository.countWorkoutUsages(exerciseId);
+
+    if (usages > 0) {
+      throw new AppError(
+        'Exercício está em uso em treinos, modelos ou histórico e não pode ser removido',
+        409
+      );
+    }
+
+    await this.exerciseRepository.delete(exerciseId);
+  }
+
+  private ensureStaff(requestingUserRole: Role): void {
+    if (requestingUserRole === Role.MEMBER) {
+      throw new AppError('Sem permissão para gerenciar exercícios', 403);
+    }
+  }
+
+  /**
+   * Exercício que a academia pode alterar
+   * O catálogo global é usado por todas as academias e não pode ser alterado
+   */
+  private async findOwnExercise(
+    exerciseId: string,
+    requestingUserGymId: string
+  ): Promise<Exercise> {
+    const exercise = await this.getById(exerciseId, requestingUserGymId);
+
+    if (exercise.gymId !== requestingUserGymId) {
+      throw new AppError(
+        'Exercícios do catálogo global não podem ser alterados',
+        403
+      );
+    }
+
+    return exercise;
+  }
+
+  private async ensureNameAvailable(
+    name: string,
+    requestingUserGymId: string
+  ): Promise<void> {
+    const nameExists = await this.exerciseRepository.findByName(
+      name,
+      requestingUserGymId
+    );
+
+    if (nameExists) {
+      throw new AppError('Já existe um exercício com este nome', 409);
+    }
+  }
+}
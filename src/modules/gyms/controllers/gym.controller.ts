@@ -0,0 +1,147 @@
+import { Request, Response, NextFunction } from 'express';
+import { GymService } from '../services/gym.service';
+import { PrismaGymRepository } from '../repositories/prisma-gym.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { createGymSchema, updateGymSchema } from '../dtos/gym.dto';
+import { Role } from '@prisma/client';
+
+/**
+ * Controller de Academias
+ * Gerencia requisições HTTP relacionadas a academias
+ */
+export class GymController {
+  private gymService: GymService;
+
+  constructor() {
+    const gymRepository = new PrismaGymRepository();
+    const userRepository = new PrismaUserRepository();
+    this.gymService = new GymService(gymRepository, userRepository);
+  }
+
+  /**
+   * POST /api/gyms
+   * Cadastrar academia com o primeiro ADMIN
+   * Permissões: Público
+   */
+  create = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = createGymSchema.parse(req.body);
+
+      const result = await this.gymService.create(data);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Academia cadastrada com sucesso',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/gyms/slug/:slug
+   * Buscar dados públicos da academia pelo slug
+   * Permissões: Público
+   */
+  getBySlug = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { slug } = req.params as { slug: string };
+
+      const gym = await this.gymService.getPublicBySlug(slug);
+
+      res.status(200).json({
+        status: 'success',
+        data: { gym },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/gyms/me
+   * Buscar perfil da própria academia
+   * Permissões: Qualquer usuário autenticado
+   */
+  getOwn = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const gymId = req.gymId!;
+
+      const gym = await this.gymService.getOwn(gymId);
+
+      res.status(200).json({
+        status: 'success',
+        data: { gym },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/gyms/me
+   * Atualizar perfil da própria academia
+   * Permissões: ADMIN
+   */
+  update = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = updateGymSchema.parse(req.body);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const gym = await this.gymService.update(data, userRole, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Academia atualizada com sucesso',
+        data: { gym },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/gyms/me/deactivate
+   * Desativar a própria academia
+   * Permissões: ADMIN
+   */
+  deactivate = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const gym = await this.gymService.deactivate(userRole, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Academia desativada com sucesso',
+        data: { gym },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { cpfSchema, passwordSchema } from '@/modules/auth/dtos/auth.dto';
+import { isValidCnpj, onlyDigits } from '@/shared/utils/document.util';
+
+/**
+ * Slug amigável para URLs (ex: "academia-centro")
+ */
+const slugSchema = z
+  .string()
+  .min(3, 'Slug deve ter pelo menos 3 caracteres')
+  .max(60, 'Slug deve ter no máximo 60 caracteres')
+  .regex(
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    'Slug deve conter apenas letras minúsculas, números e hífens'
+  );
+
+/**
+ * CNPJ com ou sem máscara, normalizado para apenas dígitos
+ */
+const cnpjSchema = z
+  .string()
+  .trim()
+  .refine(isValidCnpj, { message: 'CNPJ inválido' })
+  .transform(onlyDigits);
+
+/**
+ * Campos de perfil da academia
+ */
+const gymProfileSchema = z.object({
+  name: z
+    .string()
+    .min(3, 'Nome deve ter pelo menos 3 caracteres')
+    .max(100, 'Nome deve ter no máximo 100 caracteres')
+    .trim(),
+
+  slug: slugSchema,
+
+  email: z.string().email('E-mail inválido').toLowerCase().trim(),
+
+  cnpj: cnpjSchema.optional(),
+
+  phone: z
+    .string()
+    .regex(/^\d{10,11}$/, 'Telefone deve conter 10 ou 11 dígitos')
+    .optional(),
+
+  address: z.string().max(200, 'Endereço muito longo').optional(),
+
+  city: z.string().max(100, 'Cidade muito longa').optional(),
+
+  state: z
+    .string()
+    .length(2, 'Estado deve ser a sigla com 2 letras')
+    .toUpperCase()
+    .optional(),
+
+  zipCode: z
+    .string()
+    .regex(/^\d{8}$/, 'CEP deve conter 8 dígitos')
+    .optional(),
+
+  logoUrl: z.string().url('URL inválida').optional(),
+});
+
+/**
+ * DTO para criar academia com o primeiro administrador
+ */
+export const createGymSchema = gymProfileSchema.extend({
+  admin: z.object({
+    name: z
+      .string()
+      .min(3, 'Nome deve ter pelo menos 3 caracteres')
+      .max(100, 'Nome deve ter no máximo 100 caracteres')
+      .trim(),
+
+    email: z.string().email('E-mail inválido').toLowerCase().trim(),
+
+    password: passwordSchema,
+
+    cpf: cpfSchema.optional(),
+
+    phone: z
+      .string()
+      .regex(/^\d{10,11}$/, 'Telefone deve conter 10 ou 11 dígitos')
+      .optional(),
+  }),
+});
+
+/**
+ * DTO para atualizar academia
+ * (campos opcionais aceitam null para limpar o valor)
+ */
+export const updateGymSchema = z.object({
+  name: gymProfileSchema.shape.name.optional(),
+  slug: slugSchema.optional(),
+  email: gymProfileSchema.shape.email.optional(),
+  cnpj: gymProfileSchema.shape.cnpj.nullable(),
+  phone: gymProfileSchema.shape.phone.nullable(),
+  address: gymProfileSchema.shape.address.nullable(),
+  city: gymProfileSchema.shape.city.nullable(),
+  state: gymProfileSchema.shape.state.nullable(),
+  zipCode: gymProfileSchema.shape.zipCode.nullable(),
+  logoUrl: gymProfileSchema.shape.logoUrl.nullable(),
+
+  // Políticas para usuários com e-mail não verificado
+  allowUnverifiedLogin: z.boolean().optional(),
+  allowUnverifiedCheckIn: z.boolean().optional(),
+
+  // Exigir autenticação em dois fatores dos ADMINs
+  requireAdminTwoFactor: z.boolean().optional(),
+});
+
+/**
+ * Tipos inferidos
+ */
+export type CreateGymDTO = z.infer<typeof createGymSchema>;
+export type UpdateGymDTO = z.infer<typeof updateGymSchema>;
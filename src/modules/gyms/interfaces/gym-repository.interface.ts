@@ -0,0 +1,100 @@
+import { Gym, Prisma } from '@prisma/client';
+
+/**
+ * Campos do administrador retornados no cadastro (sem passwordHash)
+ */
+export const gymAdminSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  gymId: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Academia com o primeiro administrador
+ */
+export type GymWithAdmin = Prisma.GymGetPayload<{
+  include: { users: { select: typeof gymAdminSelect } };
+}>;
+
+/**
+ * DTO para criar academia
+ */
+export interface CreateGymData {
+  name: string;
+  slug: string;
+  email: string;
+  cnpj?: string;
+  phone?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  logoUrl?: string;
+}
+
+/**
+ * DTO do primeiro administrador da academia
+ */
+export interface CreateGymAdminData {
+  name: string;
+  email: string;
+  passwordHash: string;
+  cpf?: string;
+  phone?: string;
+}
+
+/**
+ * DTO para atualizar academia
+ */
+export interface UpdateGymData {
+  name?: string;
+  slug?: string;
+  email?: string;
+  cnpj?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zipCode?: string | null;
+  logoUrl?: string | null;
+  isActive?: boolean;
+  allowUnverifiedLogin?: boolean;
+  allowUnverifiedCheckIn?: boolean;
+  requireAdminTwoFactor?: boolean;
+}
+
+/**
+ * Interface do Repository de Academias
+ */
+export interface IGymRepository {
+  /**
+   * Criar academia e seu primeiro ADMIN na mesma transação
+   */
+  createWithAdmin(
+    gym: CreateGymData,
+    admin: CreateGymAdminData
+  ): Promise<GymWithAdmin>;
+
+  /**
+   * Buscar academia por ID
+   */
+  findById(id: string): Promise<Gym | null>;
+
+  /**
+   * Buscar academia por slug
+   */
+  findBySlug(slug: string): Promise<Gym | null>;
+
+  /**
+   * Buscar academia por CNPJ
+   */
+  findByCnpj(cnpj: string): Promise<Gym | null>;
+
+  /**
+   * Atualizar academia
+   */
+  update(id: string, data: UpdateGymData): Promise<Gym>;
+}
@@ -0,0 +1,60 @@
+import { Gym, Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IGymRepository,
+  CreateGymData,
+  CreateGymAdminData,
+  UpdateGymData,
+  GymWithAdmin,
+  gymAdminSelect,
+} from '../interfaces/gym-repository.interface';
+
+export class PrismaGymRepository implements IGymRepository {
+  async createWithAdmin(
+    gym: CreateGymData,
+    admin: CreateGymAdminData
+  ): Promise<GymWithAdmin> {
+    // Escrita aninhada: academia e usuário são gravados atomicamente
+    return prisma.gym.create({
+      data: {
+        ...gym,
+        users: {
+          create: {
+            ...admin,
+            role: Role.ADMIN,
+          },
+        },
+      },
+      include: {
+        users: {
+          select: gymAdminSelect,
+        },
+      },
+    });
+  }
+
+  async findById(id: string): Promise<Gym | null> {
+    return prisma.gym.findUnique({
+      where: { id },
+    });
+  }
+
+  async findBySlug(slug: string): Promise<Gym | null> {
+    return prisma.gym.findUnique({
+      where: { slug },
+    });
+  }
+
+  async findByCnpj(cnpj: string): Promise<Gym | null> {
+    return prisma.gym.findUnique({
+      where: { cnpj },
+    });
+  }
+
+  async update(id: string, data: UpdateGymData): Promise<Gym> {
+    return prisma.gym.update({
+      where: { id },
+      data,
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { GymController } from '../controllers/gym.controller';
+import { authenticate } from '@/shared/middlewares/authenticate.middleware';
+import { authorize } from '@/shared/middlewares/authorize.middleware';
+import { Role } from '@prisma/client';
+
+const gymRouter = Router();
+const gymController = new GymController();
+
+/**
+ * Rotas públicas
+ */
+
+/**
+ * @route POST /api/gyms
+ * @desc Cadastrar academia com o primeiro ADMIN
+ * @access Public
+ */
+gymRouter.post('/', gymController.create);
+
+/**
+ * @route GET /api/gyms/slug/:slug
+ * @desc Buscar academia pelo slug (telas de login)
+ * @access Public
+ */
+gymRouter.get('/slug/:slug', gymController.getBySlug);
+
+/**
+ * Rotas protegidas
+ */
+
+/**
+ * @route GET /api/gyms/me
+ * @desc Perfil da própria academia
+ * @access Private (qualquer usuário autenticado)
+ */
+gymRouter.get('/me', authenticate, gymController.getOwn);
+
+/**
+ * @route PATCH /api/gyms/me
+ * @desc Atualizar perfil da própria academia
+ * @access ADMIN
+ */
+gymRouter.patch(
+  '/me',
+  authenticate,
+  authorize([Role.ADMIN]),
+  gymController.update
+);
+
+/**
+ * @route POST /api/gyms/me/deactivate
+ * @desc Desativar a própria academia
+ * @access ADMIN
+ */
+gymRouter.post(
+  '/me/deactivate',
+  authenticate,
+  authorize([Role.ADMIN]),
+  gymController.deactivate
+);
+
+export { gymRouter };
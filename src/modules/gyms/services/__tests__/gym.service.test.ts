@@ -0,0 +1,124 @@
+import 'dotenv/config';
+import { GymService } from '../gym.service';
+import { PrismaGymRepository } from '@/modules/gyms/repositories/prisma-gym.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+
+async function testGymService() {
+  console.log('🧪 Testando Gym Service...\n');
+
+  const gymService = new GymService(
+    new PrismaGymRepository(),
+    new PrismaUserRepository()
+  );
+
+  const slug = `gym-test-${Date.now()}`;
+  let testGymId: string | undefined;
+
+  try {
+    // ========================================
+    // TESTE 1: Cadastro de academia com ADMIN
+    // ========================================
+    console.log('1️⃣ Testando cadastro de academia...');
+    const { gym, admin } = await gymService.create({
+      name: 'Academia Gym Test',
+      slug,
+      email: `${slug}@gym.com`,
+      admin: {
+        name: 'Dono da Academia',
+        email: `owner-${Date.now()}@test.com`,
+        password: 'Senha123',
+      },
+    });
+    testGymId = gym.id;
+    console.log(`   Academia: ${gym.name} (${gym.slug})`);
+    console.log(`   Admin: ${admin.email} (${admin.role})`);
+    console.log(
+      `   ${admin.role === Role.ADMIN && admin.gymId === gym.id ? '✅' : '❌'} Admin criado na academia\n`
+    );
+
+    // ========================================
+    // TESTE 2: Slug duplicado
+    // ========================================
+    console.log('2️⃣ Testando slug duplicado...');
+    try {
+      await gymService.create({
+        name: 'Outra Academia',
+        slug,
+        email: `other-${slug}@gym.com`,
+        admin: {
+          name: 'Outro Dono',
+          email: `other-owner-${Date.now()}@test.com`,
+          password: 'Senha123',
+        },
+      });
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 3: Consulta pública por slug
+    // ========================================
+    console.log('3️⃣ Testando consulta por slug...');
+    const publicGym = await gymService.getPublicBySlug(slug);
+    console.log(
+      `   ${publicGym.id === gym.id ? '✅' : '❌'} Academia encontrada: ${publicGym.name}\n`
+    );
+
+    // ========================================
+    // TESTE 4: Instrutor tentando atualizar
+    // ========================================
+    console.log('4️⃣ Testando instrutor atualizar academia...');
+    try {
+      await gymService.update({ name: 'Nome Novo' }, Role.INSTRUCTOR, gym.id);
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 5: Admin atualizando perfil
+    // ========================================
+    console.log('5️⃣ Testando admin atualizar academia...');
+    const updated = await gymService.update(
+      { name: 'Academia Renomeada', city: 'São Paulo', state: 'SP' },
+      Role.ADMIN,
+      gym.id
+    );
+    console.log(`   ✅ ${updated.name} - ${updated.city}/${updated.state}\n`);
+
+    // ========================================
+    // TESTE 6: Desativação
+    // ========================================
+    console.log('6️⃣ Testando desativação...');
+    const deactivated = await gymService.deactivate(Role.ADMIN, gym.id);
+    console.log(
+      `   ${!deactivated.isActive ? '✅' : '❌'} Academia desativada`
+    );
+    try {
+      await gymService.deactivate(Role.ADMIN, gym.id);
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Segunda desativação bloqueada: ${error.message}\n`);
+    }
+
+    console.log('✅ Todos os testes do Gym Service passaram!\n');
+  } catch (error) {
+    console.error('❌ Erro nos testes:', error);
+  } finally {
+    // ========================================
+    // CLEANUP (cascade remove o admin)
+    // ========================================
+    console.log('🧹 Limpando dados...');
+    if (testGymId) {
+      await prisma.gym.delete({ where: { id: testGymId } }).catch(() => {});
+      console.log('   ✅ Dados limpos');
+    }
+    await prisma.$disconnect();
+    console.log('   ✅ Conexão encerrada\n');
+  }
+}
+
+testGymService();
@@ -0,0 +1,171 @@
+import { Gym, Role } from '@prisma/client';
+import {
+  IGymRepository,
+  GymWithAdmin,
+} from '../interfaces/gym-repository.interface';
+import { IUserRepository } from '@/modules/users/interfaces/user-repository.interface';
+import { hashPassword } from '@/shared/utils/password.util';
+import { AppError } from '@/shared/errors/app-error';
+import { CreateGymDTO, UpdateGymDTO } from '../dtos/gym.dto';
+
+/**
+ * Dados públicos da academia (consulta por slug, sem autenticação)
+ */
+export type PublicGym = Pick<
+  Gym,
+  'id' | 'name' | 'slug' | 'logoUrl' | 'isActive'
+>;
+
+/**
+ * Resposta do cadastro de academia
+ */
+export interface CreateGymResponse {
+  gym: Gym;
+  admin: GymWithAdmin['users'][number];
+}
+
+/**
+ * Service de Academias
+ * Cadastro de novas academias e administração do perfil
+ */
+export class GymService {
+  constructor(
+    private gymRepository: IGymRepository,
+    private userRepository: IUserRepository
+  ) {}
+
+  /**
+   * Cadastrar academia com seu primeiro ADMIN
+   * Permissões: Público
+   */
+  async create(data: CreateGymDTO): Promise<CreateGymResponse> {
+    const { admin: adminData, ...gymData } = data;
+
+    await this.ensureSlugAvailable(gymData.slug);
+
+    if (gymData.cnpj) {
+      await this.ensureCnpjAvailable(gymData.cnpj);
+    }
+
+    if (adminData.cpf) {
+      const cpfExists = await this.userRepository.existsByCpf(adminData.cpf);
+      if (cpfExists) {
+        throw new AppError('CPF já cadastrado', 409);
+      }
+    }
+
+    const passwordHash = await hashPassword(adminData.password);
+
+    const { users, ...gym } = await this.gymRepository.createWithAdmin(
+      gymData,
+      {
+        name: adminData.name,
+        email: adminData.email,
+        passwordHash,
+        cpf: adminData.cpf,
+        phone: adminData.phone,
+      }
+    );
+
+    return { gym, admin: users[0] };
+  }
+
+  /**
+   * Buscar dados públicos da academia pelo slug
+   * Permissões: Público
+   */
+  async getPublicBySlug(slug: string): Promise<PublicGym> {
+    const gym = await this.gymRepository.findBySlug(slug);
+
+    if (!gym) {
+      throw new AppError('Academia não encontrada', 404);
+    }
+
+    return {
+      id: gym.id,
+      name: gym.name,
+      slug: gym.slug,
+      logoUrl: gym.logoUrl,
+      isActive: gym.isActive,
+    };
+  }
+
+  /**
+   * Buscar perfil da própria academia
+   * Permissões: Qualquer usuário autenticado
+   */
+  async getOwn(requestingUserGymId: string): Promise<Gym> {
+    const gym = await this.gymRepository.findById(requestingUserGymId);
+
+    if (!gym) {
+      throw new AppError('Academia não encontrada', 404);
+    }
+
+    return gym;
+  }
+
+  /**
+   * Atualizar perfil da própria academia
+   * Permissões: ADMIN
+   */
+  async update(
+    data: UpdateGymDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Gym> {
+    this.ensureAdmin(requestingUserRole);
+
+    const gym = await this.getOwn(requestingUserGymId);
+
+    if (data.slug && data.slug !== gym.slug) {
+      await this.ensureSlugAvailable(data.slug);
+    }
+
+    if (data.cnpj && data.cnpj !== gym.cnpj) {
+      await this.ensureCnpjAvailable(data.cnpj);
+    }
+
+    return this.gymRepository.update(gym.id, data);
+  }
+
+  /**
+   * Desativar a própria academia
+   * Permissões: ADMIN
+   */
+  async deactivate(
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Gym> {
+    this.ensureAdmin(requestingUserRole);
+
+    const gym = await this.getOwn(requestingUserGymId);
+
+    if (!gym.isActive) {
+      throw new AppError('Academia já está inativa', 400);
+    }
+
+    return this.gymRepository.update(gym.id, { isActive: false });
+  }
+
+  private ensureAdmin(requestingUserRole: Role): void {
+    if (requestingUserRole !== Role.ADMIN) {
+      throw new AppError('Sem permissão para gerenciar a academia', 403);
+    }
+  }
+
+  private async ensureSlugAvailable(slug: string): Promise<void> {
+    const slugExists = await this.gymRepository.findBySlug(slug);
+
+    if (slugExists) {
+      throw new AppError('Slug já está em uso', 409);
+    }
+  }
+
+  private async ensureCnpjAvailable(cnpj: string): Promise<void> {
+    const cnpjExists = await this.gymRepository.findByCnpj(cnpj);
+
+    if (cnpjExists) {
+      throw new AppError('CNPJ já cadastrado', 409);
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { Request, Response, NextFunction } from 'express';
+import { PaymentService } from '../services/payment.service';
+import { PrismaPaymentRepository } from '../repositories/prisma-payment.repository';
+import {
+  markPaymentAsPaidSchema,
+  listPaymentsFiltersSchema,
+} from '../dtos/payment.dto';
+import { Role } from '@prisma/client';
+
+/**
+ * Controller de Pagamentos
+ * Gerencia requisições HTTP relacionadas a pagamentos
+ */
+export class PaymentController {
+  private paymentService: PaymentService;
+
+  constructor() {
+    const paymentRepository = new PrismaPaymentRepository();
+    this.paymentService = new PaymentService(paymentRepository);
+  }
+
+  /**
+   * GET /api/payments
+   * Listar pagamentos da academia (com filtros)
+   * Permissões: ADMIN
+   */
+  list = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const filters = listPaymentsFiltersSchema.parse(req.query);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const result = await this.paymentService.list(filters, userRole, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        data: result.data,
+        meta: result.meta,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/payments/me
+   * Listar próprios pagamentos
+   * Permissões: Qualquer usuário autenticado
+   */
+  listOwn = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = req.userId!;
+
+      const payments = await this.paymentService.listOwn(userId);
+
+      res.status(200).json({
+        status: 'success',
+        data: { payments },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/payments/:id/pay
+   * Registrar pagamento
+   * Permissões: ADMIN
+   */
+  markAsPaid = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const data = markPaymentAsPaidSchema.parse(req.body);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const payment = await this.paymentService.markAsPaid(
+        id,
+        data,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Pagamento registrado com sucesso',
+        data: { payment },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/payments/:id/fail
+   * Registrar falha na cobrança
+   * Permissões: ADMIN
+   */
+  markAsFailed = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const payment = await this.paymentService.markAsFailed(
+        id,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Falha de pagamento registrada',
+        data: { payment },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/payments/:id/refund
+   * Estornar pagamento
+   * Permissões: ADMIN
+   */
+  refund = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const payment = await this.paymentService.refund(id, userRole, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Pagamento estornado com sucesso',
+        data: { payment },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
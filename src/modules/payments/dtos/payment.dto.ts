@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { PaymentStatus } from '@prisma/client';
+
+/**
+ * DTO para registrar pagamento
+ */
+export const markPaymentAsPaidSchema = z.object({
+  paymentMethod: z
+    .string()
+    .min(2, 'Forma de pagamento deve ter pelo menos 2 caracteres')
+    .max(50, 'Forma de pagamento deve ter no máximo 50 caracteres')
+    .trim(),
+
+  paymentDate: z
+    .string()
+    .datetime('Data de pagamento inválida')
+    .transform(val => new Date(val))
+    .optional(),
+});
+
+/**
+ * DTO para filtros de listagem
+ */
+export const listPaymentsFiltersSchema = z.object({
+  userId: z.string().uuid('ID de usuário inválido').optional(),
+
+  subscriptionId: z.string().uuid('ID de assinatura inválido').optional(),
+
+  status: z.nativeEnum(PaymentStatus).optional(),
+
+  page: z
+    .string()
+    .default('1')
+    .transform(val => parseInt(val, 10)),
+
+  limit: z
+    .string()
+    .default('20')
+    .transform(val => parseInt(val, 10)),
+});
+
+/**
+ * Tipos inferidos
+ */
+export type MarkPaymentAsPaidDTO = z.infer<typeof markPaymentAsPaidSchema>;
+export type ListPaymentsFiltersDTO = z.infer<typeof listPaymentsFiltersSchema>;
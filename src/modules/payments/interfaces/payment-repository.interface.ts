@@ -0,0 +1,71 @@
+import { Payment, PaymentStatus, Prisma } from '@prisma/client';
+import { PaginatedResult } from '@/modules/users/interfaces/user-repository.interface';
+
+/**
+ * Parcela a ser gerada para uma assinatura
+ */
+export interface InstallmentData {
+  amount: Prisma.Decimal;
+  dueDate: Date;
+}
+
+/**
+ * Pagamento com a assinatura de origem
+ */
+export type PaymentWithSubscription = Prisma.PaymentGetPayload<{
+  include: { subscription: true };
+}>;
+
+/**
+ * DTO para atualizar pagamento
+ */
+export interface UpdatePaymentData {
+  status?: PaymentStatus;
+  paymentDate?: Date | null;
+  paymentMethod?: string;
+}
+
+/**
+ * Filtros para buscar pagamentos
+ */
+export interface FindPaymentsFilters {
+  gymId: string;
+  userId?: string;
+  subscriptionId?: string;
+  status?: PaymentStatus;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Interface do Repository de Pagamentos
+ */
+export interface IPaymentRepository {
+  /**
+   * Buscar pagamento por ID (com assinatura)
+   */
+  findById(id: string): Promise<PaymentWithSubscription | null>;
+
+  /**
+   * Buscar pagamentos do usuário (todas as assinaturas)
+   */
+  findByUser(userId: string): Promise<Payment[]>;
+
+  /**
+   * Buscar pagamentos com filtros
+   */
+  findManyWithFilters(
+    filters: FindPaymentsFilters
+  ): Promise<PaginatedResult<Payment>>;
+
+  /**
+   * Atualizar pagamento
+   */
+  update(id: string, data: UpdatePaymentData): Promise<Payment>;
+
+  /**
+   * Marcar como OVERDUE os pagamentos PENDING vencidos antes de `now`
+   * Retorna os IDs dos pagamentos alterados
+   */
+  flagOverdue(now: Date): Promise<string[]>;
+}
@@ -0,0 +1,21 @@
+import { Job, JobResult } from '@/shared/jobs/interfaces/job.interface';
+import { IPaymentRepository } from '../interfaces/payment-repository.interface';
+
+/**
+ * Job de pagamentos em atraso
+ * Move para OVERDUE os pagamentos PENDING cujo vencimento já passou
+ */
+export class FlagOverduePaymentsJob implements Job {
+  readonly name = 'flag-overdue-payments';
+
+  constructor(private paymentRepository: IPaymentRepository) {}
+
+  async run(now: Date): Promise<JobResult> {
+    const paymentIds = await this.paymentRepository.flagOverdue(now);
+
+    return {
+      affectedCount: paymentIds.length,
+      details: { paymentIds },
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { Payment, PaymentStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IPaymentRepository,
+  PaymentWithSubscription,
+  UpdatePaymentData,
+  FindPaymentsFilters,
+} from '../interfaces/payment-repository.interface';
+import { PaginatedResult } from '@/modules/users/interfaces/user-repository.interface';
+
+export class PrismaPaymentRepository implements IPaymentRepository {
+  async findById(id: string): Promise<PaymentWithSubscription | null> {
+    return prisma.payment.findUnique({
+      where: { id },
+      include: {
+        subscription: true,
+      },
+    });
+  }
+
+  async findByUser(userId: string): Promise<Payment[]> {
+    return prisma.payment.findMany({
+      where: {
+        subscription: {
+          userId,
+        },
+      },
+      orderBy: {
+        dueDate: 'desc',
+      },
+      include: {
+        subscription: {
+          select: {
+            id: true,
+            planName: true,
+            status: true,
+          },
+        },
+      },
+    });
+  }
+
+  async findManyWithFilters(
+    filters: FindPaymentsFilters
+  ): Promise<PaginatedResult<Payment>> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const skip = (page - 1) * limit;
+
+    // Pagamentos não têm gymId: filtrar pela assinatura
+    const subscriptionWhere: Prisma.SubscriptionWhereInput = {
+      gymId: filters.gymId,
+    };
+
+    if (filters.userId) {
+      subscriptionWhere.userId = filters.userId;
+    }
+
+    const where: Prisma.PaymentWhereInput = {
+      subscription: subscriptionWhere,
+    };
+
+    // Filtro por assinatura
+    if (filters.subscriptionId) {
+      where.subscriptionId = filters.subscriptionId;
+    }
+
+    // Filtro por status
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.payment.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: {
+          dueDate: 'desc',
+        },
+        include: {
+          subscription: {
+            select: {
+              id: true,
+              planName: true,
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                },
+              },
+            },
+          },
+        },
+      }),
+      prisma.payment.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async update(id: string, data: UpdatePaymentData): Promise<Payment> {
+    return prisma.payment.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async flagOverdue(now: Date): Promise<string[]> {
+    return prisma.$transaction(async tx => {
+      const overdue = await tx.payment.findMany({
+        where: {
+          status: PaymentStatus.PENDING,
+          dueDate: { lt: now },
+        },
+        select: { id: true },
+      });
+
+      const ids = overdue.map(payment => payment.id);
+
+      if (ids.length > 0) {
+        // Repetir o filtro de status para não sobrescrever pagamentos já registrados
+        await tx.payment.updateMany({
+          where: {
+            id: { in: ids },
+            status: PaymentStatus.PENDING,
+          },
+          data: { status: PaymentStatus.OVERDUE },
+        });
+      }
+
+      return ids;
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { PaymentController } from '../controllers/payment.controller';
+import { authenticate } from '@/shared/middlewares/authenticate.middleware';
+import { authorize } from '@/shared/middlewares/authorize.middleware';
+import { Role } from '@prisma/client';
+
+const paymentRouter = Router();
+const paymentController = new PaymentController();
+
+/**
+ * Todas as rotas requerem autenticação
+ */
+paymentRouter.use(authenticate);
+
+/**
+ * @route GET /api/payments/me
+ * @desc Listar próprios pagamentos
+ * @access Private (qualquer usuário autenticado)
+ */
+paymentRouter.get('/me', paymentController.listOwn);
+
+/**
+ * @route GET /api/payments
+ * @desc Listar pagamentos da academia (com filtros)
+ * @access ADMIN
+ */
+paymentRouter.get('/', authorize([Role.ADMIN]), paymentController.list);
+
+/**
+ * @route PATCH /api/payments/:id/pay
+ * @desc Registrar pagamento (PENDING/FAILED/OVERDUE → PAID)
+ * @access ADMIN
+ */
+paymentRouter.patch(
+  '/:id/pay',
+  authorize([Role.ADMIN]),
+  paymentController.markAsPaid
+);
+
+/**
+ * @route PATCH /api/payments/:id/fail
+ * @desc Registrar falha na cobrança (PENDING/OVERDUE → FAILED)
+ * @access ADMIN
+ */
+paymentRouter.patch(
+  '/:id/fail',
+  authorize([Role.ADMIN]),
+  paymentController.markAsFailed
+);
+
+/**
+ * @route PATCH /api/payments/:id/refund
+ * @desc Estornar pagamento (PAID → REFUNDED)
+ * @access ADMIN
+ */
+paymentRouter.patch(
+  '/:id/refund',
+  authorize([Role.ADMIN]),
+  paymentController.refund
+);
+
+export { paymentRouter };
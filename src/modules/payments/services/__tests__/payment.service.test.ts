@@ -0,0 +1,73 @@
+import { Prisma } from '@prisma/client';
+import { buildInstallments } from '../payment.service';
+
+function testBuildInstallments() {
+  console.log('🧪 Testando geração de parcelas...\n');
+
+  const startDate = new Date('2025-01-31T12:00:00');
+
+  // ========================================
+  // TESTE 1: Plano mensal (parcela única)
+  // ========================================
+  console.log('1️⃣ Testando plano mensal...');
+  const monthly = buildInstallments(
+    { durationMonths: 1 },
+    new Prisma.Decimal('99.90'),
+    startDate
+  );
+  console.log(`   Parcelas: ${monthly.length}`);
+  console.log(`   Valor: ${monthly[0].amount.toFixed(2)}`);
+  console.log(
+    `   ${monthly.length === 1 && monthly[0].amount.equals(99.9) ? '✅' : '❌'} Parcela única com valor cheio\n`
+  );
+
+  // ========================================
+  // TESTE 2: Plano trimestral com divisão inexata
+  // ========================================
+  console.log('2️⃣ Testando plano trimestral de R$ 100,00...');
+  const quarterly = buildInstallments(
+    { durationMonths: 3 },
+    new Prisma.Decimal('100.00'),
+    startDate
+  );
+  const amounts = quarterly.map(i => i.amount.toFixed(2));
+  const total = quarterly.reduce(
+    (sum, i) => sum.plus(i.amount),
+    new Prisma.Decimal(0)
+  );
+  console.log(`   Valores: ${amounts.join(' + ')}`);
+  console.log(
+    `   ${total.equals(100) ? '✅' : '❌'} Soma das parcelas = ${total.toFixed(2)}\n`
+  );
+
+  // ========================================
+  // TESTE 3: Vencimentos mensais (fim de mês)
+  // ========================================
+  console.log('3️⃣ Testando vencimentos...');
+  quarterly.forEach((installment, index) => {
+    console.log(
+      `   Parcela ${index + 1}: ${installment.dueDate.toLocaleDateString('pt-BR')}`
+    );
+  });
+  const secondDue = quarterly[1].dueDate;
+  console.log(
+    `   ${secondDue.getMonth() === 1 && secondDue.getDate() === 28 ? '✅' : '❌'} 31/01 + 1 mês = último dia de fevereiro\n`
+  );
+
+  // ========================================
+  // TESTE 4: Plano em dias (parcela única)
+  // ========================================
+  console.log('4️⃣ Testando plano em dias...');
+  const daily = buildInstallments(
+    { durationMonths: null },
+    new Prisma.Decimal('30.00'),
+    startDate
+  );
+  console.log(
+    `   ${daily.length === 1 ? '✅' : '❌'} Parcela única: ${daily[0].amount.toFixed(2)}\n`
+  );
+
+  console.log('✅ Todos os testes de parcelas concluídos!');
+}
+
+testBuildInstallments();
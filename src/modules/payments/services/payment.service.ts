@@ -0,0 +1,184 @@
+import { Payment, PaymentStatus, Plan, Prisma, Role } from '@prisma/client';
+import {
+  IPaymentRepository,
+  InstallmentData,
+  UpdatePaymentData,
+} from '../interfaces/payment-repository.interface';
+import { AppError } from '@/shared/errors/app-error';
+import { addMonths } from '@/shared/utils/date.util';
+import {
+  MarkPaymentAsPaidDTO,
+  ListPaymentsFiltersDTO,
+} from '../dtos/payment.dto';
+
+/**
+ * Transições de status permitidas
+ * FAILED → PAID cobre a nova tentativa de cobrança
+ * OVERDUE é atribuído pelo job de vencimentos (ver flag-overdue-payments.job)
+ */
+const ALLOWED_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  [PaymentStatus.PENDING]: [PaymentStatus.PAID, PaymentStatus.FAILED],
+  [PaymentStatus.FAILED]: [PaymentStatus.PAID],
+  [PaymentStatus.PAID]: [PaymentStatus.REFUNDED],
+  [PaymentStatus.REFUNDED]: [],
+  [PaymentStatus.OVERDUE]: [PaymentStatus.PAID, PaymentStatus.FAILED],
+};
+
+/**
+ * Gera as parcelas de um período do plano
+ * Planos em meses geram uma parcela por mês; planos em dias, parcela única.
+ * Centavos que sobram da divisão vão para a primeira parcela.
+ *
+ * @example
+ * // Plano trimestral de R$ 100,00 → 33,34 + 33,33 + 33,33
+ * buildInstallments(plan, plan.price, new Date());
+ */
+export function buildInstallments(
+  plan: Pick<Plan, 'durationMonths'>,
+  price: Prisma.Decimal,
+  firstDueDate: Date
+): InstallmentData[] {
+  const count = plan.durationMonths ?? 1;
+  const total = new Prisma.Decimal(price);
+
+  const installmentAmount = total
+    .dividedBy(count)
+    .toDecimalPlaces(2, Prisma.Decimal.ROUND_DOWN);
+  const firstAmount = total.minus(installmentAmount.times(count - 1));
+
+  return Array.from({ length: count }, (_, index) => ({
+    amount: index === 0 ? firstAmount : installmentAmount,
+    dueDate: addMonths(firstDueDate, index),
+  }));
+}
+
+/**
+ * Service de Pagamentos
+ * Contém lógica de negócio das parcelas das assinaturas
+ */
+export class PaymentService {
+  constructor(private paymentRepository: IPaymentRepository) {}
+
+  /**
+   * Listar pagamentos da academia com filtros
+   * Permissões: ADMIN
+   */
+  async list(
+    filters: ListPaymentsFiltersDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ) {
+    if (requestingUserRole !== Role.ADMIN) {
+      throw new AppError('Sem permissão para listar pagamentos', 403);
+    }
+
+    // Forçar filtro por academia
+    return this.paymentRepository.findManyWithFilters({
+      ...filters,
+      gymId: requestingUserGymId,
+    });
+  }
+
+  /**
+   * Listar próprios pagamentos
+   * Permissões: Qualquer usuário autenticado
+   */
+  async listOwn(userId: string): Promise<Payment[]> {
+    return this.paymentRepository.findByUser(userId);
+  }
+
+  /**
+   * Registrar pagamento como PAGO
+   * Permissões: ADMIN
+   */
+  async markAsPaid(
+    paymentId: string,
+    data: MarkPaymentAsPaidDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Payment> {
+    return this.transition(
+      paymentId,
+      PaymentStatus.PAID,
+      {
+        paymentMethod: data.paymentMethod,
+        paymentDate: data.paymentDate ?? new Date(),
+      },
+      requestingUserRole,
+      requestingUserGymId
+    );
+  }
+
+  /**
+   * Registrar falha na cobrança
+   * Permissões: ADMIN
+   */
+  async markAsFailed(
+    paymentId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Payment> {
+    return this.transition(
+      paymentId,
+      PaymentStatus.FAILED,
+      {},
+      requestingUserRole,
+      requestingUserGymId
+    );
+  }
+
+  /**
+   * Estornar pagamento
+   * Permissões: ADMIN
+   */
+  async refund(
+    paymentId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Payment> {
+    return this.transition(
+      paymentId,
+      PaymentStatus.REFUNDED,
+      {},
+      requestingUserRole,
+      requestingUserGymId
+    );
+  }
+
+  /**
+   * Aplicar transição de status validando o estado atual
+   */
+  private async transition(
+    paymentId: string,
+    targetStatus: PaymentStatus,
+    data: UpdatePaymentData,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Payment> {
+    if (requestingUserRole !== Role.ADMIN) {
+      throw new AppError('Sem permissão para alterar pagamentos', 403);
+    }
+
+    const payment = await this.paymentRepository.findById(paymentId);
+
+    if (!payment) {
+      throw new AppError('Pagamento não encontrado', 404);
+    }
+
+    if (payment.subscription.gymId !== requestingUserGymId) {
+      throw new AppError('Pagamento de outra academia', 403);
+    }
+
+    if (!ALLOWED_TRANSITIONS[payment.status].includes(targetStatus)) {
+      throw new AppError(
+        `Não é possível alterar pagamento de ${payment.status} para ${targetStatus}`,
+        400
+      );
+    }
+
+    return this.paymentRepository.update(paymentId, {
+      ...data,
+      status: targetStatus,
+    });
+  }
+}
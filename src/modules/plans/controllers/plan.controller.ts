@@ -0,0 +1,160 @@
+import { Request, Response, NextFunction } from 'express';
+import { PlanService } from '../services/plan.service';
+import { PrismaPlanRepository } from '../repositories/prisma-plan.repository';
+import {
+  createPlanSchema,
+  updatePlanSchema,
+  listPlansFiltersSchema,
+} from '../dtos/plan.dto';
+import { Role } from '@prisma/client';
+
+/**
+ * Controller de Planos
+ * Gerencia requisições HTTP do catálogo de planos
+ */
+export class PlanController {
+  private planService: PlanService;
+
+  constructor() {
+    const planRepository = new PrismaPlanRepository();
+    this.planService = new PlanService(planRepository);
+  }
+
+  /**
+   * POST /api/plans
+   * Criar plano
+   * Permissões: ADMIN
+   */
+  create = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = createPlanSchema.parse(req.body);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const plan = await this.planService.create(data, userRole, gymId);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Plano criado com sucesso',
+        data: { plan },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/plans
+   * Listar planos da academia
+   * Permissões: ADMIN
+   */
+  list = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const filters = listPlansFiltersSchema.parse(req.query);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const plans = await this.planService.list(filters, userRole, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        data: { plans },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/plans/:id
+   * Buscar plano por ID
+   * Permissões: ADMIN
+   */
+  getById = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const plan = await this.planService.getById(id, userRole, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        data: { plan },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/plans/:id
+   * Atualizar plano
+   * Permissões: ADMIN
+   */
+  update = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const data = updatePlanSchema.parse(req.body);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const plan = await this.planService.update(id, data, userRole, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Plano atualizado com sucesso',
+        data: { plan },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/plans/:id
+   * Deletar plano sem assinaturas vinculadas
+   * Permissões: ADMIN
+   */
+  delete = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      await this.planService.delete(id, userRole, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Plano deletado com sucesso',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+/**
+ * Campos base de um plano
+ */
+const planFields = {
+  name: z
+    .string()
+    .min(2, 'Nome do plano deve ter pelo menos 2 caracteres')
+    .max(100, 'Nome do plano deve ter no máximo 100 caracteres')
+    .trim(),
+
+  description: z
+    .string()
+    .max(500, 'Descrição deve ter no máximo 500 caracteres')
+    .optional(),
+
+  durationMonths: z
+    .number()
+    .int('Duração deve ser um número inteiro de meses')
+    .min(1, 'Duração mínima de 1 mês')
+    .max(36, 'Duração máxima de 36 meses')
+    .optional(),
+
+  durationDays: z
+    .number()
+    .int('Duração deve ser um número inteiro de dias')
+    .min(1, 'Duração mínima de 1 dia')
+    .max(365, 'Duração máxima de 365 dias')
+    .optional(),
+
+  price: z.number().positive('Preço deve ser maior que zero'),
+
+  weeklyCheckInLimit: z
+    .number()
+    .int('Limite semanal deve ser um número inteiro')
+    .min(1, 'Limite semanal mínimo de 1 check-in')
+    .max(7, 'Limite semanal máximo de 7 check-ins')
+    .optional(),
+
+  isActive: z.boolean().optional(),
+};
+
+/**
+ * DTO para criar plano
+ * Duração em meses OU em dias (exatamente um dos dois)
+ */
+export const createPlanSchema = z
+  .object(planFields)
+  .refine(
+    data =>
+      (data.durationMonths === undefined) !== (data.durationDays === undefined),
+    {
+      message: 'Informe a duração em meses ou em dias (apenas um dos dois)',
+      path: ['durationMonths'],
+    }
+  );
+
+/**
+ * DTO para atualizar plano
+ */
+export const updatePlanSchema = z
+  .object(planFields)
+  .partial()
+  .refine(
+    data =>
+      data.durationMonths === undefined || data.durationDays === undefined,
+    {
+      message: 'Informe a duração em meses ou em dias (apenas um dos dois)',
+      path: ['durationMonths'],
+    }
+  );
+
+/**
+ * DTO para filtros de listagem
+ */
+export const listPlansFiltersSchema = z.object({
+  isActive: z
+    .string()
+    .transform(val => val === 'true')
+    .optional(),
+});
+
+/**
+ * Tipos inferidos
+ */
+export type CreatePlanDTO = z.infer<typeof createPlanSchema>;
+export type UpdatePlanDTO = z.infer<typeof updatePlanSchema>;
+export type ListPlansFiltersDTO = z.infer<typeof listPlansFiltersSchema>;
@@ -0,0 +1,77 @@
+import { Plan } from '@prisma/client';
+
+/**
+ * DTO para criar plano
+ */
+export interface CreatePlanData {
+  gymId: string;
+  name: string;
+  description?: string;
+  durationMonths?: number;
+  durationDays?: number;
+  price: number;
+  weeklyCheckInLimit?: number;
+  isActive?: boolean;
+}
+
+/**
+ * DTO para atualizar plano
+ * (null limpa o campo, undefined mantém o valor atual)
+ */
+export interface UpdatePlanData {
+  name?: string;
+  description?: string | null;
+  durationMonths?: number | null;
+  durationDays?: number | null;
+  price?: number;
+  weeklyCheckInLimit?: number | null;
+  isActive?: boolean;
+}
+
+/**
+ * Filtros para listagem de planos
+ */
+export interface FindPlansFilters {
+  gymId: string;
+  isActive?: boolean;
+}
+
+/**
+ * Interface do Repository de Planos
+ */
+export interface IPlanRepository {
+  /**
+   * Criar plano
+   */
+  create(data: CreatePlanData): Promise<Plan>;
+
+  /**
+   * Buscar plano por ID
+   */
+  findById(id: string): Promise<Plan | null>;
+
+  /**
+   * Buscar plano pelo nome dentro da academia
+   */
+  findByNameAndGymId(name: string, gymId: string): Promise<Plan | null>;
+
+  /**
+   * Listar planos da academia
+   */
+  findMany(filters: FindPlansFilters): Promise<Plan[]>;
+
+  /**
+   * Atualizar plano
+   */
+  update(id: string, data: UpdatePlanData): Promise<Plan>;
+
+  /**
+   * Deletar plano
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Contar assinaturas vinculadas ao plano
+   */
+  countSubscriptions(id: string): Promise<number>;
+}
@@ -0,0 +1,79 @@
+import { Plan, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IPlanRepository,
+  CreatePlanData,
+  UpdatePlanData,
+  FindPlansFilters,
+} from '../interfaces/plan-repository.interface';
+
+export class PrismaPlanRepository implements IPlanRepository {
+  async create(data: CreatePlanData): Promise<Plan> {
+    return prisma.plan.create({
+      data: {
+        gymId: data.gymId,
+        name: data.name,
+        description: data.description,
+        durationMonths: data.durationMonths,
+        durationDays: data.durationDays,
+        price: data.price,
+        weeklyCheckInLimit: data.weeklyCheckInLimit,
+        isActive: data.isActive,
+      },
+    });
+  }
+
+  async findById(id: string): Promise<Plan | null> {
+    return prisma.plan.findUnique({
+      where: { id },
+    });
+  }
+
+  async findByNameAndGymId(name: string, gymId: string): Promise<Plan | null> {
+    return prisma.plan.findUnique({
+      where: {
+        gymId_name: {
+          gymId,
+          name,
+        },
+      },
+    });
+  }
+
+  async findMany(filters: FindPlansFilters): Promise<Plan[]> {
+    const where: Prisma.PlanWhereInput = {
+      gymId: filters.gymId,
+    };
+
+    // Filtro por status (ativo/inativo)
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive;
+    }
+
+    return prisma.plan.findMany({
+      where,
+      orderBy: {
+        name: 'asc',
+      },
+    });
+  }
+
+  async update(id: string, data: UpdatePlanData): Promise<Plan> {
+    return prisma.plan.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await prisma.plan.delete({
+      where: { id },
+    });
+  }
+
+  async countSubscriptions(id: string): Promise<number> {
+    return prisma.subscription.count({
+      where: { planId: id },
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { PlanController } from '../controllers/plan.controller';
+import { authenticate } from '@/shared/middlewares/authenticate.middleware';
+import { authorize } from '@/shared/middlewares/authorize.middleware';
+import { Role } from '@prisma/client';
+
+const planRouter = Router();
+const planController = new PlanController();
+
+/**
+ * Todas as rotas requerem autenticação de ADMIN
+ */
+planRouter.use(authenticate, authorize([Role.ADMIN]));
+
+/**
+ * @route POST /api/plans
+ * @desc Criar plano
+ * @access ADMIN
+ */
+planRouter.post('/', planController.create);
+
+/**
+ * @route GET /api/plans
+ * @desc Listar planos da academia
+ * @access ADMIN
+ */
+planRouter.get('/', planController.list);
+
+/**
+ * @route GET /api/plans/:id
+ * @desc Buscar plano por ID
+ * @access ADMIN
+ */
+planRouter.get('/:id', planController.getById);
+
+/**
+ * @route PATCH /api/plans/:id
+ * @desc Atualizar plano
+ * @access ADMIN
+ */
+planRouter.patch('/:id', planController.update);
+
+/**
+ * @route DELETE /api/plans/:id
+ * @desc Deletar plano (apenas sem assinaturas vinculadas)
+ * @access ADMIN
+ */
+planRouter.delete('/:id', planController.delete);
+
+export { planRouter };
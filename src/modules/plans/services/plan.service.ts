@@ -0,0 +1,176 @@
+import { Plan, Role } from '@prisma/client';
+import {
+  IPlanRepository,
+  UpdatePlanData,
+} from '../interfaces/plan-repository.interface';
+import { AppError } from '@/shared/errors/app-error';
+import { addDays, addMonths } from '@/shared/utils/date.util';
+import {
+  CreatePlanDTO,
+  UpdatePlanDTO,
+  ListPlansFiltersDTO,
+} from '../dtos/plan.dto';
+
+/**
+ * Calcula o fim da vigência de um plano a partir da data de início
+ */
+export function calculatePlanEndDate(plan: Plan, startDate: Date): Date {
+  if (plan.durationMonths) {
+    return addMonths(startDate, plan.durationMonths);
+  }
+
+  return addDays(startDate, plan.durationDays ?? 0);
+}
+
+/**
+ * Service de Planos
+ * Catálogo de planos de cada academia
+ */
+export class PlanService {
+  constructor(private planRepository: IPlanRepository) {}
+
+  /**
+   * Criar plano
+   * Permissões: ADMIN
+   */
+  async create(
+    data: CreatePlanDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Plan> {
+    this.ensureAdmin(requestingUserRole);
+
+    const nameExists = await this.planRepository.findByNameAndGymId(
+      data.name,
+      requestingUserGymId
+    );
+
+    if (nameExists) {
+      throw new AppError('Já existe um plano com este nome', 409);
+    }
+
+    return this.planRepository.create({
+      ...data,
+      gymId: requestingUserGymId,
+    });
+  }
+
+  /**
+   * Listar planos da academia
+   * Permissões: ADMIN
+   */
+  async list(
+    filters: ListPlansFiltersDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Plan[]> {
+    this.ensureAdmin(requestingUserRole);
+
+    return this.planRepository.findMany({
+      ...filters,
+      gymId: requestingUserGymId,
+    });
+  }
+
+  /**
+   * Buscar plano por ID
+   * Permissões: ADMIN
+   */
+  async getById(
+    planId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Plan> {
+    this.ensureAdmin(requestingUserRole);
+
+    return this.findPlanInGym(planId, requestingUserGymId);
+  }
+
+  /**
+   * Atualizar plano
+   * Assinaturas existentes não são afetadas (guardam nome e preço)
+   * Permissões: ADMIN
+   */
+  async update(
+    planId: string,
+    data: UpdatePlanDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Plan> {
+    this.ensureAdmin(requestingUserRole);
+
+    const plan = await this.findPlanInGym(planId, requestingUserGymId);
+
+    // Validar nome único (se estiver alterando)
+    if (data.name && data.name !== plan.name) {
+      const nameExists = await this.planRepository.findByNameAndGymId(
+        data.name,
+        requestingUserGymId
+      );
+      if (nameExists) {
+        throw new AppError('Já existe um plano com este nome', 409);
+      }
+    }
+
+    const updateData: UpdatePlanData = { ...data };
+
+    // Trocar a unidade de duração limpa a outra
+    if (data.durationMonths !== undefined) {
+      updateData.durationDays = null;
+    }
+    if (data.durationDays !== undefined) {
+      updateData.durationMonths = null;
+    }
+
+    return this.planRepository.update(planId, updateData);
+  }
+
+  /**
+   * Deletar plano
+   * Planos com assinaturas devem ser desativados em vez de deletados
+   * Permissões: ADMIN
+   */
+  async delete(
+    planId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<void> {
+    this.ensureAdmin(requestingUserRole);
+
+    await this.findPlanInGym(planId, requestingUserGymId);
+
+    const subscriptions = await this.planRepository.countSubscriptions(planId);
+
+    if (subscriptions > 0) {
+      throw new AppError(
+        'Plano possui assinaturas vinculadas. Desative o plano em vez de deletá-lo',
+        409
+      );
+    }
+
+    await this.planRepository.delete(planId);
+  }
+
+  /**
+   * Buscar plano garantindo que pertence à academia
+   */
+  private async findPlanInGym(planId: string, gymId: string): Promise<Plan> {
+    const plan = await this.planRepository.findById(planId);
+
+    if (!plan) {
+      throw new AppError('Plano não encontrado', 404);
+    }
+
+    if (plan.gymId !== gymId) {
+      throw new AppError('Plano de outra academia', 403);
+    }
+
+    return plan;
+  }
+
+  private ensureAdmin(requestingUserRole: Role): void {
+    if (requestingUserRole !== Role.ADMIN) {
+      throw new AppError('Sem permissão para gerenciar planos', 403);
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { Request, Response, NextFunction } from 'express';
+import { SubscriptionService } from '../services/subscription.service';
+import { PrismaSubscriptionRepository } from '../repositories/prisma-subscription.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaPlanRepository } from '@/modules/plans/repositories/prisma-plan.repository';
+import {
+  createSubscriptionSchema,
+  renewSubscriptionSchema,
+  listSubscriptionsFiltersSchema,
+} from '../dtos/subscription.dto';
+import { Role } from '@prisma/client';
+
+/**
+ * Controller de Assinaturas
+ * Gerencia requisições HTTP relacionadas a assinaturas
+ */
+export class SubscriptionController {
+  private subscriptionService: SubscriptionService;
+
+  constructor() {
+    const subscriptionRepository = new PrismaSubscriptionRepository();
+    const userRepository = new PrismaUserRepository();
+    const planRepository = new PrismaPlanRepository();
+    this.subscriptionService = new SubscriptionService(
+      subscriptionRepository,
+      userRepository,
+      planRepository
+    );
+  }
+
+  /**
+   * POST /api/subscriptions
+   * Criar assinatura para um membro
+   * Permissões: ADMIN
+   */
+  create = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = createSubscriptionSchema.parse(req.body);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const subscription = await this.subscriptionService.create(
+        data,
+        userRole,
+        gymId
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Assinatura criada com sucesso',
+        data: { subscription },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/subscriptions
+   * Listar assinaturas da academia (com filtros)
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  list = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const filters = listSubscriptionsFiltersSchema.parse(req.query);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const result = await this.subscriptionService.list(
+        filters,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: result.data,
+        meta: result.meta,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/subscriptions/me
+   * Buscar próprio histórico de assinaturas
+   * Permissões: Qualquer usuário autenticado
+   */
+  getOwnHistory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const history = await this.subscriptionService.getUserHistory(
+        userId,
+        userId,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: { history },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/subscriptions/history/:userId
+   * Buscar histórico de assinaturas de um usuário
+   * Permissões: Próprio usuário ou INSTRUCTOR/ADMIN
+   */
+  getUserHistory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params as { userId: string };
+
+      const requestingUserId = req.userId!;
+      const requestingUserRole = req.userRole as Role;
+      const requestingUserGymId = req.gymId!;
+
+      const history = await this.subscriptionService.getUserHistory(
+        userId,
+        requestingUserId,
+        requestingUserRole,
+        requestingUserGymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: { history },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/subscriptions/:id/renew
+   * Renovar assinatura
+   * Permissões: ADMIN
+   */
+  renew = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const data = renewSubscriptionSchema.parse(req.body);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const subscription = await this.subscriptionService.renew(
+        id,
+        data,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Assinatura renovada com sucesso',
+        data: { subscription },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/subscriptions/:id/cancel
+   * Cancelar assinatura
+   * Permissões: ADMIN
+   */
+  cancel = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const subscription = await this.subscriptionService.cancel(
+        id,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Assinatura cancelada com sucesso',
+        data: { subscription },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
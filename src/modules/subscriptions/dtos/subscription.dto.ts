@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { SubscriptionStatus } from '@prisma/client';
+
+/**
+ * DTO para criar assinatura
+ * (gymId virá do contexto autenticado)
+ */
+export const createSubscriptionSchema = z.object({
+  userId: z.string().uuid('ID de usuário inválido'),
+
+  planId: z.string().uuid('ID de plano inválido'),
+
+  startDate: z
+    .string()
+    .datetime('Data de início inválida')
+    .transform(val => new Date(val))
+    .optional(),
+});
+
+/**
+ * DTO para renovar assinatura
+ */
+export const renewSubscriptionSchema = z.object({
+  // Opcional: troca de plano na renovação (padrão: plano atual)
+  planId: z.string().uuid('ID de plano inválido').optional(),
+});
+
+/**
+ * DTO para filtros de listagem
+ */
+export const listSubscriptionsFiltersSchema = z.object({
+  userId: z.string().uuid('ID de usuário inválido').optional(),
+
+  status: z.nativeEnum(SubscriptionStatus).optional(),
+
+  page: z
+    .string()
+    .default('1')
+    .transform(val => parseInt(val, 10)),
+
+  limit: z
+    .string()
+    .default('20')
+    .transform(val => parseInt(val, 10)),
+});
+
+/**
+ * Tipos inferidos
+ */
+export type CreateSubscriptionDTO = z.infer<typeof createSubscriptionSchema>;
+export type RenewSubscriptionDTO = z.infer<typeof renewSubscriptionSchema>;
+export type ListSubscriptionsFiltersDTO = z.infer<
+  typeof listSubscriptionsFiltersSchema
+>;
@@ -0,0 +1,105 @@
+import { Subscription, SubscriptionStatus, Prisma } from '@prisma/client';
+import { PaginatedResult } from '@/modules/users/interfaces/user-repository.interface';
+import { InstallmentData } from '@/modules/payments/interfaces/payment-repository.interface';
+
+/**
+ * Assinatura com o plano de origem
+ */
+export type SubscriptionWithPlan = Prisma.SubscriptionGetPayload<{
+  include: { plan: true };
+}>;
+
+/**
+ * DTO para criar assinatura
+ * (planName e price são uma cópia do plano no momento da contratação)
+ * As parcelas são criadas junto com a assinatura
+ */
+export interface CreateSubscriptionData {
+  userId: string;
+  gymId: string;
+  planId: string;
+  planName: string;
+  price: Prisma.Decimal | number;
+  startDate: Date;
+  endDate: Date;
+  status?: SubscriptionStatus;
+  installments?: InstallmentData[];
+}
+
+/**
+ * DTO para atualizar assinatura
+ * (installments adiciona novas parcelas, ex: na renovação)
+ */
+export interface UpdateSubscriptionData {
+  planId?: string;
+  planName?: string;
+  price?: Prisma.Decimal | number;
+  endDate?: Date;
+  status?: SubscriptionStatus;
+  installments?: InstallmentData[];
+}
+
+/**
+ * Filtros para buscar assinaturas
+ */
+export interface FindSubscriptionsFilters {
+  gymId: string;
+  userId?: string;
+  status?: SubscriptionStatus;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Interface do Repository de Assinaturas
+ */
+export interface ISubscriptionRepository {
+  /**
+   * Criar assinatura
+   */
+  create(data: CreateSubscriptionData): Promise<Subscription>;
+
+  /**
+   * Buscar assinatura por ID
+   */
+  findById(id: string): Promise<Subscription | null>;
+
+  /**
+   * Buscar assinatura ativa (status ACTIVE e dentro da vigência) do usuário
+   */
+  findActiveByUserAndGym(
+    userId: string,
+    gymId: string
+  ): Promise<SubscriptionWithPlan | null>;
+
+  /**
+   * Buscar assinatura mais recente do usuário (qualquer status)
+   */
+  findLatestByUserAndGym(
+    userId: string,
+    gymId: string
+  ): Promise<Subscription | null>;
+
+  /**
+   * Buscar histórico de assinaturas do usuário (mais recentes primeiro)
+   */
+  findByUser(userId: string): Promise<Subscription[]>;
+
+  /**
+   * Buscar assinaturas com filtros
+   */
+  findManyWithFilters(
+    filters: FindSubscriptionsFilters
+  ): Promise<PaginatedResult<Subscription>>;
+
+  /**
+   * Atualizar assinatura
+   */
+  update(id: string, data: UpdateSubscriptionData): Promise<Subscription>;
+
+  /**
+   * Expirar assinaturas ACTIVE com endDate anterior a `now`
+   * Retorna os IDs das assinaturas alteradas
+   */
+  expireEnded(now: Date): Promise<string[]>;
+}
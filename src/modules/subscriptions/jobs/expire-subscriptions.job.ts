@@ -0,0 +1,21 @@
+import { Job, JobResult } from '@/shared/jobs/interfaces/job.interface';
+import { ISubscriptionRepository } from '../interfaces/subscription-repository.interface';
+
+/**
+ * Job de expiração de assinaturas
+ * Move para EXPIRED as assinaturas ACTIVE cuja endDate já passou
+ */
+export class ExpireSubscriptionsJob implements Job {
+  readonly name = 'expire-subscriptions';
+
+  constructor(private subscriptionRepository: ISubscriptionRepository) {}
+
+  async run(now: Date): Promise<JobResult> {
+    const subscriptionIds = await this.subscriptionRepository.expireEnded(now);
+
+    return {
+      affectedCount: subscriptionIds.length,
+      details: { subscriptionIds },
+    };
+  }
+}
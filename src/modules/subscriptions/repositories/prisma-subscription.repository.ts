@@ -0,0 +1,189 @@
+import { Subscription, SubscriptionStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  ISubscriptionRepository,
+  CreateSubscriptionData,
+  UpdateSubscriptionData,
+  FindSubscriptionsFilters,
+  SubscriptionWithPlan,
+} from '../interfaces/subscription-repository.interface';
+import { PaginatedResult } from '@/modules/users/interfaces/user-repository.interface';
+
+export class PrismaSubscriptionRepository implements ISubscriptionRepository {
+  async create(data: CreateSubscriptionData): Promise<Subscription> {
+    return prisma.subscription.create({
+      data: {
+        userId: data.userId,
+        gymId: data.gymId,
+        planId: data.planId,
+        planName: data.planName,
+        price: data.price,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        status: data.status,
+        payments: data.installments && {
+          create: data.installments,
+        },
+      },
+      include: {
+        payments: {
+          orderBy: { dueDate: 'asc' },
+        },
+      },
+    });
+  }
+
+  async findById(id: string): Promise<Subscription | null> {
+    return prisma.subscription.findUnique({
+      where: { id },
+    });
+  }
+
+  async findActiveByUserAndGym(
+    userId: string,
+    gymId: string
+  ): Promise<SubscriptionWithPlan | null> {
+    return prisma.subscription.findFirst({
+      where: {
+        userId,
+        gymId,
+        status: SubscriptionStatus.ACTIVE,
+        endDate: {
+          gte: new Date(),
+        },
+      },
+      orderBy: {
+        endDate: 'desc',
+      },
+      include: {
+        plan: true,
+      },
+    });
+  }
+
+  async findLatestByUserAndGym(
+    userId: string,
+    gymId: string
+  ): Promise<Subscription | null> {
+    return prisma.subscription.findFirst({
+      where: {
+        userId,
+        gymId,
+      },
+      orderBy: {
+        endDate: 'desc',
+      },
+    });
+  }
+
+  async findByUser(userId: string): Promise<Subscription[]> {
+    return prisma.subscription.findMany({
+      where: { userId },
+      orderBy: {
+        startDate: 'desc',
+      },
+    });
+  }
+
+  async findManyWithFilters(
+    filters: FindSubscriptionsFilters
+  ): Promise<PaginatedResult<Subscription>> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.SubscriptionWhereInput = {
+      gymId: filters.gymId,
+    };
+
+    // Filtro por usuário
+    if (filters.userId) {
+      where.userId = filters.userId;
+    }
+
+    // Filtro por status
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.subscription.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: {
+          createdAt: 'desc',
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+      }),
+      prisma.subscription.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async update(
+    id: string,
+    data: UpdateSubscriptionData
+  ): Promise<Subscription> {
+    const { installments, ...subscriptionData } = data;
+
+    return prisma.subscription.update({
+      where: { id },
+      data: {
+        ...subscriptionData,
+        payments: installments && {
+          create: installments,
+        },
+      },
+      include: {
+        payments: {
+          orderBy: { dueDate: 'asc' },
+        },
+      },
+    });
+  }
+
+  async expireEnded(now: Date): Promise<string[]> {
+    return prisma.$transaction(async tx => {
+      const ended = await tx.subscription.findMany({
+        where: {
+          status: SubscriptionStatus.ACTIVE,
+          endDate: { lt: now },
+        },
+        select: { id: true },
+      });
+
+      const ids = ended.map(subscription => subscription.id);
+
+      if (ids.length > 0) {
+        // Repetir o filtro de status para não sobrescrever alterações concorrentes
+        await tx.subscription.updateMany({
+          where: {
+            id: { in: ids },
+            status: SubscriptionStatus.ACTIVE,
+          },
+          data: { status: SubscriptionStatus.EXPIRED },
+        });
+      }
+
+      return ids;
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import { SubscriptionController } from '../controllers/subscription.controller';
+import { authenticate } from '@/shared/middlewares/authenticate.middleware';
+import { authorize } from '@/shared/middlewares/authorize.middleware';
+import { Role } from '@prisma/client';
+
+const subscriptionRouter = Router();
+const subscriptionController = new SubscriptionController();
+
+/**
+ * Todas as rotas requerem autenticação
+ */
+subscriptionRouter.use(authenticate);
+
+/**
+ * @route POST /api/subscriptions
+ * @desc Criar assinatura para um membro
+ * @access ADMIN
+ */
+subscriptionRouter.post(
+  '/',
+  authorize([Role.ADMIN]),
+  subscriptionController.create
+);
+
+/**
+ * @route GET /api/subscriptions/me
+ * @desc Obter próprio histórico de assinaturas
+ * @access Private (qualquer usuário autenticado)
+ */
+subscriptionRouter.get('/me', subscriptionController.getOwnHistory);
+
+/**
+ * @route GET /api/subscriptions
+ * @desc Listar assinaturas da academia (com filtros)
+ * @access INSTRUCTOR, ADMIN
+ */
+subscriptionRouter.get(
+  '/',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  subscriptionController.list
+);
+
+/**
+ * @route GET /api/subscriptions/history/:userId
+ * @desc Buscar histórico de assinaturas de um usuário
+ * @access Próprio usuário ou INSTRUCTOR/ADMIN
+ */
+subscriptionRouter.get(
+  '/history/:userId',
+  subscriptionController.getUserHistory
+);
+
+/**
+ * @route PATCH /api/subscriptions/:id/renew
+ * @desc Renovar assinatura
+ * @access ADMIN
+ */
+subscriptionRouter.patch(
+  '/:id/renew',
+  authorize([Role.ADMIN]),
+  subscriptionController.renew
+);
+
+/**
+ * @route PATCH /api/subscriptions/:id/cancel
+ * @desc Cancelar assinatura
+ * @access ADMIN
+ */
+subscriptionRouter.patch(
+  '/:id/cancel',
+  authorize([Role.ADMIN]),
+  subscriptionController.cancel
+);
+
+export { subscriptionRouter };
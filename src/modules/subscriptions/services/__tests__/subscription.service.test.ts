@@ -0,0 +1,188 @@
+import 'dotenv/config';
+import { SubscriptionService } from '../subscription.service';
+import { PrismaSubscriptionRepository } from '@/modules/subscriptions/repositories/prisma-subscription.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaPlanRepository } from '@/modules/plans/repositories/prisma-plan.repository';
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { hashPassword } from '@/shared/utils/password.util';
+
+async function testSubscriptionService() {
+  console.log('🧪 Testando Subscription Service...\n');
+
+  const subscriptionRepository = new PrismaSubscriptionRepository();
+  const userRepository = new PrismaUserRepository();
+  const planRepository = new PrismaPlanRepository();
+  const subscriptionService = new SubscriptionService(
+    subscriptionRepository,
+    userRepository,
+    planRepository
+  );
+
+  let testGymId: string | undefined;
+
+  try {
+    // ========================================
+    // SETUP: Criar academia, plano e usuários
+    // ========================================
+    console.log('🏗️  Setup: Criando dados de teste...');
+
+    const gym = await prisma.gym.create({
+      data: {
+        name: 'Academia Subscription Test',
+        slug: `subscription-test-${Date.now()}`,
+        email: `subscription-${Date.now()}@gym.com`,
+      },
+    });
+    testGymId = gym.id;
+
+    const monthlyPlan = await planRepository.create({
+      gymId: gym.id,
+      name: 'Mensal',
+      durationMonths: 1,
+      price: 99.9,
+    });
+
+    const quarterlyPlan = await planRepository.create({
+      gymId: gym.id,
+      name: 'Trimestral',
+      durationMonths: 3,
+      price: 269.9,
+    });
+
+    const passwordHash = await hashPassword('Senha123');
+
+    const admin = await userRepository.create({
+      gymId: gym.id,
+      name: 'Admin Teste',
+      email: `admin-${Date.now()}@test.com`,
+      passwordHash,
+      role: Role.ADMIN,
+    });
+
+    const member = await userRepository.create({
+      gymId: gym.id,
+      name: 'Membro Teste',
+      email: `member-${Date.now()}@test.com`,
+      passwordHash,
+      role: Role.MEMBER,
+    });
+
+    console.log(`   ✅ Academia, planos e usuários criados\n`);
+
+    // ========================================
+    // TESTE 1: Admin criando assinatura
+    // ========================================
+    console.log('1️⃣ Testando admin criar assinatura...');
+    const subscription = await subscriptionService.create(
+      { userId: member.id, planId: monthlyPlan.id },
+      Role.ADMIN,
+      gym.id
+    );
+    console.log(`   Status: ${subscription.status}`);
+    console.log(
+      `   Plano: ${subscription.planName} (R$ ${subscription.price})`
+    );
+    console.log(
+      `   Vigência: ${subscription.startDate.toISOString()} → ${subscription.endDate.toISOString()}`
+    );
+    console.log(`   ✅ Assinatura criada\n`);
+
+    // ========================================
+    // TESTE 2: Assinatura duplicada
+    // ========================================
+    console.log('2️⃣ Testando segunda assinatura ativa...');
+    try {
+      await subscriptionService.create(
+        { userId: member.id, planId: monthlyPlan.id },
+        Role.ADMIN,
+        gym.id
+      );
+      console.log(`   ❌ Assinatura duplicada foi aceita (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ Duplicada rejeitada: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 3: Member tentando criar assinatura
+    // ========================================
+    console.log('3️⃣ Testando member criar assinatura...');
+    try {
+      await subscriptionService.create(
+        { userId: member.id, planId: monthlyPlan.id },
+        Role.MEMBER,
+        gym.id
+      );
+      console.log(`   ❌ Member conseguiu criar (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ Member bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 4: Renovar assinatura
+    // ========================================
+    console.log('4️⃣ Testando renovar assinatura trocando de plano...');
+    const renewed = await subscriptionService.renew(
+      subscription.id,
+      { planId: quarterlyPlan.id },
+      Role.ADMIN,
+      gym.id
+    );
+    console.log(`   Novo plano: ${renewed.planName}`);
+    console.log(`   Novo fim: ${renewed.endDate.toISOString()}`);
+    console.log(`   ✅ Assinatura renovada\n`);
+
+    // ========================================
+    // TESTE 5: Cancelar assinatura
+    // ========================================
+    console.log('5️⃣ Testando cancelar assinatura...');
+    const cancelled = await subscriptionService.cancel(
+      subscription.id,
+      Role.ADMIN,
+      gym.id
+    );
+    console.log(`   Status: ${cancelled.status}`);
+    console.log(`   ✅ Assinatura cancelada\n`);
+
+    // ========================================
+    // TESTE 6: Renovar assinatura cancelada
+    // ========================================
+    console.log('6️⃣ Testando renovar assinatura cancelada...');
+    try {
+      await subscriptionService.renew(subscription.id, {}, Role.ADMIN, gym.id);
+      console.log(`   ❌ Assinatura cancelada foi renovada (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ Renovação rejeitada: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 7: Histórico do membro
+    // ========================================
+    console.log('7️⃣ Testando histórico do membro...');
+    const history = await subscriptionService.getUserHistory(
+      member.id,
+      admin.id,
+      Role.ADMIN,
+      gym.id
+    );
+    console.log(`   Assinaturas no histórico: ${history.length}`);
+    console.log(`   ✅ Histórico obtido\n`);
+
+    console.log('✅ Todos os testes do Subscription Service passaram!\n');
+  } catch (error) {
+    console.error('❌ Erro nos testes:', error);
+  } finally {
+    // ========================================
+    // CLEANUP (cascade remove usuários e assinaturas)
+    // ========================================
+    console.log('🧹 Limpando dados...');
+    if (testGymId) {
+      await prisma.gym.delete({ where: { id: testGymId } }).catch(() => {});
+      console.log('   ✅ Dados limpos');
+    }
+    await prisma.$disconnect();
+    console.log('   ✅ Conexão encerrada\n');
+  }
+}
+
+testSubscriptionService();
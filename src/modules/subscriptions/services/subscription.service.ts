@@ -0,0 +1,276 @@
+import { Plan, Subscription, SubscriptionStatus, Role } from '@prisma/client';
+import { ISubscriptionRepository } from '../interfaces/subscription-repository.interface';
+import { IUserRepository } from '@/modules/users/interfaces/user-repository.interface';
+import { IPlanRepository } from '@/modules/plans/interfaces/plan-repository.interface';
+import { calculatePlanEndDate } from '@/modules/plans/services/plan.service';
+import { buildInstallments } from '@/modules/payments/services/payment.service';
+import { AppError } from '@/shared/errors/app-error';
+import {
+  CreateSubscriptionDTO,
+  RenewSubscriptionDTO,
+  ListSubscriptionsFiltersDTO,
+} from '../dtos/subscription.dto';
+
+/**
+ * Service de Assinaturas
+ * Contém lógica de negócio do ciclo de vida dos planos dos membros
+ */
+export class SubscriptionService {
+  constructor(
+    private subscriptionRepository: ISubscriptionRepository,
+    private userRepository: IUserRepository,
+    private planRepository: IPlanRepository
+  ) {}
+
+  /**
+   * Criar assinatura para um membro
+   * Permissões: ADMIN
+   */
+  async create(
+    data: CreateSubscriptionDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Subscription> {
+    if (requestingUserRole !== Role.ADMIN) {
+      throw new AppError('Sem permissão para criar assinaturas', 403);
+    }
+
+    // 1. Validar membro
+    const user = await this.userRepository.findById(data.userId);
+
+    if (!user) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    if (user.gymId !== requestingUserGymId) {
+      throw new AppError(
+        'Não é possível criar assinaturas para usuários de outra academia',
+        403
+      );
+    }
+
+    if (user.role !== Role.MEMBER) {
+      throw new AppError('Assinaturas só podem ser criadas para membros', 400);
+    }
+
+    if (!user.isActive) {
+      throw new AppError('Usuário inativo', 400);
+    }
+
+    // 2. Não permitir duas assinaturas vigentes ao mesmo tempo
+    const activeSubscription =
+      await this.subscriptionRepository.findActiveByUserAndGym(
+        user.id,
+        requestingUserGymId
+      );
+
+    if (activeSubscription) {
+      throw new AppError(
+        'Usuário já possui uma assinatura ativa. Renove a assinatura atual',
+        409
+      );
+    }
+
+    // 3. Validar plano
+    const plan = await this.findActivePlanInGym(
+      data.planId,
+      requestingUserGymId
+    );
+
+    // 4. Calcular vigência, copiar nome/preço do plano e gerar parcelas
+    const startDate = data.startDate ?? new Date();
+    const endDate = calculatePlanEndDate(plan, startDate);
+
+    return this.subscriptionRepository.create({
+      userId: user.id,
+      gymId: requestingUserGymId,
+      planId: plan.id,
+      planName: plan.name,
+      price: plan.price,
+      startDate,
+      endDate,
+      status: SubscriptionStatus.ACTIVE,
+      installments: buildInstallments(plan, plan.price, startDate),
+    });
+  }
+
+  /**
+   * Renovar assinatura
+   * Estende a vigência a partir do fim atual (ou de hoje, se já venceu)
+   * usando o plano atual ou o plano informado, e gera as parcelas do novo período
+   * Permissões: ADMIN
+   */
+  async renew(
+    subscriptionId: string,
+    data: RenewSubscriptionDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Subscription> {
+    if (requestingUserRole !== Role.ADMIN) {
+      throw new AppError('Sem permissão para renovar assinaturas', 403);
+    }
+
+    const subscription = await this.findSubscriptionInGym(
+      subscriptionId,
+      requestingUserGymId
+    );
+
+    if (subscription.status === SubscriptionStatus.CANCELLED) {
+      throw new AppError(
+        'Assinatura cancelada não pode ser renovada. Crie uma nova assinatura',
+        400
+      );
+    }
+
+    const planId = data.planId ?? subscription.planId;
+
+    if (!planId) {
+      throw new AppError(
+        'Assinatura sem plano vinculado. Informe o plano da renovação',
+        400
+      );
+    }
+
+    const plan = await this.findActivePlanInGym(planId, requestingUserGymId);
+
+    const now = new Date();
+    const baseDate = subscription.endDate > now ? subscription.endDate : now;
+
+    return this.subscriptionRepository.update(subscriptionId, {
+      planId: plan.id,
+      planName: plan.name,
+      price: plan.price,
+      endDate: calculatePlanEndDate(plan, baseDate),
+      status: SubscriptionStatus.ACTIVE,
+      installments: buildInstallments(plan, plan.price, baseDate),
+    });
+  }
+
+  /**
+   * Cancelar assinatura
+   * Permissões: ADMIN
+   */
+  async cancel(
+    subscriptionId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Subscription> {
+    if (requestingUserRole !== Role.ADMIN) {
+      throw new AppError('Sem permissão para cancelar assinaturas', 403);
+    }
+
+    const subscription = await this.findSubscriptionInGym(
+      subscriptionId,
+      requestingUserGymId
+    );
+
+    if (subscription.status === SubscriptionStatus.CANCELLED) {
+      throw new AppError('Assinatura já está cancelada', 400);
+    }
+
+    if (subscription.status === SubscriptionStatus.EXPIRED) {
+      throw new AppError('Assinatura expirada não pode ser cancelada', 400);
+    }
+
+    return this.subscriptionRepository.update(subscriptionId, {
+      status: SubscriptionStatus.CANCELLED,
+    });
+  }
+
+  /**
+   * Listar assinaturas da academia com filtros
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async list(
+    filters: ListSubscriptionsFiltersDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ) {
+    if (requestingUserRole === Role.MEMBER) {
+      throw new AppError('Sem permissão para listar assinaturas', 403);
+    }
+
+    // Forçar filtro por academia
+    return this.subscriptionRepository.findManyWithFilters({
+      ...filters,
+      gymId: requestingUserGymId,
+    });
+  }
+
+  /**
+   * Buscar histórico de assinaturas do usuário
+   * Permissões: Próprio usuário ou INSTRUCTOR/ADMIN
+   */
+  async getUserHistory(
+    userId: string,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<Subscription[]> {
+    // Validar permissão
+    const isSelf = userId === requestingUserId;
+    const hasPermission = isSelf || requestingUserRole !== Role.MEMBER;
+
+    if (!hasPermission) {
+      throw new AppError('Sem permissão para visualizar assinaturas', 403);
+    }
+
+    // Validar que usuário é da mesma academia
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    if (user.gymId !== requestingUserGymId) {
+      throw new AppError('Usuário de outra academia', 403);
+    }
+
+    return this.subscriptionRepository.findByUser(userId);
+  }
+
+  /**
+   * Buscar plano ativo garantindo que pertence à academia
+   */
+  private async findActivePlanInGym(
+    planId: string,
+    gymId: string
+  ): Promise<Plan> {
+    const plan = await this.planRepository.findById(planId);
+
+    if (!plan) {
+      throw new AppError('Plano não encontrado', 404);
+    }
+
+    if (plan.gymId !== gymId) {
+      throw new AppError('Plano de outra academia', 403);
+    }
+
+    if (!plan.isActive) {
+      throw new AppError('Plano inativo não pode ser contratado', 400);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Buscar assinatura garantindo que pertence à academia
+   */
+  private async findSubscriptionInGym(
+    subscriptionId: string,
+    gymId: string
+  ): Promise<Subscription> {
+    const subscription =
+      await this.subscriptionRepository.findById(subscriptionId);
+
+    if (!subscription) {
+      throw new AppError('Assinatura não encontrada', 404);
+    }
+
+    if (subscription.gymId !== gymId) {
+      throw new AppError('Assinatura de outra academia', 403);
+    }
+
+    return subscription;
+  }
+}
@@ -1,10 +1,31 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserService } from '../services/user.service';
 import { PrismaUserRepository } from '../repositories/prisma-user.repository';
+import { UserInvitationService } from '../services/user-invitation.service';
+import { UserImportService } from '../services/user-import.service';
+import {
+  PERSONAL_DATA_SECTIONS,
+  UserPrivacyService,
+} from '../services/user-privacy.service';
+import { PrismaUserInvitationRepository } from '../repositories/prisma-user-invitation.repository';
+import { PrismaUserPrivacyRepository } from '../repositories/prisma-user-privacy.repository';
+import { PrismaAuthSessionRepository } from '@/modules/auth/repositories/prisma-auth-session.repository';
+import { PrismaPasswordResetTokenRepository } from '@/modules/auth/repositories/prisma-password-reset-token.repository';
+import { PrismaGymRepository } from '@/modules/gyms/repositories/prisma-gym.repository';
+import { createMailTransport } from '@/shared/mail/mail-transport.factory';
+import { AppError } from '@/shared/errors/app-error';
+import { createSpreadsheetWriter } from '@/shared/export/spreadsheet-writer.factory';
+import { ZipStreamWriter } from '@/shared/export/zip-stream';
 import {
   updateProfileSchema,
+  changePasswordSchema,
   updateUserSchema,
   listUsersFiltersSchema,
+  createInvitationSchema,
+  acceptInvitationSchema,
+  importUsersQuerySchema,
+  exportUsersQuerySchema,
+  personalDataExportQuerySchema,
 } from '../dtos/user.dto';
 import { Role } from '@prisma/client';
 
@@ -14,10 +35,32 @@ import { Role } from '@prisma/client';
  */
 export class UserController {
   private userService: UserService;
+  private invitationService: UserInvitationService;
+  private importService: UserImportService;
+  private privacyService: UserPrivacyService;
 
   constructor() {
     const userRepository = new PrismaUserRepository();
-    this.userService = new UserService(userRepository);
+    const authSessionRepository = new PrismaAuthSessionRepository();
+    const gymRepository = new PrismaGymRepository();
+    const mailTransport = createMailTransport();
+    this.userService = new UserService(userRepository, authSessionRepository);
+    this.invitationService = new UserInvitationService(
+      new PrismaUserInvitationRepository(),
+      userRepository,
+      gymRepository,
+      mailTransport
+    );
+    this.importService = new UserImportService(
+      userRepository,
+      gymRepository,
+      new PrismaPasswordResetTokenRepository(),
+      mailTransport
+    );
+    this.privacyService = new UserPrivacyService(
+      new PrismaUserPrivacyRepository(),
+      userRepository
+    );
   }
 
   /**
@@ -146,6 +189,34 @@ export class UserController {
     }
   };
 
+  /**
+   * PATCH /api/users/me/password
+   * Troca a própria senha (exige a senha atual)
+   * Permissões: Qualquer usuário autenticado
+   */
+  changeOwnPassword = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = changePasswordSchema.parse(req.body);
+      const userId = req.userId!;
+
+      await this.userService.changeOwnPassword(userId, data, req.sessionId, {
+        userAgent: req.get('user-agent'),
+        ipAddress: req.ip,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Senha alterada com sucesso',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   /**
    * PATCH /api/users/:id
    * Atualiza qualquer usuário (admin apenas)
@@ -303,4 +374,282 @@ export class UserController {
       next(error);
     }
   };
+
+  /**
+   * POST /api/users/invitations
+   * Convida um usuário (envia token de uso único por e-mail)
+   * Permissões: ADMIN
+   */
+  createInvitation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = createInvitationSchema.parse(req.body);
+
+      const invitation = await this.invitationService.createInvitation(
+        data,
+        req.userId!,
+        req.gymId!
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Convite enviado com sucesso',
+        data: { invitation },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/users/invitations
+   * Lista convites pendentes da academia
+   * Permissões: ADMIN
+   */
+  listInvitations = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const invitations = await this.invitationService.listPendingInvitations(
+        req.gymId!
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: invitations,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/users/invitations/:id
+   * Revoga convite pendente
+   * Permissões: ADMIN
+   */
+  revokeInvitation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      await this.invitationService.revokeInvitation(id, req.gymId!);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Convite revogado com sucesso',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/users/invitations/accept
+   * Aceita convite: o convidado define nome e senha
+   * Permissões: Público (token do convite)
+   */
+  acceptInvitation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = acceptInvitationSchema.parse(req.body);
+
+      const user = await this.invitationService.acceptInvitation(data);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Conta criada com sucesso. Faça login para continuar',
+        data: { user },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/users/import
+   * Importa membros a partir de um CSV (corpo text/csv)
+   * Query: dryRun=true valida sem gravar; credentials=invitation|temporary-password
+   * Permissões: ADMIN
+   */
+  importUsers = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const options = importUsersQuerySchema.parse(req.query);
+
+      if (typeof req.body !== 'string' || !req.body.trim()) {
+        throw new AppError(
+          'Envie o arquivo CSV no corpo da requisição (Content-Type: text/csv)',
+          400
+        );
+      }
+
+      const report = await this.importService.importUsers(
+        req.body,
+        options,
+        req.gymId!
+      );
+
+      res.status(options.dryRun ? 200 : 201).json({
+        status: 'success',
+        message: options.dryRun
+          ? 'Validação concluída (nenhum usuário foi criado)'
+          : `${report.createdRows} usuário(s) importado(s)`,
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/users/export
+   * Exporta a lista filtrada de usuários em CSV ou XLSX (streaming)
+   * Query: mesmos filtros da listagem + format=csv|xlsx e includeSensitive=true
+   * Permissões: INSTRUCTOR, ADMIN (dados sensíveis apenas ADMIN)
+   */
+  exportUsers = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const filters = exportUsersQuerySchema.parse(req.query);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      // Valida permissões antes de enviar qualquer byte
+      const { columns, rows } = this.userService.exportUsers(
+        filters,
+        userRole,
+        gymId
+      );
+
+      const writer = createSpreadsheetWriter(filters.format, res, 'Usuários');
+      const date = new Date().toISOString().slice(0, 10);
+
+      res.status(200);
+      res.setHeader('Content-Type', writer.contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="usuarios-${date}.${writer.fileExtension}"`
+      );
+
+      await writer.writeRow(columns);
+      for await (const row of rows) {
+        await writer.writeRow(row);
+      }
+      await writer.end();
+    } catch (error) {
+      // Download já iniciado: não há como responder com JSON
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/users/me/data-export
+   * Exporta todos os dados do próprio usuário (portabilidade - LGPD)
+   * Query: format=json (padrão) ou zip (um arquivo JSON por categoria)
+   * Permissões: Qualquer usuário autenticado
+   */
+  exportOwnData = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { format } = personalDataExportQuerySchema.parse(req.query);
+
+      const data = await this.privacyService.exportPersonalData(req.userId!);
+
+      if (format === 'json') {
+        res.status(200).json({
+          status: 'success',
+          data,
+        });
+        return;
+      }
+
+      const date = data.exportedAt.toISOString().slice(0, 10);
+
+      res.status(200);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="meus-dados-${date}.zip"`
+      );
+
+      const zip = new ZipStreamWriter(res);
+      const files = PERSONAL_DATA_SECTIONS.map(section => `${section}.json`);
+
+      zip.startEntry('manifest.json');
+      await zip.write(
+        JSON.stringify({ exportedAt: data.exportedAt, files }, null, 2)
+      );
+      await zip.endEntry();
+
+      for (const section of PERSONAL_DATA_SECTIONS) {
+        zip.startEntry(`${section}.json`);
+        await zip.write(JSON.stringify(data[section], null, 2));
+        await zip.endEntry();
+      }
+      await zip.finish();
+    } catch (error) {
+      // Download já iniciado: não há como responder com JSON
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/users/:id/anonymize
+   * Anonimiza usuário (LGPD), preservando o histórico financeiro e de frequência
+   * Permissões: ADMIN
+   */
+  anonymizeUser = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const user = await this.privacyService.anonymizeUser(
+        id,
+        req.userId!,
+        req.userRole as Role,
+        req.gymId!
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Usuário anonimizado com sucesso',
+        data: { user },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
 }
\ No newline at end of file
@@ -1,5 +1,10 @@
 import { z } from 'zod';
 import { Role } from '@prisma/client';
+import {
+  cpfSchema,
+  passwordSchema,
+  registerFieldsSchema,
+} from '@/modules/auth/dtos/auth.dto';
 
 /**
  * DTO para atualização de perfil
@@ -27,6 +32,15 @@ export const updateProfileSchema = z.object({
   avatarUrl: z.string().url('URL inválida').optional().or(z.literal('')),
 });
 
+/**
+ * DTO para troca da própria senha
+ */
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Senha atual é obrigatória'),
+
+  newPassword: passwordSchema,
+});
+
 /**
  * DTO para admin atualizar qualquer usuário
  */
@@ -37,11 +51,62 @@ export const updateUserSchema = updateProfileSchema.extend({
 
   isActive: z.boolean().optional(),
 
-  cpf: z
+  cpf: cpfSchema.optional().or(z.literal('')),
+});
+
+/**
+ * DTO para admin convidar um usuário (define o role da conta)
+ */
+export const createInvitationSchema = z.object({
+  email: z.string().email('E-mail inválido').toLowerCase().trim(),
+
+  role: z.nativeEnum(Role, {
+    message: 'Role inválido. Use: ADMIN, INSTRUCTOR ou MEMBER',
+  }),
+});
+
+/**
+ * DTO para o convidado aceitar o convite (define nome e senha)
+ */
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Token é obrigatório'),
+
+  name: z
     .string()
-    .regex(/^\d{11}$/, 'CPF deve conter 11 dígitos')
-    .optional()
-    .or(z.literal('')),
+    .min(3, 'Nome deve ter pelo menos 3 caracteres')
+    .max(100, 'Nome deve ter no máximo 100 caracteres')
+    .trim(),
+
+  password: passwordSchema,
+});
+
+/**
+ * Opções da importação de usuários por CSV
+ * - dryRun: apenas valida e retorna o relatório, sem gravar
+ * - credentials: convite por e-mail para definir a senha, ou senha temporária
+ */
+export const importUsersQuerySchema = z.object({
+  dryRun: z
+    .string()
+    .default('false')
+    .transform(val => val === 'true'),
+
+  credentials: z
+    .enum(['invitation', 'temporary-password'], {
+      message: 'Use credentials=invitation ou credentials=temporary-password',
+    })
+    .default('invitation'),
+});
+
+/**
+ * Linha da importação: mesmas regras do registro público
+ */
+export const importUserRowSchema = registerFieldsSchema.pick({
+  name: true,
+  email: true,
+  cpf: true,
+  phone: true,
+  birthDate: true,
 });
 
 /**
@@ -64,9 +129,44 @@ export const listUsersFiltersSchema = z.object({
     .default('10'),
 });
 
+/**
+ * DTO para exportação: mesmos filtros da listagem, sem paginação
+ * includeSensitive (apenas ADMIN) inclui CPF e data de nascimento
+ */
+export const exportUsersQuerySchema = listUsersFiltersSchema
+  .omit({ page: true, limit: true })
+  .extend({
+    format: z
+      .enum(['csv', 'xlsx'], { message: 'Formato inválido. Use csv ou xlsx' })
+      .default('csv'),
+
+    includeSensitive: z
+      .string()
+      .default('false')
+      .transform(val => val === 'true'),
+  });
+
+/**
+ * DTO para exportação dos próprios dados (LGPD)
+ */
+export const personalDataExportQuerySchema = z.object({
+  format: z
+    .enum(['json', 'zip'], { message: 'Formato inválido. Use json ou zip' })
+    .default('json'),
+});
+
 /**
  * Tipos inferidos
  */
 export type UpdateProfileDTO = z.infer<typeof updateProfileSchema>;
+export type ChangePasswordDTO = z.infer<typeof changePasswordSchema>;
 export type UpdateUserDTO = z.infer<typeof updateUserSchema>;
-export type ListUsersFiltersDTO = z.infer<typeof listUsersFiltersSchema>;
\ No newline at end of file
+export type ListUsersFiltersDTO = z.infer<typeof listUsersFiltersSchema>;
+export type CreateInvitationDTO = z.infer<typeof createInvitationSchema>;
+export type AcceptInvitationDTO = z.infer<typeof acceptInvitationSchema>;
+export type ImportUsersQueryDTO = z.infer<typeof importUsersQuerySchema>;
+export type ImportUserRowDTO = z.infer<typeof importUserRowSchema>;
+export type ExportUsersQueryDTO = z.infer<typeof exportUsersQuerySchema>;
+export type PersonalDataExportQueryDTO = z.infer<
+  typeof personalDataExportQuerySchema
+>;
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { Role, User, UserInvitation } from '@prisma/client';
+import { CreateUserData } from './user-repository.interface';
+
+/**
+ * DTO para registrar convite (apenas o hash do token é persistido)
+ */
+export interface CreateUserInvitationData {
+  gymId: string;
+  email: string;
+  role: Role;
+  tokenHash: string;
+  invitedById: string;
+  expiresAt: Date;
+}
+
+/**
+ * Interface do Repository de Convites de Usuários
+ */
+export interface IUserInvitationRepository {
+  /**
+   * Registrar convite
+   */
+  create(data: CreateUserInvitationData): Promise<UserInvitation>;
+
+  /**
+   * Buscar convite por ID
+   */
+  findById(id: string): Promise<UserInvitation | null>;
+
+  /**
+   * Buscar convite pelo hash do token
+   */
+  findByTokenHash(tokenHash: string): Promise<UserInvitation | null>;
+
+  /**
+   * Listar convites pendentes (não aceitos, não revogados e não expirados)
+   */
+  findPendingByGym(gymId: string, now?: Date): Promise<UserInvitation[]>;
+
+  /**
+   * Marcar convite como aceito e criar o usuário na mesma transação
+   * Retorna null se o convite já tiver sido aceito ou revogado (uso único);
+   * se a criação falhar, o convite continua disponível
+   */
+  accept(id: string, user: CreateUserData): Promise<User | null>;
+
+  /**
+   * Revogar convite
+   * Retorna false se o convite já tiver sido aceito ou revogado
+   */
+  revoke(id: string): Promise<boolean>;
+
+  /**
+   * Revogar convites em aberto para o e-mail na academia
+   */
+  revokePendingByEmail(gymId: string, email: string): Promise<void>;
+}
@@ -0,0 +1,58 @@
+import {
+  AuthSession,
+  CheckIn,
+  Gym,
+  PasswordChange,
+  Payment,
+  Subscription,
+  User,
+  Workout,
+  WorkoutExercise,
+  WorkoutSession,
+  WorkoutSetLog,
+} from '@prisma/client';
+
+/**
+ * Todos os dados pessoais ligados a um usuário (portabilidade - LGPD)
+ */
+export interface UserPersonalData {
+  user: User;
+  gym: Pick<Gym, 'id' | 'name' | 'slug'>;
+  checkIns: CheckIn[];
+  subscriptions: (Subscription & { payments: Payment[] })[];
+  workouts: (Workout & { exercises: WorkoutExercise[] })[];
+  workoutSessions: (WorkoutSession & { sets: WorkoutSetLog[] })[];
+  authSessions: AuthSession[];
+  passwordChanges: PasswordChange[];
+}
+
+/**
+ * DTO para anonimizar usuário (dados que substituem os pessoais)
+ */
+export interface AnonymizeUserData {
+  name: string;
+  email: string;
+  passwordHash: string;
+  // Convites da academia para o e-mail original também são removidos
+  gymId: string;
+  originalEmail: string;
+  // Chave de falhas de login do e-mail original (contém o e-mail)
+  loginThrottleKey: string;
+}
+
+/**
+ * Interface do Repository de Privacidade (LGPD)
+ */
+export interface IUserPrivacyRepository {
+  /**
+   * Reunir os dados pessoais do usuário
+   */
+  findPersonalData(userId: string): Promise<UserPersonalData | null>;
+
+  /**
+   * Anonimizar usuário em uma transação
+   * Remove dados pessoais, sessões e tokens; mantém check-ins,
+   * assinaturas, pagamentos e treinos (agregados financeiros e de frequência)
+   */
+  anonymize(userId: string, data: AnonymizeUserData): Promise<User>;
+}
@@ -1,4 +1,4 @@
-import { User, Role } from '@prisma/client';
+import { User, Role, PasswordChangeReason } from '@prisma/client';
 
 export interface CreateUserData {
   gymId: string;
@@ -9,6 +9,7 @@ export interface CreateUserData {
   cpf?: string;
   phone?: string;
   birthDate?: Date;
+  emailVerifiedAt?: Date;
 }
 
 export interface UpdateUserData {
@@ -21,6 +22,20 @@ export interface UpdateUserData {
   birthDate?: Date;
   avatarUrl?: string;
   isActive?: boolean;
+  emailVerifiedAt?: Date | null;
+  twoFactorSecret?: string | null;
+  twoFactorEnabledAt?: Date | null;
+  twoFactorLastStep?: number | null;
+}
+
+/**
+ * Dados da troca de senha (registrada no histórico de alterações)
+ */
+export interface UpdatePasswordData {
+  passwordHash: string;
+  reason: PasswordChangeReason;
+  ipAddress?: string;
+  userAgent?: string;
 }
 
 /**
@@ -48,8 +63,36 @@ export interface PaginatedResult<T> {
   };
 }
 
+/**
+ * Filtros da listagem sem paginação (exportação)
+ */
+export type UserFilters = Omit<FindManyUsersFilters, 'page' | 'limit'>;
+
+/**
+ * Campos do usuário usados na exportação (sem dados de autenticação)
+ */
+export type ExportableUser = Pick<
+  User,
+  | 'id'
+  | 'name'
+  | 'email'
+  | 'role'
+  | 'cpf'
+  | 'phone'
+  | 'birthDate'
+  | 'isActive'
+  | 'emailVerifiedAt'
+  | 'createdAt'
+>;
+
 export interface IUserRepository {
   create(data: CreateUserData): Promise<User>;
+
+  /**
+   * Criar vários usuários em uma única transação (tudo ou nada)
+   */
+  createMany(data: CreateUserData[]): Promise<User[]>;
+
   findById(id: string): Promise<User | null>;
   findByEmailAndGymId(email: string, gymId: string): Promise<User | null>;
   findByCpf(cpf: string): Promise<User | null>;
@@ -60,8 +103,24 @@ export interface IUserRepository {
    * Busca paginada com filtros
    */
   findManyWithFilters(filters: FindManyUsersFilters): Promise<PaginatedResult<User>>;
+
+  /**
+   * Busca um lote com os mesmos filtros da listagem, paginando por cursor
+   * (usado para percorrer todos os resultados sem carregá-los de uma vez)
+   */
+  findBatchWithFilters(
+    filters: UserFilters,
+    take: number,
+    cursor?: string
+  ): Promise<ExportableUser[]>;
   
   update(id: string, data: UpdateUserData): Promise<User>;
+
+  /**
+   * Trocar senha registrando a alteração no histórico
+   */
+  updatePassword(id: string, data: UpdatePasswordData): Promise<User>;
+
   softDelete(id: string): Promise<User>;
   
   /**
@@ -0,0 +1,76 @@
+import { User, UserInvitation } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IUserInvitationRepository,
+  CreateUserInvitationData,
+} from '../interfaces/user-invitation-repository.interface';
+import { CreateUserData } from '../interfaces/user-repository.interface';
+
+export class PrismaUserInvitationRepository implements IUserInvitationRepository {
+  async create(data: CreateUserInvitationData): Promise<UserInvitation> {
+    return prisma.userInvitation.create({
+      data,
+    });
+  }
+
+  async findById(id: string): Promise<UserInvitation | null> {
+    return prisma.userInvitation.findUnique({
+      where: { id },
+    });
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<UserInvitation | null> {
+    return prisma.userInvitation.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  async findPendingByGym(
+    gymId: string,
+    now: Date = new Date()
+  ): Promise<UserInvitation[]> {
+    return prisma.userInvitation.findMany({
+      where: {
+        gymId,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: now },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async accept(id: string, user: CreateUserData): Promise<User | null> {
+    return prisma.$transaction(async tx => {
+      // Filtro por acceptedAt/revokedAt garante uso único mesmo com requisições simultâneas
+      const { count } = await tx.userInvitation.updateMany({
+        where: { id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      return tx.user.create({
+        data: user,
+      });
+    });
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    const { count } = await prisma.userInvitation.updateMany({
+      where: { id, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  async revokePendingByEmail(gymId: string, email: string): Promise<void> {
+    await prisma.userInvitation.updateMany({
+      where: { gymId, email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+}
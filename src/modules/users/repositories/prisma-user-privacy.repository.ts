@@ -0,0 +1,115 @@
+import { User } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IUserPrivacyRepository,
+  UserPersonalData,
+  AnonymizeUserData,
+} from '../interfaces/user-privacy-repository.interface';
+
+export class PrismaUserPrivacyRepository implements IUserPrivacyRepository {
+  async findPersonalData(userId: string): Promise<UserPersonalData | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        gym: { select: { id: true, name: true, slug: true } },
+      },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    const [
+      checkIns,
+      subscriptions,
+      workouts,
+      workoutSessions,
+      authSessions,
+      passwordChanges,
+    ] = await Promise.all([
+      prisma.checkIn.findMany({
+        where: { userId },
+        orderBy: { checkedInAt: 'desc' },
+      }),
+      prisma.subscription.findMany({
+        where: { userId },
+        include: { payments: { orderBy: { dueDate: 'desc' } } },
+        orderBy: { startDate: 'desc' },
+      }),
+      prisma.workout.findMany({
+        where: { memberId: userId },
+        include: { exercises: { orderBy: { order: 'asc' } } },
+        orderBy: { startDate: 'desc' },
+      }),
+      prisma.workoutSession.findMany({
+        where: { memberId: userId },
+        include: { sets: { orderBy: { setNumber: 'asc' } } },
+        orderBy: { startedAt: 'desc' },
+      }),
+      prisma.authSession.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.passwordChange.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    const { gym, ...userData } = user;
+
+    return {
+      user: userData,
+      gym,
+      checkIns,
+      subscriptions,
+      workouts,
+      workoutSessions,
+      authSessions,
+      passwordChanges,
+    };
+  }
+
+  async anonymize(userId: string, data: AnonymizeUserData): Promise<User> {
+    const [user] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          name: data.name,
+          email: data.email,
+          passwordHash: data.passwordHash,
+          cpf: null,
+          phone: null,
+          birthDate: null,
+          avatarUrl: null,
+          isActive: false,
+          emailVerifiedAt: null,
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastStep: null,
+          anonymizedAt: new Date(),
+        },
+      }),
+      // Sessões (e refresh tokens em cascata) guardam IP e navegador
+      prisma.authSession.deleteMany({ where: { userId } }),
+      prisma.refreshToken.deleteMany({ where: { userId } }),
+      prisma.passwordChange.deleteMany({ where: { userId } }),
+      prisma.passwordResetToken.deleteMany({ where: { userId } }),
+      prisma.emailVerificationToken.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.loginAttempt.deleteMany({ where: { key: data.loginThrottleKey } }),
+      prisma.loginLockout.deleteMany({ where: { key: data.loginThrottleKey } }),
+      // Convites (pendentes ou aceitos) guardam o e-mail original
+      prisma.userInvitation.deleteMany({
+        where: { gymId: data.gymId, email: data.originalEmail },
+      }),
+      // Anotações livres do aluno podem conter dados pessoais
+      prisma.workoutSession.updateMany({
+        where: { memberId: userId },
+        data: { notes: null },
+      }),
+    ]);
+
+    return user;
+  }
+}
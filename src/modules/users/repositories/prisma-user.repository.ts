@@ -4,8 +4,11 @@ import {
   IUserRepository,
   CreateUserData,
   UpdateUserData,
+  UpdatePasswordData,
   FindManyUsersFilters,
   PaginatedResult,
+  UserFilters,
+  ExportableUser,
 } from '../interfaces/user-repository.interface';
 
 export class PrismaUserRepository implements IUserRepository {
@@ -20,10 +23,31 @@ export class PrismaUserRepository implements IUserRepository {
         cpf: data.cpf,
         phone: data.phone,
         birthDate: data.birthDate,
+        emailVerifiedAt: data.emailVerifiedAt,
       },
     });
   }
 
+  async createMany(data: CreateUserData[]): Promise<User[]> {
+    return prisma.$transaction(
+      data.map(user =>
+        prisma.user.create({
+          data: {
+            gymId: user.gymId,
+            name: user.name,
+            email: user.email,
+            passwordHash: user.passwordHash,
+            role: user.role,
+            cpf: user.cpf,
+            phone: user.phone,
+            birthDate: user.birthDate,
+            emailVerifiedAt: user.emailVerifiedAt,
+          },
+        })
+      )
+    );
+  }
+
   async findById(id: string): Promise<User | null> {
     return prisma.user.findUnique({
       where: { id },
@@ -85,28 +109,7 @@ export class PrismaUserRepository implements IUserRepository {
     const limit = filters.limit || 10;
     const skip = (page - 1) * limit;
 
-    // Construir condições de filtro
-    const where: Prisma.UserWhereInput = {
-      gymId: filters.gymId,
-    };
-
-    // Filtro por role
-    if (filters.role) {
-      where.role = filters.role;
-    }
-
-    // Filtro por status (ativo/inativo)
-    if (filters.isActive !== undefined) {
-      where.isActive = filters.isActive;
-    }
-
-    // Busca por nome ou email
-    if (filters.search) {
-      where.OR = [
-        { name: { contains: filters.search, mode: 'insensitive' } },
-        { email: { contains: filters.search, mode: 'insensitive' } },
-      ];
-    }
+    const where = this.buildFiltersWhere(filters);
 
     // Executar queries em paralelo
     const [data, total] = await Promise.all([
@@ -147,6 +150,32 @@ export class PrismaUserRepository implements IUserRepository {
     };
   }
 
+  async findBatchWithFilters(
+    filters: UserFilters,
+    take: number,
+    cursor?: string
+  ): Promise<ExportableUser[]> {
+    return prisma.user.findMany({
+      where: this.buildFiltersWhere(filters),
+      take,
+      // Cursor exclusivo: o lote começa depois do último usuário retornado
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        cpf: true,
+        phone: true,
+        birthDate: true,
+        isActive: true,
+        emailVerifiedAt: true,
+        createdAt: true,
+      },
+    });
+  }
+
   async update(id: string, data: UpdateUserData): Promise<User> {
     return prisma.user.update({
       where: { id },
@@ -154,6 +183,21 @@ export class PrismaUserRepository implements IUserRepository {
     });
   }
 
+  async updatePassword(id: string, data: UpdatePasswordData): Promise<User> {
+    const { passwordHash, ...change } = data;
+
+    return prisma.user.update({
+      where: { id },
+      data: {
+        passwordHash,
+        passwordChangedAt: new Date(),
+        passwordChanges: {
+          create: change,
+        },
+      },
+    });
+  }
+
   async softDelete(id: string): Promise<User> {
     return prisma.user.update({
       where: { id },
@@ -212,4 +256,33 @@ export class PrismaUserRepository implements IUserRepository {
       },
     });
   }
+
+  /**
+   * Condições de filtro da listagem (academia, role, status e busca)
+   */
+  private buildFiltersWhere(filters: UserFilters): Prisma.UserWhereInput {
+    const where: Prisma.UserWhereInput = {
+      gymId: filters.gymId,
+    };
+
+    // Filtro por role
+    if (filters.role) {
+      where.role = filters.role;
+    }
+
+    // Filtro por status (ativo/inativo)
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive;
+    }
+
+    // Busca por nome ou email
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { email: { contains: filters.search, mode: 'insensitive' } },
+      ];
+    }
+
+    return where;
+  }
 }
\ No newline at end of file
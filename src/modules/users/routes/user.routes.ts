@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { UserController } from '../controllers/user.controller';
 import { authenticate } from '@/shared/middlewares/authenticate.middleware';
 import { authorize } from '@/shared/middlewares/authorize.middleware';
@@ -8,7 +8,14 @@ const userRouter = Router();
 const userController = new UserController();
 
 /**
- * Todas as rotas requerem autenticação
+ * @route POST /api/users/invitations/accept
+ * @desc Aceitar convite (cria a conta com o role do convite)
+ * @access Public (token do convite)
+ */
+userRouter.post('/invitations/accept', userController.acceptInvitation);
+
+/**
+ * Demais rotas requerem autenticação
  */
 userRouter.use(authenticate);
 
@@ -37,6 +44,76 @@ userRouter.get('/me', userController.getOwnProfile);
  */
 userRouter.patch('/me', userController.updateOwnProfile);
 
+/**
+ * @route PATCH /api/users/me/password
+ * @desc Trocar a própria senha (exige a senha atual)
+ * @access Private (qualquer usuário autenticado)
+ */
+userRouter.patch('/me/password', userController.changeOwnPassword);
+
+/**
+ * @route GET /api/users/me/data-export
+ * @desc Exportar todos os próprios dados (LGPD) em JSON ou ZIP
+ * @access Private (qualquer usuário autenticado)
+ */
+userRouter.get('/me/data-export', userController.exportOwnData);
+
+/**
+ * @route POST /api/users/invitations
+ * @desc Convidar usuário (e-mail e role)
+ * @access ADMIN
+ */
+userRouter.post(
+  '/invitations',
+  authorize([Role.ADMIN]),
+  userController.createInvitation
+);
+
+/**
+ * @route GET /api/users/invitations
+ * @desc Listar convites pendentes
+ * @access ADMIN
+ */
+userRouter.get(
+  '/invitations',
+  authorize([Role.ADMIN]),
+  userController.listInvitations
+);
+
+/**
+ * @route DELETE /api/users/invitations/:id
+ * @desc Revogar convite pendente
+ * @access ADMIN
+ */
+userRouter.delete(
+  '/invitations/:id',
+  authorize([Role.ADMIN]),
+  userController.revokeInvitation
+);
+
+/**
+ * @route POST /api/users/import
+ * @desc Importar membros por CSV (?dryRun=true apenas valida)
+ * @access ADMIN
+ */
+userRouter.post(
+  '/import',
+  authorize([Role.ADMIN]),
+  express.text({ type: ['text/csv', 'text/plain'], limit: '2mb' }),
+  userController.importUsers
+);
+
+/**
+ * @route GET /api/users/export
+ * @desc Exportar usuários filtrados em CSV ou XLSX
+ * @access INSTRUCTOR, ADMIN (CPF e data de nascimento apenas ADMIN)
+ */
+userRouter.get(
+  '/export',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  userController.exportUsers
+);
+
 /**
  * @route GET /api/users
  * @desc Listar usuários (com filtros e paginação)
@@ -88,11 +165,23 @@ userRouter.post(
   userController.reactivateUser
 );
 
+/**
+ * @route POST /api/users/:id/anonymize
+ * @desc Anonimizar usuário (LGPD), mantendo check-ins, assinaturas e pagamentos
+ * @access ADMIN
+ */
+userRouter.post(
+  '/:id/anonymize',
+  authorize([Role.ADMIN]),
+  userController.anonymizeUser
+);
+
 /**
  * @route DELETE /api/users/:id
  * @desc Deletar usuário permanentemente
  * @access ADMIN
- * @warning Usar com extremo cuidado!
+ * @warning Usar com extremo cuidado! Apaga também todo o histórico
+ *          (para atender pedidos de eliminação, prefira /anonymize)
  */
 userRouter.delete(
   '/:id',
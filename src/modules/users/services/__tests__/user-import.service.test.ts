@@ -0,0 +1,264 @@
+import 'dotenv/config';
+import { UserImportService } from '../user-import.service';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaGymRepository } from '@/modules/gyms/repositories/prisma-gym.repository';
+import { PrismaPasswordResetTokenRepository } from '@/modules/auth/repositories/prisma-password-reset-token.repository';
+import { PrismaRefreshTokenRepository } from '@/modules/auth/repositories/prisma-refresh-token.repository';
+import { PrismaAuthSessionRepository } from '@/modules/auth/repositories/prisma-auth-session.repository';
+import { PrismaEmailVerificationTokenRepository } from '@/modules/auth/repositories/prisma-email-verification-token.repository';
+import { PrismaTwoFactorRecoveryCodeRepository } from '@/modules/auth/repositories/prisma-two-factor-recovery-code.repository';
+import { InMemoryLoginAttemptStore } from '@/modules/auth/repositories/in-memory-login-attempt.store';
+import { AuthService } from '@/modules/auth/services/auth.service';
+import { LoginThrottleService } from '@/modules/auth/services/login-throttle.service';
+import { TwoFactorService } from '@/modules/auth/services/two-factor.service';
+import { MailMessage } from '@/shared/mail/interfaces/mail-transport.interface';
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { comparePassword, hashPassword } from '@/shared/utils/password.util';
+import { isValidCpf } from '@/shared/utils/document.util';
+
+async function testUserImportService() {
+  console.log('🧪 Testando User Import Service...\n');
+
+  // Transporte em memória para capturar os e-mails enviados
+  const sentMails: MailMessage[] = [];
+  const mailTransport = {
+    send: async (message: MailMessage) => {
+      sentMails.push(message);
+    },
+  };
+
+  const userRepository = new PrismaUserRepository();
+  const importService = new UserImportService(
+    userRepository,
+    new PrismaGymRepository(),
+    new PrismaPasswordResetTokenRepository(),
+    mailTransport
+  );
+  const authService = new AuthService(
+    userRepository,
+    new PrismaGymRepository(),
+    new PrismaRefreshTokenRepository(),
+    new PrismaAuthSessionRepository(),
+    new PrismaPasswordResetTokenRepository(),
+    new PrismaEmailVerificationTokenRepository(),
+    mailTransport,
+    new LoginThrottleService(new InMemoryLoginAttemptStore()),
+    new TwoFactorService(
+      userRepository,
+      new PrismaGymRepository(),
+      new PrismaTwoFactorRecoveryCodeRepository()
+    )
+  );
+
+  let testGymId: string | undefined;
+
+  try {
+    // ========================================
+    // SETUP: Criar academia e membro existente
+    // ========================================
+    console.log('🏗️  Setup: Criando dados de teste...');
+
+    const gym = await prisma.gym.create({
+      data: {
+        name: 'Academia Importação Test',
+        slug: `import-test-${Date.now()}`,
+        email: `import-${Date.now()}@gym.com`,
+      },
+    });
+    testGymId = gym.id;
+
+    const suffix = Date.now();
+    const existing = await userRepository.create({
+      gymId: testGymId,
+      name: 'Membro Existente',
+      email: `existente-${suffix}@test.com`,
+      passwordHash: await hashPassword('Senha123'),
+      role: Role.MEMBER,
+    });
+
+    // CPF válido e único por execução (dígitos verificadores por tentativa)
+    const cpf = (offset: number) => {
+      const base = `${100000000 + ((suffix + offset) % 900000000)}`;
+      const checkDigits = Array.from({ length: 100 }, (_, i) =>
+        `${i}`.padStart(2, '0')
+      );
+      return base + checkDigits.find(digits => isValidCpf(base + digits));
+    };
+    const maskedCpf = cpf(1).replace(
+      /(\d{3})(\d{3})(\d{3})(\d{2})/,
+      '$1.$2.$3-$4'
+    );
+
+    const csv = [
+      'Nome;E-mail;CPF;Telefone;Data de Nascimento',
+      `Ana Souza;ana-${suffix}@test.com;${maskedCpf};(11) 98765-4321;20/05/1990`,
+      `Bruno Lima;BRUNO-${suffix}@test.com;;;1985-12-01`,
+      `Jo;curto-${suffix}@test.com;;;`,
+      `Carla Dias;nao-e-email;;;`,
+      `Ana Repetida;ana-${suffix}@test.com;;;`,
+      `Membro Existente;${existing.email};;;`,
+      `Daniel Rocha;daniel-${suffix}@test.com;${cpf(1)};;`,
+    ].join('\n');
+
+    console.log(`   ✅ Academia e membro criados\n`);
+
+    // ========================================
+    // TESTE 1: Dry run não grava nada
+    // ========================================
+    console.log('1️⃣ Testando importação em modo dry run...');
+    const dryRun = await importService.importUsers(
+      csv,
+      { dryRun: true, credentials: 'invitation' },
+      testGymId
+    );
+    const usersAfterDryRun = await prisma.user.count({
+      where: { gymId: testGymId },
+    });
+    console.log(
+      `   ${dryRun.totalRows === 7 && dryRun.validRows === 2 ? '✅' : '❌'} ${dryRun.validRows} de ${dryRun.totalRows} linhas válidas`
+    );
+    dryRun.errors.forEach(error =>
+      console.log(`   Linha ${error.row}: ${error.errors.join('; ')}`)
+    );
+    console.log(
+      `   ${usersAfterDryRun === 1 && sentMails.length === 0 ? '✅' : '❌'} Nenhum usuário criado\n`
+    );
+
+    // ========================================
+    // TESTE 2: Importação com convite por e-mail
+    // ========================================
+    console.log('2️⃣ Testando importação com convite...');
+    const imported = await importService.importUsers(
+      csv,
+      { dryRun: false, credentials: 'invitation' },
+      testGymId
+    );
+    const ana = await userRepository.findByEmailAndGymId(
+      `ana-${suffix}@test.com`,
+      testGymId
+    );
+    console.log(
+      `   ${imported.createdRows === 2 ? '✅' : '❌'} Usuários criados: ${imported.createdRows}`
+    );
+    console.log(
+      `   ${ana?.role === Role.MEMBER && ana.phone === '11987654321' ? '✅' : '❌'} Role e telefone sem máscara: ${ana?.role}, ${ana?.phone}`
+    );
+    console.log(
+      `   ${ana?.cpf === cpf(1) ? '✅' : '❌'} CPF sem máscara: ${ana?.cpf}`
+    );
+    console.log(
+      `   ${ana?.birthDate?.toISOString().startsWith('1990-05-20') ? '✅' : '❌'} Data de nascimento: ${ana?.birthDate?.toISOString()}`
+    );
+    console.log(
+      `   ${sentMails.length === 2 && sentMails[0].text.includes('reset-password?token=') ? '✅' : '❌'} Convites enviados: ${sentMails.length}\n`
+    );
+
+    // ========================================
+    // TESTE 3: Senha temporária
+    // ========================================
+    console.log('3️⃣ Testando importação com senha temporária...');
+    const withPassword = await importService.importUsers(
+      `name,email\nEduarda Melo,eduarda-${suffix}@test.com\n`,
+      { dryRun: false, credentials: 'temporary-password' },
+      testGymId
+    );
+    const [created] = withPassword.created;
+    const eduarda = await userRepository.findById(created.userId);
+    const passwordWorks = await comparePassword(
+      created.temporaryPassword!,
+      eduarda!.passwordHash
+    );
+    console.log(
+      `   ${passwordWorks ? '✅' : '❌'} Senha temporária válida para login\n`
+    );
+
+    // ========================================
+    // TESTE 4: CSV sem colunas obrigatórias
+    // ========================================
+    console.log('4️⃣ Testando CSV sem coluna de e-mail...');
+    try {
+      await importService.importUsers(
+        'nome;telefone\nFulano;11987654321',
+        { dryRun: true, credentials: 'invitation' },
+        testGymId
+      );
+      console.log(`   ❌ CSV sem e-mail foi aceito (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ CSV rejeitado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 5: Falha no envio do convite
+    // ========================================
+    console.log('5️⃣ Testando falha no envio do convite...');
+    const failingImportService = new UserImportService(
+      userRepository,
+      new PrismaGymRepository(),
+      new PrismaPasswordResetTokenRepository(),
+      {
+        send: async () => {
+          throw new Error('SMTP indisponível');
+        },
+      }
+    );
+    const withoutMail = await failingImportService.importUsers(
+      `name,email\nFabio Nunes,fabio-${suffix}@test.com\n`,
+      { dryRun: false, credentials: 'invitation' },
+      testGymId
+    );
+    const [fabio] = withoutMail.created;
+    console.log(
+      `   ${withoutMail.createdRows === 1 && fabio?.invitationSent === false ? '✅' : '❌'} Usuário criado sem convite`
+    );
+    console.log(
+      `   ${withoutMail.errors[0]?.errors[0] === 'Usuário criado, mas o convite não foi enviado' ? '✅' : '❌'} Falha reportada: ${withoutMail.errors[0]?.errors.join('; ')}\n`
+    );
+
+    // ========================================
+    // TESTE 6: Convite → definir senha → login (sem login não verificado)
+    // ========================================
+    console.log('6️⃣ Testando primeiro acesso do membro importado...');
+    await prisma.gym.update({
+      where: { id: testGymId },
+      data: { allowUnverifiedLogin: false },
+    });
+    await importService.importUsers(
+      `name,email\nGabriela Reis,gabriela-${suffix}@test.com\n`,
+      { dryRun: false, credentials: 'invitation' },
+      testGymId
+    );
+    const [, token] =
+      sentMails[sentMails.length - 1].text.match(/token=([a-f0-9]+)/)!;
+    await authService.resetPassword({ token, password: 'NovaSenha123' });
+    try {
+      const firstLogin = await authService.login({
+        email: `gabriela-${suffix}@test.com`,
+        password: 'NovaSenha123',
+        gymId: testGymId,
+      });
+      console.log(
+        `   ${'accessToken' in firstLogin ? '✅' : '❌'} Login após definir a senha pelo convite\n`
+      );
+    } catch (error: any) {
+      console.log(`   ❌ Login bloqueado: ${error.message} (BUG!)\n`);
+    }
+
+    console.log('✅ Todos os testes do User Import Service passaram!\n');
+  } catch (error) {
+    console.error('❌ Erro nos testes:', error);
+  } finally {
+    // ========================================
+    // CLEANUP
+    // ========================================
+    console.log('🧹 Limpando dados...');
+    if (testGymId) {
+      // Usuários e tokens são removidos em cascata
+      await prisma.gym.delete({ where: { id: testGymId } }).catch(() => {});
+    }
+    await prisma.$disconnect();
+    console.log('   ✅ Conexão encerrada\n');
+  }
+}
+
+testUserImportService();
@@ -0,0 +1,254 @@
+import 'dotenv/config';
+import { UserInvitationService } from '../user-invitation.service';
+import { PrismaUserInvitationRepository } from '@/modules/users/repositories/prisma-user-invitation.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaGymRepository } from '@/modules/gyms/repositories/prisma-gym.repository';
+import { MailMessage } from '@/shared/mail/interfaces/mail-transport.interface';
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { hashPassword } from '@/shared/utils/password.util';
+
+/**
+ * Extrai o token do link enviado no e-mail de convite
+ */
+function extractToken(message: MailMessage): string {
+  const match = message.text.match(/token=([a-f0-9]+)/);
+  if (!match) {
+    throw new Error('Token não encontrado no e-mail de convite');
+  }
+  return match[1];
+}
+
+async function testUserInvitationService() {
+  console.log('🧪 Testando User Invitation Service...\n');
+
+  // Transporte em memória para capturar os e-mails enviados
+  const sentMails: MailMessage[] = [];
+  const mailTransport = {
+    send: async (message: MailMessage) => {
+      sentMails.push(message);
+    },
+  };
+
+  const userRepository = new PrismaUserRepository();
+  const invitationService = new UserInvitationService(
+    new PrismaUserInvitationRepository(),
+    userRepository,
+    new PrismaGymRepository(),
+    mailTransport
+  );
+
+  let testGymId: string | undefined;
+
+  try {
+    // ========================================
+    // SETUP: Criar academia e admin
+    // ========================================
+    console.log('🏗️  Setup: Criando dados de teste...');
+
+    const gym = await prisma.gym.create({
+      data: {
+        name: 'Academia Convites Test',
+        slug: `invitation-test-${Date.now()}`,
+        email: `invitation-${Date.now()}@gym.com`,
+      },
+    });
+    testGymId = gym.id;
+
+    const admin = await userRepository.create({
+      gymId: testGymId,
+      name: 'Admin Convites',
+      email: `admin-${Date.now()}@test.com`,
+      passwordHash: await hashPassword('Senha123'),
+      role: Role.ADMIN,
+    });
+
+    console.log(`   ✅ Academia e admin criados\n`);
+
+    // ========================================
+    // TESTE 1: Convidar instrutor
+    // ========================================
+    console.log('1️⃣ Testando convite de instrutor...');
+    const inviteeEmail = `instrutor-${Date.now()}@test.com`;
+    const invitation = await invitationService.createInvitation(
+      { email: inviteeEmail, role: Role.INSTRUCTOR },
+      admin.id,
+      testGymId
+    );
+    const firstToken = extractToken(sentMails[sentMails.length - 1]);
+    console.log(`   Role: ${invitation.role}`);
+    console.log(
+      `   ${'tokenHash' in invitation ? '❌ Hash do token exposto' : '✅ Hash do token não exposto'}\n`
+    );
+
+    // ========================================
+    // TESTE 2: Reenviar convite substitui o anterior
+    // ========================================
+    console.log('2️⃣ Testando reenvio de convite...');
+    await invitationService.createInvitation(
+      { email: inviteeEmail, role: Role.INSTRUCTOR },
+      admin.id,
+      testGymId
+    );
+    const token = extractToken(sentMails[sentMails.length - 1]);
+    const pending = await invitationService.listPendingInvitations(testGymId);
+    console.log(
+      `   ${pending.length === 1 ? '✅' : '❌'} Convites pendentes: ${pending.length}`
+    );
+    try {
+      await invitationService.acceptInvitation({
+        token: firstToken,
+        name: 'Instrutor Antigo',
+        password: 'Senha123',
+      });
+      console.log(`   ❌ Convite substituído foi aceito (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ Convite substituído rejeitado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 3: Aceitar convite
+    // ========================================
+    console.log('3️⃣ Testando aceite de convite...');
+    const user = await invitationService.acceptInvitation({
+      token,
+      name: 'Instrutor Convidado',
+      password: 'Senha123',
+    });
+    console.log(
+      `   ${user.role === Role.INSTRUCTOR ? '✅' : '❌'} Conta criada com role ${user.role}`
+    );
+    console.log(
+      `   ${user.emailVerifiedAt ? '✅' : '❌'} E-mail verificado pelo convite\n`
+    );
+
+    // ========================================
+    // TESTE 4: Convite é de uso único
+    // ========================================
+    console.log('4️⃣ Testando reuso do convite...');
+    try {
+      await invitationService.acceptInvitation({
+        token,
+        name: 'Instrutor Duplicado',
+        password: 'Senha123',
+      });
+      console.log(`   ❌ Convite reutilizado (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ Convite reutilizado rejeitado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 5: Convidar e-mail já cadastrado
+    // ========================================
+    console.log('5️⃣ Testando convite para e-mail já cadastrado...');
+    try {
+      await invitationService.createInvitation(
+        { email: inviteeEmail, role: Role.ADMIN },
+        admin.id,
+        testGymId
+      );
+      console.log(`   ❌ Convite duplicado foi aceito (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ Convite rejeitado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 6: Revogar convite
+    // ========================================
+    console.log('6️⃣ Testando revogação de convite...');
+    const revocable = await invitationService.createInvitation(
+      { email: `revogado-${Date.now()}@test.com`, role: Role.MEMBER },
+      admin.id,
+      testGymId
+    );
+    const revokedToken = extractToken(sentMails[sentMails.length - 1]);
+    await invitationService.revokeInvitation(revocable.id, testGymId);
+    try {
+      await invitationService.acceptInvitation({
+        token: revokedToken,
+        name: 'Membro Revogado',
+        password: 'Senha123',
+      });
+      console.log(`   ❌ Convite revogado foi aceito (BUG!)`);
+    } catch (error: any) {
+      console.log(`   ✅ Convite revogado rejeitado: ${error.message}`);
+    }
+    try {
+      await invitationService.revokeInvitation(revocable.id, testGymId);
+      console.log(`   ❌ Convite revogado duas vezes (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ Segunda revogação rejeitada: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 7: Aceitar convite de academia inativa
+    // ========================================
+    console.log('7️⃣ Testando convite de academia inativa...');
+    await invitationService.createInvitation(
+      { email: `inativa-${Date.now()}@test.com`, role: Role.MEMBER },
+      admin.id,
+      testGymId
+    );
+    const inactiveGymToken = extractToken(sentMails[sentMails.length - 1]);
+    await prisma.gym.update({
+      where: { id: testGymId },
+      data: { isActive: false },
+    });
+    try {
+      await invitationService.acceptInvitation({
+        token: inactiveGymToken,
+        name: 'Membro Academia Inativa',
+        password: 'Senha123',
+      });
+      console.log(`   ❌ Convite de academia inativa foi aceito (BUG!)\n`);
+    } catch (error: any) {
+      console.log(
+        `   ${error.statusCode === 403 ? '✅' : '❌'} Convite rejeitado: ${error.message}\n`
+      );
+    }
+
+    // ========================================
+    // TESTE 8: Falha ao criar o usuário não consome o convite
+    // ========================================
+    console.log('8️⃣ Testando falha na criação do usuário...');
+    const invitationRepository = new PrismaUserInvitationRepository();
+    const conflicting = await invitationService.createInvitation(
+      { email: `conflito-${Date.now()}@test.com`, role: Role.MEMBER },
+      admin.id,
+      testGymId
+    );
+    try {
+      // E-mail do admin já existe na academia: a criação viola a unicidade
+      await invitationRepository.accept(conflicting.id, {
+        gymId: testGymId,
+        name: 'Membro Conflito',
+        email: admin.email,
+        passwordHash: await hashPassword('Senha123'),
+        role: Role.MEMBER,
+      });
+      console.log(`   ❌ Usuário duplicado foi criado (BUG!)\n`);
+    } catch {
+      const reloaded = await invitationRepository.findById(conflicting.id);
+      console.log(
+        `   ${reloaded?.acceptedAt === null ? '✅' : '❌'} Convite continua disponível após a falha\n`
+      );
+    }
+
+    console.log('✅ Todos os testes do User Invitation Service passaram!\n');
+  } catch (error) {
+    console.error('❌ Erro nos testes:', error);
+  } finally {
+    // ========================================
+    // CLEANUP
+    // ========================================
+    console.log('🧹 Limpando dados...');
+    if (testGymId) {
+      // Usuários e convites são removidos em cascata
+      await prisma.gym.delete({ where: { id: testGymId } }).catch(() => {});
+    }
+    await prisma.$disconnect();
+    console.log('   ✅ Conexão encerrada\n');
+  }
+}
+
+testUserInvitationService();
@@ -0,0 +1,241 @@
+import 'dotenv/config';
+import { UserPrivacyService } from '../user-privacy.service';
+import { UserService } from '../user.service';
+import { PrismaUserPrivacyRepository } from '@/modules/users/repositories/prisma-user-privacy.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaAuthSessionRepository } from '@/modules/auth/repositories/prisma-auth-session.repository';
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { hashPassword } from '@/shared/utils/password.util';
+
+async function testUserPrivacyService() {
+  console.log('🧪 Testando User Privacy Service...\n');
+
+  const userRepository = new PrismaUserRepository();
+  const privacyService = new UserPrivacyService(
+    new PrismaUserPrivacyRepository(),
+    userRepository
+  );
+  const userService = new UserService(
+    userRepository,
+    new PrismaAuthSessionRepository()
+  );
+
+  let testGymId: string | undefined;
+  let otherGymId: string | undefined;
+
+  try {
+    // ========================================
+    // SETUP: Criar academias, admin e membro com histórico
+    // ========================================
+    console.log('🏗️  Setup: Criando dados de teste...');
+
+    const gym = await prisma.gym.create({
+      data: {
+        name: 'Academia Privacidade Test',
+        slug: `privacy-test-${Date.now()}`,
+        email: `privacy-${Date.now()}@gym.com`,
+      },
+    });
+    testGymId = gym.id;
+
+    const otherGym = await prisma.gym.create({
+      data: {
+        name: 'Outra Academia Privacidade',
+        slug: `privacy-other-${Date.now()}`,
+        email: `privacy-other-${Date.now()}@gym.com`,
+      },
+    });
+    otherGymId = otherGym.id;
+
+    const suffix = Date.now();
+    const admin = await userRepository.create({
+      gymId: testGymId,
+      name: 'Admin Privacidade',
+      email: `admin-privacy-${suffix}@test.com`,
+      passwordHash: await hashPassword('Senha123'),
+      role: Role.ADMIN,
+    });
+
+    const member = await userRepository.create({
+      gymId: testGymId,
+      name: 'Membro Privacidade',
+      email: `membro-privacy-${suffix}@test.com`,
+      passwordHash: await hashPassword('Senha123'),
+      role: Role.MEMBER,
+      cpf: `${80000000000 + (suffix % 1000000)}`,
+      phone: '11987654321',
+    });
+
+    await prisma.checkIn.create({
+      data: { gymId: testGymId, userId: member.id },
+    });
+
+    await prisma.userInvitation.create({
+      data: {
+        gymId: testGymId,
+        email: member.email,
+        role: Role.MEMBER,
+        tokenHash: `privacy-invitation-${suffix}`,
+        expiresAt: new Date(),
+        acceptedAt: new Date(),
+      },
+    });
+
+    console.log(`   ✅ Dados criados\n`);
+
+    // ========================================
+    // TESTE 1: Exportação dos próprios dados
+    // ========================================
+    console.log('1️⃣ Testando exportação de dados pessoais...');
+    const exported = await privacyService.exportPersonalData(member.id);
+    console.log(
+      `   ${exported.profile.email === member.email && exported.gym.id === testGymId ? '✅' : '❌'} Perfil e academia exportados`
+    );
+    console.log(
+      `   ${!('passwordHash' in exported.profile) && !('twoFactorSecret' in exported.profile) ? '✅' : '❌'} Hash de senha e segredo 2FA omitidos`
+    );
+    console.log(
+      `   ${exported.checkIns.length === 1 ? '✅' : '❌'} Check-ins: ${exported.checkIns.length}\n`
+    );
+
+    // ========================================
+    // TESTE 2: Permissões da anonimização
+    // ========================================
+    console.log('2️⃣ Testando permissões da anonimização...');
+    const attempts: [string, () => Promise<unknown>][] = [
+      [
+        'MEMBER',
+        () =>
+          privacyService.anonymizeUser(
+            member.id,
+            member.id,
+            Role.MEMBER,
+            testGymId!
+          ),
+      ],
+      [
+        'próprio ADMIN',
+        () =>
+          privacyService.anonymizeUser(
+            admin.id,
+            admin.id,
+            Role.ADMIN,
+            testGymId!
+          ),
+      ],
+      [
+        'ADMIN de outra academia',
+        () =>
+          privacyService.anonymizeUser(
+            member.id,
+            admin.id,
+            Role.ADMIN,
+            otherGymId!
+          ),
+      ],
+    ];
+
+    for (const [label, attempt] of attempts) {
+      try {
+        await attempt();
+        console.log(`   ❌ Anonimização por ${label} foi aceita (BUG!)`);
+      } catch (error: any) {
+        console.log(`   ✅ ${label} bloqueado: ${error.message}`);
+      }
+    }
+    console.log('');
+
+    // ========================================
+    // TESTE 3: Anonimização preserva histórico
+    // ========================================
+    console.log('3️⃣ Testando anonimização...');
+    const anonymized = await privacyService.anonymizeUser(
+      member.id,
+      admin.id,
+      Role.ADMIN,
+      testGymId
+    );
+    const checkIns = await prisma.checkIn.count({
+      where: { userId: member.id },
+    });
+    const invitations = await prisma.userInvitation.count({
+      where: { email: member.email },
+    });
+    console.log(
+      `   ${anonymized.name === 'Usuário anonimizado' && anonymized.email.endsWith('.invalid') ? '✅' : '❌'} Nome e e-mail substituídos: ${anonymized.email}`
+    );
+    console.log(
+      `   ${anonymized.cpf === null && anonymized.phone === null ? '✅' : '❌'} CPF e telefone removidos`
+    );
+    console.log(
+      `   ${!anonymized.isActive && anonymized.anonymizedAt ? '✅' : '❌'} Conta desativada e marcada como anonimizada`
+    );
+    console.log(
+      `   ${checkIns === 1 ? '✅' : '❌'} Check-ins preservados: ${checkIns}`
+    );
+    console.log(
+      `   ${invitations === 0 ? '✅' : '❌'} Convites com o e-mail original removidos\n`
+    );
+
+    // ========================================
+    // TESTE 4: Anonimização é definitiva
+    // ========================================
+    console.log('4️⃣ Testando que a anonimização é definitiva...');
+    try {
+      await privacyService.anonymizeUser(
+        member.id,
+        admin.id,
+        Role.ADMIN,
+        testGymId
+      );
+      console.log(`   ❌ Anonimizou duas vezes (BUG!)`);
+    } catch (error: any) {
+      console.log(`   ✅ Segunda anonimização bloqueada: ${error.message}`);
+    }
+
+    try {
+      await userService.updateUser(
+        member.id,
+        { name: 'Membro Privacidade', birthDate: undefined },
+        admin.id,
+        Role.ADMIN,
+        testGymId
+      );
+      console.log(`   ❌ Usuário anonimizado editado (BUG!)`);
+    } catch (error: any) {
+      console.log(`   ✅ Edição bloqueada: ${error.message}`);
+    }
+
+    try {
+      await userService.reactivateUser(
+        member.id,
+        admin.id,
+        Role.ADMIN,
+        testGymId
+      );
+      console.log(`   ❌ Usuário anonimizado reativado (BUG!)\n`);
+    } catch (error: any) {
+      console.log(`   ✅ Reativação bloqueada: ${error.message}\n`);
+    }
+
+    console.log('✅ Todos os testes do User Privacy Service passaram!\n');
+  } catch (error) {
+    console.error('❌ Erro nos testes:', error);
+  } finally {
+    // ========================================
+    // CLEANUP
+    // ========================================
+    console.log('🧹 Limpando dados...');
+    for (const gymId of [testGymId, otherGymId]) {
+      if (gymId) {
+        // Usuários e check-ins são removidos em cascata
+        await prisma.gym.delete({ where: { id: gymId } }).catch(() => {});
+      }
+    }
+    await prisma.$disconnect();
+    console.log('   ✅ Conexão encerrada\n');
+  }
+}
+
+testUserPrivacyService();
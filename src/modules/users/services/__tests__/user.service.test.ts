@@ -1,6 +1,7 @@
 import 'dotenv/config';
 import { UserService } from '../user.service';
 import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaAuthSessionRepository } from '@/modules/auth/repositories/prisma-auth-session.repository';
 import { Role } from '@prisma/client';
 import { prisma } from '@/config/database';
 import { hashPassword } from '@/shared/utils/password.util';
@@ -9,7 +10,8 @@ async function testUserService() {
   console.log('🧪 Testando User Service...\n');
 
   const userRepository = new PrismaUserRepository();
-  const userService = new UserService(userRepository);
+  const authSessionRepository = new PrismaAuthSessionRepository();
+  const userService = new UserService(userRepository, authSessionRepository);
 
   let testGymId: string;
   let adminUserId: string;
@@ -156,13 +158,21 @@ async function testUserService() {
     // TESTE 7: Desativar usuário
     // ========================================
     console.log('7️⃣ Testando desativar usuário...');
+    await authSessionRepository.create({
+      userId: memberUserId,
+      userAgent: 'Tablet da recepção',
+    });
     const deactivated = await userService.deactivateUser(
       memberUserId,
       adminUserId,
       Role.ADMIN,
       testGymId
     );
+    const openSessions = await prisma.authSession.count({
+      where: { userId: memberUserId, revokedAt: null },
+    });
     console.log(`   Usuário inativo: ${!deactivated.isActive}`);
+    console.log(`   Sessões abertas: ${openSessions}`);
     console.log(`   ✅ Usuário desativado\n`);
 
     // ========================================
@@ -189,6 +199,85 @@ async function testUserService() {
     console.log(`   Admins: ${stats.byRole.admins}`);
     console.log(`   ✅ Estatísticas obtidas\n`);
 
+    // ========================================
+    // TESTE 10: Trocar a própria senha
+    // ========================================
+    console.log('🔟 Testando troca de senha...');
+    const currentSession = await authSessionRepository.create({
+      userId: instructorUserId,
+      userAgent: 'Navegador atual',
+    });
+    await authSessionRepository.create({
+      userId: instructorUserId,
+      userAgent: 'Celular antigo',
+    });
+
+    try {
+      await userService.changeOwnPassword(instructorUserId, {
+        currentPassword: 'SenhaErrada1',
+        newPassword: 'NovaSenha123',
+      });
+      console.log('   ❌ Deveria ter rejeitado senha atual incorreta');
+    } catch (error: any) {
+      console.log(`   ✅ Senha atual incorreta rejeitada: ${error.message}`);
+    }
+
+    try {
+      await userService.changeOwnPassword(instructorUserId, {
+        currentPassword: 'Senha123',
+        newPassword: 'Senha123',
+      });
+      console.log('   ❌ Deveria ter rejeitado reutilização da senha');
+    } catch (error: any) {
+      console.log(`   ✅ Reutilização rejeitada: ${error.message}`);
+    }
+
+    await userService.changeOwnPassword(
+      instructorUserId,
+      { currentPassword: 'Senha123', newPassword: 'NovaSenha123' },
+      currentSession.id,
+      { userAgent: 'Navegador atual', ipAddress: '127.0.0.1' }
+    );
+    const passwordChanges = await prisma.passwordChange.count({
+      where: { userId: instructorUserId },
+    });
+    const remainingSessions = await prisma.authSession.findMany({
+      where: { userId: instructorUserId, revokedAt: null },
+    });
+    console.log(`   Registros de auditoria: ${passwordChanges}`);
+    console.log(
+      `   Sessão atual mantida: ${remainingSessions.length === 1 && remainingSessions[0].id === currentSession.id}`
+    );
+    console.log(`   ✅ Senha alterada\n`);
+
+    // ========================================
+    // TESTE 11: Exportar usuários
+    // ========================================
+    console.log('1️⃣1️⃣ Testando exportação de usuários...');
+    try {
+      userService.exportUsers(
+        { format: 'csv', includeSensitive: true },
+        Role.INSTRUCTOR,
+        testGymId
+      );
+      console.log(`   ❌ Instrutor exportou dados sensíveis (BUG!)`);
+    } catch (error: any) {
+      console.log(`   ✅ Dados sensíveis bloqueados: ${error.message}`);
+    }
+    const exported = userService.exportUsers(
+      { format: 'xlsx', includeSensitive: true },
+      Role.ADMIN,
+      testGymId
+    );
+    const exportedRows = [];
+    for await (const row of exported.rows) {
+      exportedRows.push(row);
+    }
+    console.log(`   Colunas: ${exported.columns.join(', ')}`);
+    console.log(
+      `   ${exportedRows.length === 3 ? '✅' : '❌'} Linhas exportadas: ${exportedRows.length}\n`
+    );
+
     console.log('✅ Todos os testes do User Service passaram!\n');
   } catch (error) {
     console.error('❌ Erro nos testes:', error);
@@ -0,0 +1,422 @@
+import { Gym, Role, User } from '@prisma/client';
+import {
+  CreateUserData,
+  IUserRepository,
+} from '../interfaces/user-repository.interface';
+import { IGymRepository } from '@/modules/gyms/interfaces/gym-repository.interface';
+import { IPasswordResetTokenRepository } from '@/modules/auth/interfaces/password-reset-token-repository.interface';
+import { MailTransport } from '@/shared/mail/interfaces/mail-transport.interface';
+import { AppError } from '@/shared/errors/app-error';
+import { parseCsv } from '@/shared/utils/csv.util';
+import {
+  generateTemporaryPassword,
+  hashPassword,
+} from '@/shared/utils/password.util';
+import { generateOpaqueToken, hashToken } from '@/shared/utils/token.util';
+import { appConfig } from '@/config/app';
+import {
+  ImportUserRowDTO,
+  ImportUsersQueryDTO,
+  importUserRowSchema,
+} from '../dtos/user.dto';
+
+/**
+ * Colunas aceitas no CSV (cabeçalho normalizado, sem acentos e separadores)
+ */
+const COLUMN_ALIASES: Record<keyof ImportUserRowDTO, string[]> = {
+  name: ['name', 'nome', 'nomecompleto'],
+  email: ['email'],
+  cpf: ['cpf'],
+  phone: ['phone', 'telefone', 'celular'],
+  birthDate: ['birthdate', 'datanascimento', 'datadenascimento', 'nascimento'],
+};
+
+const REQUIRED_COLUMNS: (keyof ImportUserRowDTO)[] = ['name', 'email'];
+
+/**
+ * Erros de uma linha do arquivo
+ * row é o número da linha na planilha (o cabeçalho é a linha 1)
+ */
+export interface UserImportRowError {
+  row: number;
+  email?: string;
+  errors: string[];
+}
+
+/**
+ * Usuário criado pela importação
+ * temporaryPassword só é retornada no modo senha temporária;
+ * invitationSent só no modo convite (false se o e-mail falhou e o usuário
+ * precisa usar a recuperação de senha)
+ */
+export interface UserImportCreatedRow {
+  row: number;
+  userId: string;
+  email: string;
+  temporaryPassword?: string;
+  invitationSent?: boolean;
+}
+
+/**
+ * Relatório da importação
+ */
+export interface UserImportReport {
+  dryRun: boolean;
+  credentials: ImportUsersQueryDTO['credentials'];
+  totalRows: number;
+  validRows: number;
+  createdRows: number;
+  errors: UserImportRowError[];
+  created: UserImportCreatedRow[];
+}
+
+interface ValidImportRow {
+  row: number;
+  data: ImportUserRowDTO;
+}
+
+/**
+ * Service de Importação de Usuários
+ * Carrega membros em massa a partir de um CSV (migração de planilhas)
+ */
+export class UserImportService {
+  constructor(
+    private userRepository: IUserRepository,
+    private gymRepository: IGymRepository,
+    private passwordResetTokenRepository: IPasswordResetTokenRepository,
+    private mailTransport: MailTransport
+  ) {}
+
+  /**
+   * Importa membros (role MEMBER) para a academia
+   * Linhas inválidas ou duplicadas são reportadas e as demais são criadas
+   * em lotes; em dryRun nada é gravado
+   */
+  async importUsers(
+    csv: string,
+    options: ImportUsersQueryDTO,
+    gymId: string
+  ): Promise<UserImportReport> {
+    const gym = await this.gymRepository.findById(gymId);
+
+    if (!gym) {
+      throw new AppError('Academia não encontrada', 404);
+    }
+
+    // 1. Ler arquivo e mapear colunas pelo cabeçalho
+    const [header, ...records] = parseCsv(csv);
+
+    if (!header || records.length === 0) {
+      throw new AppError('Arquivo CSV vazio ou sem linhas de dados', 400);
+    }
+
+    if (records.length > appConfig.userImportMaxRows) {
+      throw new AppError(
+        `Arquivo excede o limite de ${appConfig.userImportMaxRows} linhas`,
+        400
+      );
+    }
+
+    const columns = this.mapColumns(header);
+
+    // 2. Validar linhas (regras do registro + duplicidades)
+    const errors: UserImportRowError[] = [];
+    const validRows: ValidImportRow[] = [];
+    const seenEmails = new Map<string, number>();
+    const seenCpfs = new Map<string, number>();
+
+    for (const [index, record] of records.entries()) {
+      const row = index + 2;
+      const parsed = importUserRowSchema.safeParse(
+        this.toRowInput(record, columns)
+      );
+
+      if (!parsed.success) {
+        errors.push({
+          row,
+          email: record[columns.email]?.trim() || undefined,
+          errors: parsed.error.issues.map(issue => issue.message),
+        });
+        continue;
+      }
+
+      const rowErrors = await this.findDuplicates(
+        parsed.data,
+        gym.id,
+        seenEmails,
+        seenCpfs
+      );
+
+      seenEmails.set(parsed.data.email, row);
+      if (parsed.data.cpf) {
+        seenCpfs.set(parsed.data.cpf, row);
+      }
+
+      if (rowErrors.length > 0) {
+        errors.push({ row, email: parsed.data.email, errors: rowErrors });
+        continue;
+      }
+
+      validRows.push({ row, data: parsed.data });
+    }
+
+    const report: UserImportReport = {
+      dryRun: options.dryRun,
+      credentials: options.credentials,
+      totalRows: records.length,
+      validRows: validRows.length,
+      createdRows: 0,
+      errors,
+      created: [],
+    };
+
+    if (options.dryRun) {
+      return report;
+    }
+
+    // 3. Criar usuários em lotes
+    const batchSize = appConfig.userImportBatchSize;
+
+    for (let start = 0; start < validRows.length; start += batchSize) {
+      const batch = validRows.slice(start, start + batchSize);
+      await this.createBatch(batch, gym, options.credentials, report);
+    }
+
+    return report;
+  }
+
+  /**
+   * Índice de cada campo no cabeçalho
+   * Exige as colunas obrigatórias (name e email)
+   */
+  private mapColumns(header: string[]): Record<keyof ImportUserRowDTO, number> {
+    const normalized = header.map(column =>
+      column
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, '')
+    );
+
+    const columns = {} as Record<keyof ImportUserRowDTO, number>;
+
+    for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+      columns[field as keyof ImportUserRowDTO] = normalized.findIndex(column =>
+        aliases.includes(column)
+      );
+    }
+
+    const missing = REQUIRED_COLUMNS.filter(field => columns[field] === -1);
+
+    if (missing.length > 0) {
+      throw new AppError(
+        `Colunas obrigatórias ausentes no CSV: ${missing.join(', ')}`,
+        400
+      );
+    }
+
+    return columns;
+  }
+
+  /**
+   * Converte os valores da linha para o formato do registro
+   * Telefone aceita máscara (o CPF é normalizado pelo schema);
+   * data aceita DD/MM/AAAA ou AAAA-MM-DD
+   */
+  private toRowInput(
+    record: string[],
+    columns: Record<keyof ImportUserRowDTO, number>
+  ) {
+    const value = (field: keyof ImportUserRowDTO) => {
+      const cell = columns[field] === -1 ? '' : record[columns[field]];
+      return cell?.trim() || undefined;
+    };
+
+    const digits = (cell?: string) => cell?.replace(/\D/g, '');
+
+    return {
+      name: value('name'),
+      email: value('email'),
+      cpf: value('cpf'),
+      phone: digits(value('phone')),
+      birthDate: this.toIsoDate(value('birthDate')),
+    };
+  }
+
+  private toIsoDate(cell?: string): string | undefined {
+    if (!cell) {
+      return undefined;
+    }
+
+    const brazilian = cell.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+    if (brazilian) {
+      const [, day, month, year] = brazilian;
+      return `${year}-${month}-${day}T00:00:00.000Z`;
+    }
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(cell)) {
+      return `${cell}T00:00:00.000Z`;
+    }
+
+    // Formato desconhecido: a validação do schema reporta o erro
+    return cell;
+  }
+
+  /**
+   * Duplicidades no próprio arquivo e na base
+   */
+  private async findDuplicates(
+    data: ImportUserRowDTO,
+    gymId: string,
+    seenEmails: Map<string, number>,
+    seenCpfs: Map<string, number>
+  ): Promise<string[]> {
+    const errors: string[] = [];
+
+    const emailRow = seenEmails.get(data.email);
+    if (emailRow) {
+      errors.push(`E-mail repetido no arquivo (linha ${emailRow})`);
+    } else if (
+      await this.userRepository.existsByEmailAndGymId(data.email, gymId)
+    ) {
+      errors.push('E-mail já cadastrado nesta academia');
+    }
+
+    if (data.cpf) {
+      const cpfRow = seenCpfs.get(data.cpf);
+      if (cpfRow) {
+        errors.push(`CPF repetido no arquivo (linha ${cpfRow})`);
+      } else if (await this.userRepository.existsByCpf(data.cpf)) {
+        errors.push('CPF já cadastrado');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Cria um lote em uma transação
+   * Se o lote falhar (ex: cadastro simultâneo), cria linha a linha para
+   * reportar apenas as linhas com problema
+   */
+  private async createBatch(
+    batch: ValidImportRow[],
+    gym: Gym,
+    credentials: ImportUsersQueryDTO['credentials'],
+    report: UserImportReport
+  ): Promise<void> {
+    const temporaryPasswords = new Map<number, string>();
+    let unusablePasswordHash: string | undefined;
+
+    const users: CreateUserData[] = [];
+    for (const { row, data } of batch) {
+      let passwordHash: string;
+
+      if (credentials === 'temporary-password') {
+        const temporaryPassword = generateTemporaryPassword();
+        temporaryPasswords.set(row, temporaryPassword);
+        passwordHash = await hashPassword(temporaryPassword);
+      } else {
+        // Senha definida pelo convite: um único hash de segredo descartado
+        // evita um bcrypt por linha
+        unusablePasswordHash ??= await hashPassword(generateOpaqueToken());
+        passwordHash = unusablePasswordHash;
+      }
+
+      users.push({
+        gymId: gym.id,
+        name: data.name,
+        email: data.email,
+        passwordHash,
+        role: Role.MEMBER,
+        cpf: data.cpf || undefined,
+        phone: data.phone || undefined,
+        birthDate: data.birthDate,
+      });
+    }
+
+    let created: (User | null)[];
+    try {
+      created = await this.userRepository.createMany(users);
+    } catch {
+      created = [];
+      for (const [index, user] of users.entries()) {
+        try {
+          created.push(await this.userRepository.create(user));
+        } catch {
+          created.push(null);
+          report.errors.push({
+            row: batch[index].row,
+            email: user.email,
+            errors: [
+              'Não foi possível criar o usuário (e-mail ou CPF já cadastrado)',
+            ],
+          });
+        }
+      }
+    }
+
+    for (const [index, user] of created.entries()) {
+      if (!user) {
+        continue;
+      }
+
+      const { row } = batch[index];
+
+      // O usuário já foi gravado: falha no envio não interrompe a importação
+      let invitationSent: boolean | undefined;
+      if (credentials === 'invitation') {
+        invitationSent = await this.sendInvitation(user, gym).then(
+          () => true,
+          () => false
+        );
+      }
+
+      report.createdRows++;
+      report.created.push({
+        row,
+        userId: user.id,
+        email: user.email,
+        temporaryPassword: temporaryPasswords.get(row),
+        invitationSent,
+      });
+
+      if (invitationSent === false) {
+        report.errors.push({
+          row,
+          email: user.email,
+          errors: ['Usuário criado, mas o convite não foi enviado'],
+        });
+      }
+    }
+  }
+
+  /**
+   * Convite por e-mail com link para definir a senha
+   * Usa o fluxo de redefinição de senha, com a validade dos convites
+   */
+  private async sendInvitation(user: User, gym: Gym): Promise<void> {
+    const token = generateOpaqueToken();
+    const expiresInHours = appConfig.invitationExpiresHours;
+
+    await this.passwordResetTokenRepository.create({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    });
+
+    const setPasswordUrl = `${appConfig.url}/reset-password?token=${token}`;
+
+    await this.mailTransport.send({
+      to: user.email,
+      subject: `${gym.name}: seu acesso foi criado`,
+      text: [
+        `Olá, ${user.name}!`,
+        '',
+        `Seu cadastro na ${gym.name} foi criado.`,
+        `Defina sua senha acessando o link abaixo (válido por ${expiresInHours} horas):`,
+        setPasswordUrl,
+      ].join('\n'),
+    });
+  }
+}
@@ -0,0 +1,179 @@
+import { UserInvitation } from '@prisma/client';
+import { IUserInvitationRepository } from '../interfaces/user-invitation-repository.interface';
+import { IUserRepository } from '../interfaces/user-repository.interface';
+import { IGymRepository } from '@/modules/gyms/interfaces/gym-repository.interface';
+import { MailTransport } from '@/shared/mail/interfaces/mail-transport.interface';
+import { SafeUser } from './user.service';
+import { AppError } from '@/shared/errors/app-error';
+import { hashPassword } from '@/shared/utils/password.util';
+import { generateOpaqueToken, hashToken } from '@/shared/utils/token.util';
+import { appConfig } from '@/config/app';
+import { AcceptInvitationDTO, CreateInvitationDTO } from '../dtos/user.dto';
+
+/**
+ * Convite sem o hash do token (para retorno seguro)
+ */
+export type SafeInvitation = Omit<UserInvitation, 'tokenHash'>;
+
+/**
+ * Service de Convites de Usuários
+ * Contas de equipe (INSTRUCTOR/ADMIN) só são criadas por convite de um ADMIN
+ */
+export class UserInvitationService {
+  constructor(
+    private invitationRepository: IUserInvitationRepository,
+    private userRepository: IUserRepository,
+    private gymRepository: IGymRepository,
+    private mailTransport: MailTransport
+  ) {}
+
+  /**
+   * Convidar usuário para a academia
+   * Um novo convite para o mesmo e-mail substitui o anterior
+   */
+  async createInvitation(
+    data: CreateInvitationDTO,
+    invitedById: string,
+    gymId: string
+  ): Promise<SafeInvitation> {
+    const gym = await this.gymRepository.findById(gymId);
+
+    if (!gym) {
+      throw new AppError('Academia não encontrada', 404);
+    }
+
+    const emailExists = await this.userRepository.existsByEmailAndGymId(
+      data.email,
+      gymId
+    );
+
+    if (emailExists) {
+      throw new AppError('E-mail já cadastrado nesta academia', 409);
+    }
+
+    await this.invitationRepository.revokePendingByEmail(gymId, data.email);
+
+    const token = generateOpaqueToken();
+    const expiresInHours = appConfig.invitationExpiresHours;
+
+    const invitation = await this.invitationRepository.create({
+      gymId,
+      email: data.email,
+      role: data.role,
+      tokenHash: hashToken(token),
+      invitedById,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    });
+
+    const acceptUrl = `${appConfig.url}/accept-invitation?token=${token}`;
+
+    await this.mailTransport.send({
+      to: data.email,
+      subject: `${gym.name}: você foi convidado`,
+      text: [
+        'Olá!',
+        '',
+        `Você foi convidado para acessar a ${gym.name}.`,
+        `Crie sua conta acessando o link abaixo (válido por ${expiresInHours} horas):`,
+        acceptUrl,
+        '',
+        'Se não esperava este convite, ignore este e-mail.',
+      ].join('\n'),
+    });
+
+    return this.removeSensitiveData(invitation);
+  }
+
+  /**
+   * Listar convites pendentes da academia
+   */
+  async listPendingInvitations(gymId: string): Promise<SafeInvitation[]> {
+    const invitations = await this.invitationRepository.findPendingByGym(gymId);
+    return invitations.map(invitation => this.removeSensitiveData(invitation));
+  }
+
+  /**
+   * Revogar convite pendente
+   */
+  async revokeInvitation(invitationId: string, gymId: string): Promise<void> {
+    const invitation = await this.invitationRepository.findById(invitationId);
+
+    // Convite de outra academia é tratado como inexistente
+    if (!invitation || invitation.gymId !== gymId) {
+      throw new AppError('Convite não encontrado', 404);
+    }
+
+    const revoked = await this.invitationRepository.revoke(invitation.id);
+
+    if (!revoked) {
+      throw new AppError('Convite já foi aceito ou revogado', 400);
+    }
+  }
+
+  /**
+   * Aceitar convite: cria a conta com o role definido pelo ADMIN
+   * O e-mail já é considerado verificado (o token chegou por e-mail)
+   */
+  async acceptInvitation(data: AcceptInvitationDTO): Promise<SafeUser> {
+    // 1. Buscar convite pelo hash do token
+    const invitation = await this.invitationRepository.findByTokenHash(
+      hashToken(data.token)
+    );
+
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.revokedAt ||
+      invitation.expiresAt < new Date()
+    ) {
+      throw new AppError('Convite inválido ou expirado', 400);
+    }
+
+    // 2. Academia pode ter sido desativada depois do convite
+    const gym = await this.gymRepository.findById(invitation.gymId);
+
+    if (!gym) {
+      throw new AppError('Academia não encontrada', 404);
+    }
+
+    if (!gym.isActive) {
+      throw new AppError('Academia inativa', 403);
+    }
+
+    // 3. E-mail pode ter sido cadastrado depois do convite
+    const emailExists = await this.userRepository.existsByEmailAndGymId(
+      invitation.email,
+      invitation.gymId
+    );
+
+    if (emailExists) {
+      throw new AppError('E-mail já cadastrado nesta academia', 409);
+    }
+
+    // 4. Consumir convite (uso único) e criar usuário na mesma transação
+    const user = await this.invitationRepository.accept(invitation.id, {
+      gymId: invitation.gymId,
+      name: data.name,
+      email: invitation.email,
+      passwordHash: await hashPassword(data.password),
+      role: invitation.role,
+      emailVerifiedAt: new Date(),
+    });
+
+    if (!user) {
+      throw new AppError('Convite inválido ou expirado', 400);
+    }
+
+    const { passwordHash, twoFactorSecret, twoFactorLastStep, ...safeUser } =
+      user;
+    return safeUser;
+  }
+
+  /**
+   * Remove o hash do token do convite
+   */
+  private removeSensitiveData(invitation: UserInvitation): SafeInvitation {
+    const { tokenHash, ...safeInvitation } = invitation;
+    return safeInvitation;
+  }
+}
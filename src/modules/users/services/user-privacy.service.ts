@@ -0,0 +1,134 @@
+import { Role } from '@prisma/client';
+import {
+  IUserPrivacyRepository,
+  UserPersonalData,
+} from '../interfaces/user-privacy-repository.interface';
+import { IUserRepository } from '../interfaces/user-repository.interface';
+import { SafeUser } from './user.service';
+import { accountThrottleKey } from '@/modules/auth/services/login-throttle.service';
+import { AppError } from '@/shared/errors/app-error';
+import { hashPassword } from '@/shared/utils/password.util';
+import { generateOpaqueToken } from '@/shared/utils/token.util';
+
+/**
+ * Pacote de portabilidade de dados (LGPD)
+ */
+export interface PersonalDataExport {
+  exportedAt: Date;
+  profile: SafeUser;
+  gym: UserPersonalData['gym'];
+  checkIns: UserPersonalData['checkIns'];
+  subscriptions: UserPersonalData['subscriptions'];
+  workouts: UserPersonalData['workouts'];
+  workoutSessions: UserPersonalData['workoutSessions'];
+  sessions: UserPersonalData['authSessions'];
+  passwordChanges: UserPersonalData['passwordChanges'];
+}
+
+/**
+ * Seções do pacote, na ordem em que viram arquivos JSON na versão ZIP
+ * (exportedAt é metadado e vai no manifesto)
+ */
+export const PERSONAL_DATA_SECTIONS: readonly Exclude<
+  keyof PersonalDataExport,
+  'exportedAt'
+>[] = [
+  'profile',
+  'gym',
+  'checkIns',
+  'subscriptions',
+  'workouts',
+  'workoutSessions',
+  'sessions',
+  'passwordChanges',
+];
+
+/**
+ * Service de Privacidade (LGPD)
+ * Portabilidade dos dados do titular e anonimização como alternativa à
+ * exclusão definitiva (que apaga também o histórico financeiro e de frequência)
+ */
+export class UserPrivacyService {
+  constructor(
+    private privacyRepository: IUserPrivacyRepository,
+    private userRepository: IUserRepository
+  ) {}
+
+  /**
+   * Exportar todos os dados ligados ao próprio usuário
+   */
+  async exportPersonalData(userId: string): Promise<PersonalDataExport> {
+    const data = await this.privacyRepository.findPersonalData(userId);
+
+    if (!data) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    const { passwordHash, twoFactorSecret, twoFactorLastStep, ...profile } =
+      data.user;
+
+    return {
+      exportedAt: new Date(),
+      profile,
+      gym: data.gym,
+      checkIns: data.checkIns,
+      subscriptions: data.subscriptions,
+      workouts: data.workouts,
+      workoutSessions: data.workoutSessions,
+      sessions: data.authSessions,
+      passwordChanges: data.passwordChanges,
+    };
+  }
+
+  /**
+   * Anonimizar usuário (direito à eliminação)
+   * Permissões: ADMIN (mesmo gym)
+   */
+  async anonymizeUser(
+    userId: string,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<SafeUser> {
+    if (requestingUserRole !== Role.ADMIN) {
+      throw new AppError('Sem permissão para anonimizar usuários', 403);
+    }
+
+    // Não pode anonimizar a si mesmo
+    if (userId === requestingUserId) {
+      throw new AppError('Não é possível anonimizar o próprio usuário', 400);
+    }
+
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    if (user.gymId !== requestingUserGymId) {
+      throw new AppError(
+        'Não é possível anonimizar usuários de outra academia',
+        403
+      );
+    }
+
+    if (user.anonymizedAt) {
+      throw new AppError('Usuário já foi anonimizado', 400);
+    }
+
+    const anonymized = await this.privacyRepository.anonymize(user.id, {
+      name: 'Usuário anonimizado',
+      // E-mail único por usuário, em domínio reservado (.invalid)
+      email: `anonimizado-${user.id}@anonimizado.invalid`,
+      // Senha aleatória descartada: a conta não pode mais ser acessada
+      passwordHash: await hashPassword(generateOpaqueToken()),
+      gymId: user.gymId,
+      originalEmail: user.email,
+      loginThrottleKey: accountThrottleKey(user.gymId, user.email),
+    });
+
+    const { passwordHash, twoFactorSecret, twoFactorLastStep, ...safeUser } =
+      anonymized;
+    return safeUser;
+  }
+}
@@ -1,23 +1,54 @@
-import { User, Role } from '@prisma/client';
-import { IUserRepository } from '../interfaces/user-repository.interface';
+import { User, Role, PasswordChangeReason } from '@prisma/client';
+import {
+  IUserRepository,
+  ExportableUser,
+  UserFilters,
+} from '../interfaces/user-repository.interface';
+import {
+  IAuthSessionRepository,
+  SessionClientInfo,
+} from '@/modules/auth/interfaces/auth-session-repository.interface';
 import { AppError } from '@/shared/errors/app-error';
+import { SpreadsheetCell } from '@/shared/export/interfaces/spreadsheet-writer.interface';
+import { hashPassword, comparePassword } from '@/shared/utils/password.util';
 import {
   UpdateProfileDTO,
+  ChangePasswordDTO,
   UpdateUserDTO,
   ListUsersFiltersDTO,
+  ExportUsersQueryDTO,
 } from '../dtos/user.dto';
 
 /**
- * Dados do usuário sem senha (para retorno seguro)
+ * Dados do usuário sem senha e segredo do 2FA (para retorno seguro)
+ */
+export type SafeUser = Omit<
+  User,
+  'passwordHash' | 'twoFactorSecret' | 'twoFactorLastStep'
+>;
+
+/**
+ * Usuários por lote na exportação (memória constante em listas grandes)
+ */
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Exportação de usuários: cabeçalho e linhas geradas sob demanda
  */
-export type SafeUser = Omit<User, 'passwordHash'>;
+export interface UserExport {
+  columns: string[];
+  rows: AsyncGenerator<SpreadsheetCell[]>;
+}
 
 /**
  * Service de Usuários
  * Contém lógica de negócio e regras de permissão
  */
 export class UserService {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private authSessionRepository: IAuthSessionRepository
+  ) {}
 
   /**
    * Listar usuários com filtros e paginação
@@ -49,6 +80,55 @@ export class UserService {
     };
   }
 
+  /**
+   * Exportar usuários com os filtros da listagem (todas as páginas)
+   * Permissões: ADMIN, INSTRUCTOR (mesmo gym); dados sensíveis só ADMIN
+   */
+  exportUsers(
+    filters: ExportUsersQueryDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): UserExport {
+    // Validar permissão antes de iniciar o download
+    if (requestingUserRole === Role.MEMBER) {
+      throw new AppError('Sem permissão para exportar usuários', 403);
+    }
+
+    if (filters.includeSensitive && requestingUserRole !== Role.ADMIN) {
+      throw new AppError(
+        'Apenas administradores podem exportar dados sensíveis',
+        403
+      );
+    }
+
+    const columns = [
+      'Nome',
+      'E-mail',
+      'Perfil',
+      'Ativo',
+      'E-mail verificado',
+      'Telefone',
+      'Cadastrado em',
+    ];
+
+    if (filters.includeSensitive) {
+      columns.push('CPF', 'Data de nascimento');
+    }
+
+    return {
+      columns,
+      rows: this.iterateExportRows(
+        {
+          gymId: requestingUserGymId,
+          role: filters.role,
+          isActive: filters.isActive,
+          search: filters.search,
+        },
+        filters.includeSensitive
+      ),
+    };
+  }
+
   /**
    * Buscar usuário por ID
    * Permissões: Próprio perfil, ou INSTRUCTOR/ADMIN do mesmo gym
@@ -108,6 +188,55 @@ export class UserService {
     return this.removeSensitiveData(updatedUser);
   }
 
+  /**
+   * Trocar a própria senha
+   * As demais sessões do usuário são encerradas; a atual continua válida
+   * Permissões: Qualquer usuário autenticado
+   */
+  async changeOwnPassword(
+    userId: string,
+    data: ChangePasswordDTO,
+    currentSessionId?: string,
+    client: SessionClientInfo = {}
+  ): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    if (!user.isActive) {
+      throw new AppError('Usuário inativo', 403);
+    }
+
+    const isCurrentPasswordValid = await comparePassword(
+      data.currentPassword,
+      user.passwordHash
+    );
+
+    if (!isCurrentPasswordValid) {
+      throw new AppError('Senha atual incorreta', 400);
+    }
+
+    const isSamePassword = await comparePassword(
+      data.newPassword,
+      user.passwordHash
+    );
+
+    if (isSamePassword) {
+      throw new AppError('A nova senha deve ser diferente da atual', 400);
+    }
+
+    await this.userRepository.updatePassword(userId, {
+      passwordHash: await hashPassword(data.newPassword),
+      reason: PasswordChangeReason.CHANGE,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+    });
+
+    await this.authSessionRepository.revokeAllByUser(userId, currentSessionId);
+  }
+
   /**
    * Atualizar qualquer usuário (admin apenas)
    * Permissões: Apenas ADMIN
@@ -135,6 +264,11 @@ export class UserService {
       throw new AppError('Não é possível editar usuários de outra academia', 403);
     }
 
+    // Dados pessoais não podem voltar a ser associados ao registro
+    if (user.anonymizedAt) {
+      throw new AppError('Usuário anonimizado não pode ser editado', 400);
+    }
+
     // Validar email único (se estiver alterando)
     if (data.email && data.email !== user.email) {
       const emailExists = await this.userRepository.existsByEmailAndGymId(
@@ -154,8 +288,14 @@ export class UserService {
       }
     }
 
+    // Novo e-mail precisa ser verificado novamente
+    const emailChanged = data.email !== undefined && data.email !== user.email;
+
     // Atualizar
-    const updatedUser = await this.userRepository.update(userId, data);
+    const updatedUser = await this.userRepository.update(userId, {
+      ...data,
+      ...(emailChanged && { emailVerifiedAt: null }),
+    });
 
     return this.removeSensitiveData(updatedUser);
   }
@@ -195,6 +335,10 @@ export class UserService {
 
     const deactivatedUser = await this.userRepository.softDelete(userId);
 
+    // Encerrar todas as sessões: Access Tokens já emitidos deixam de valer
+    // (authenticate confere a sessão) e não é mais possível renovar tokens
+    await this.authSessionRepository.revokeAllByUser(userId);
+
     return this.removeSensitiveData(deactivatedUser);
   }
 
@@ -226,6 +370,10 @@ export class UserService {
       throw new AppError('Usuário já está ativo', 400);
     }
 
+    if (user.anonymizedAt) {
+      throw new AppError('Usuário anonimizado não pode ser reativado', 400);
+    }
+
     const reactivatedUser = await this.userRepository.reactivate(userId);
 
     return this.removeSensitiveData(reactivatedUser);
@@ -304,7 +452,47 @@ export class UserService {
    * Remove dados sensíveis do usuário
    */
   private removeSensitiveData(user: User): SafeUser {
-    const { passwordHash, ...safeUser } = user;
+    const { passwordHash, twoFactorSecret, twoFactorLastStep, ...safeUser } =
+      user;
     return safeUser;
   }
+
+  /**
+   * Percorre os usuários em lotes (cursor) convertendo em linhas da planilha
+   */
+  private async *iterateExportRows(
+    filters: UserFilters,
+    includeSensitive: boolean
+  ): AsyncGenerator<SpreadsheetCell[]> {
+    let cursor: string | undefined;
+    let batch: ExportableUser[];
+
+    do {
+      batch = await this.userRepository.findBatchWithFilters(
+        filters,
+        EXPORT_BATCH_SIZE,
+        cursor
+      );
+
+      for (const user of batch) {
+        const row: SpreadsheetCell[] = [
+          user.name,
+          user.email,
+          user.role,
+          user.isActive,
+          Boolean(user.emailVerifiedAt),
+          user.phone,
+          user.createdAt,
+        ];
+
+        if (includeSensitive) {
+          row.push(user.cpf, user.birthDate);
+        }
+
+        yield row;
+      }
+
+      cursor = batch[batch.length - 1]?.id;
+    } while (batch.length === EXPORT_BATCH_SIZE);
+  }
 }
\ No newline at end of file
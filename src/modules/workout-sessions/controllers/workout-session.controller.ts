@@ -0,0 +1,239 @@
+import { Request, Response, NextFunction } from 'express';
+import { WorkoutSessionService } from '../services/workout-session.service';
+import { PrismaWorkoutSessionRepository } from '../repositories/prisma-workout-session.repository';
+import { PrismaWorkoutRepository } from '@/modules/workouts/repositories/prisma-workout.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import {
+  startWorkoutSessionSchema,
+  logSetSchema,
+  finishWorkoutSessionSchema,
+  listWorkoutSessionsSchema,
+} from '../dtos/workout-session.dto';
+import { Role } from '@prisma/client';
+
+/**
+ * Controller de Sessões de Treino
+ * Gerencia requisições HTTP do registro de treinos executados
+ */
+export class WorkoutSessionController {
+  private workoutSessionService: WorkoutSessionService;
+
+  constructor() {
+    const workoutSessionRepository = new PrismaWorkoutSessionRepository();
+    const workoutRepository = new PrismaWorkoutRepository();
+    const userRepository = new PrismaUserRepository();
+    this.workoutSessionService = new WorkoutSessionService(
+      workoutSessionRepository,
+      workoutRepository,
+      userRepository
+    );
+  }
+
+  /**
+   * POST /api/workout-sessions
+   * Iniciar sessão a partir de um treino próprio
+   * Permissões: Membro dono do treino
+   */
+  start = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = startWorkoutSessionSchema.parse(req.body);
+
+      const userId = req.userId!;
+      const gymId = req.gymId!;
+
+      const session = await this.workoutSessionService.start(
+        data,
+        userId,
+        gymId
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Sessão de treino iniciada',
+        data: { session },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/workout-sessions/me
+   * Histórico de sessões do próprio membro
+   * Permissões: Qualquer usuário autenticado
+   */
+  listOwn = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const filters = listWorkoutSessionsSchema.parse(req.query);
+
+      const userId = req.userId!;
+
+      const result = await this.workoutSessionService.listOwn(filters, userId);
+
+      res.status(200).json({
+        status: 'success',
+        data: result.data,
+        meta: result.meta,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/workout-sessions/member/:memberId
+   * Histórico de sessões de um membro
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  listByMember = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { memberId } = req.params as { memberId: string };
+      const filters = listWorkoutSessionsSchema.parse(req.query);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const result = await this.workoutSessionService.listByMember(
+        memberId,
+        filters,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: result.data,
+        meta: result.meta,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/workout-sessions/:id
+   * Buscar sessão por ID
+   * Permissões: Membro dono da sessão ou INSTRUCTOR/ADMIN
+   */
+  getById = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const userId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const session = await this.workoutSessionService.getById(
+        id,
+        userId,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: { session },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/workout-sessions/:id/sets
+   * Registrar (ou corrigir) série
+   * Permissões: Membro dono da sessão
+   */
+  logSet = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const data = logSetSchema.parse(req.body);
+
+      const userId = req.userId!;
+
+      const set = await this.workoutSessionService.logSet(id, data, userId);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Série registrada',
+        data: { set },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/workout-sessions/:id/sets/:setId
+   * Remover série
+   * Permissões: Membro dono da sessão
+   */
+  deleteSet = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id, setId } = req.params as { id: string; setId: string };
+
+      const userId = req.userId!;
+
+      await this.workoutSessionService.deleteSet(id, setId, userId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Série removida',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/workout-sessions/:id/finish
+   * Finalizar sessão
+   * Permissões: Membro dono da sessão
+   */
+  finish = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const data = finishWorkoutSessionSchema.parse(req.body);
+
+      const userId = req.userId!;
+
+      const session = await this.workoutSessionService.finish(id, data, userId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Sessão de treino finalizada',
+        data: { session },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
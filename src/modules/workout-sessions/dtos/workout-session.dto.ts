@@ -0,0 +1,78 @@
+import { z } from 'zod';
+
+/**
+ * DTO para iniciar sessão
+ */
+export const startWorkoutSessionSchema = z.object({
+  workoutId: z.string().uuid('ID de treino inválido'),
+});
+
+/**
+ * DTO para registrar série
+ * (setNumber opcional: padrão é a próxima série do exercício;
+ * informar um número já registrado corrige a série)
+ */
+export const logSetSchema = z.object({
+  workoutExerciseId: z.string().uuid('ID de exercício do treino inválido'),
+
+  setNumber: z
+    .number()
+    .int('Número da série deve ser inteiro')
+    .min(1, 'Número da série deve ser pelo menos 1')
+    .max(50, 'Número da série deve ser no máximo 50')
+    .optional(),
+
+  weight: z
+    .number()
+    .min(0, 'Carga não pode ser negativa')
+    .max(1000, 'Carga máxima de 1000 kg'),
+
+  reps: z
+    .number()
+    .int('Repetições deve ser um número inteiro')
+    .min(0, 'Repetições não pode ser negativo')
+    .max(200, 'Máximo de 200 repetições'),
+
+  // Percepção de esforço (escala de 1 a 10, meio em meio ponto)
+  rpe: z
+    .number()
+    .min(1, 'RPE mínimo é 1')
+    .max(10, 'RPE máximo é 10')
+    .multipleOf(0.5, 'RPE deve variar de 0,5 em 0,5')
+    .optional(),
+});
+
+/**
+ * DTO para finalizar sessão
+ */
+export const finishWorkoutSessionSchema = z.object({
+  notes: z
+    .string()
+    .max(1000, 'Observações devem ter no máximo 1000 caracteres')
+    .optional(),
+});
+
+/**
+ * DTO para paginação do histórico
+ */
+export const listWorkoutSessionsSchema = z.object({
+  page: z
+    .string()
+    .default('1')
+    .transform(val => parseInt(val, 10)),
+
+  limit: z
+    .string()
+    .default('20')
+    .transform(val => parseInt(val, 10)),
+});
+
+/**
+ * Tipos inferidos
+ */
+export type StartWorkoutSessionDTO = z.infer<typeof startWorkoutSessionSchema>;
+export type LogSetDTO = z.infer<typeof logSetSchema>;
+export type FinishWorkoutSessionDTO = z.infer<
+  typeof finishWorkoutSessionSchema
+>;
+export type ListWorkoutSessionsDTO = z.infer<typeof listWorkoutSessionsSchema>;
@@ -0,0 +1,146 @@
+import {
+  Prisma,
+  WorkoutSession,
+  WorkoutSessionStatus,
+  WorkoutSetLog,
+} from '@prisma/client';
+import { PaginatedResult } from '@/modules/users/interfaces/user-repository.interface';
+
+/**
+ * Relações carregadas junto com a sessão
+ */
+export const workoutSessionDetailsInclude = {
+  member: {
+    select: { id: true, name: true, gymId: true },
+  },
+  workout: {
+    select: { id: true, name: true },
+  },
+  sets: {
+    orderBy: [{ exerciseId: 'asc' }, { setNumber: 'asc' }],
+    include: {
+      exercise: {
+        select: { id: true, name: true, muscleGroup: true },
+      },
+    },
+  },
+} satisfies Prisma.WorkoutSessionInclude;
+
+/**
+ * Sessão com membro, treino e séries registradas
+ */
+export type WorkoutSessionWithDetails = Prisma.WorkoutSessionGetPayload<{
+  include: typeof workoutSessionDetailsInclude;
+}>;
+
+/**
+ * Relações carregadas junto com as séries usadas nas análises de evolução
+ */
+export const loggedSetInclude = {
+  session: {
+    select: { id: true, startedAt: true },
+  },
+  exercise: {
+    select: { id: true, name: true, muscleGroup: true },
+  },
+} satisfies Prisma.WorkoutSetLogInclude;
+
+/**
+ * Série registrada com data da sessão e exercício
+ */
+export type LoggedSet = Prisma.WorkoutSetLogGetPayload<{
+  include: typeof loggedSetInclude;
+}>;
+
+/**
+ * Filtros das séries usadas nas análises de evolução
+ */
+export interface FindLoggedSetsFilters {
+  exerciseId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * DTO para registrar (ou corrigir) uma série
+ */
+export interface LogSetData {
+  workoutExerciseId: string;
+  exerciseId: string;
+  setNumber: number;
+  weight: number;
+  reps: number;
+  rpe?: number;
+}
+
+/**
+ * DTO para finalizar sessão
+ */
+export interface FinishWorkoutSessionData {
+  status: WorkoutSessionStatus;
+  finishedAt: Date;
+  notes?: string;
+}
+
+/**
+ * Interface do Repository de Sessões de Treino
+ */
+export interface IWorkoutSessionRepository {
+  /**
+   * Iniciar sessão
+   */
+  create(
+    memberId: string,
+    workoutId: string
+  ): Promise<WorkoutSessionWithDetails>;
+
+  /**
+   * Buscar sessão por ID (com séries)
+   */
+  findById(id: string): Promise<WorkoutSessionWithDetails | null>;
+
+  /**
+   * Buscar sessão em andamento do membro
+   */
+  findInProgressByMember(memberId: string): Promise<WorkoutSession | null>;
+
+  /**
+   * Histórico de sessões do membro (mais recentes primeiro)
+   */
+  findManyByMember(
+    memberId: string,
+    page: number,
+    limit: number
+  ): Promise<PaginatedResult<WorkoutSessionWithDetails>>;
+
+  /**
+   * Registrar série (sobrescreve se o número da série já existir)
+   */
+  upsertSet(sessionId: string, data: LogSetData): Promise<WorkoutSetLog>;
+
+  /**
+   * Maior número de série registrado de um exercício na sessão (0 se nenhuma)
+   */
+  findLastSetNumber(sessionId: string, exerciseId: string): Promise<number>;
+
+  /**
+   * Remover série
+   */
+  deleteSet(setId: string): Promise<void>;
+
+  /**
+   * Séries de sessões finalizadas do membro (mais antigas primeiro)
+   */
+  findCompletedSetsByMember(
+    memberId: string,
+    filters: FindLoggedSetsFilters
+  ): Promise<LoggedSet[]>;
+
+  /**
+   * Finalizar sessão
+   */
+  finish(
+    id: string,
+    data: FinishWorkoutSessionData
+  ): Promise<WorkoutSessionWithDetails>;
+}
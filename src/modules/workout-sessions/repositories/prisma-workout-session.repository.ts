@@ -0,0 +1,158 @@
+import {
+  WorkoutSession,
+  WorkoutSessionStatus,
+  WorkoutSetLog,
+} from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IWorkoutSessionRepository,
+  FinishWorkoutSessionData,
+  FindLoggedSetsFilters,
+  LogSetData,
+  LoggedSet,
+  loggedSetInclude,
+  WorkoutSessionWithDetails,
+  workoutSessionDetailsInclude,
+} from '../interfaces/workout-session-repository.interface';
+import { PaginatedResult } from '@/modules/users/interfaces/user-repository.interface';
+
+export class PrismaWorkoutSessionRepository implements IWorkoutSessionRepository {
+  async create(
+    memberId: string,
+    workoutId: string
+  ): Promise<WorkoutSessionWithDetails> {
+    return prisma.workoutSession.create({
+      data: {
+        memberId,
+        workoutId,
+      },
+      include: workoutSessionDetailsInclude,
+    });
+  }
+
+  async findById(id: string): Promise<WorkoutSessionWithDetails | null> {
+    return prisma.workoutSession.findUnique({
+      where: { id },
+      include: workoutSessionDetailsInclude,
+    });
+  }
+
+  async findInProgressByMember(
+    memberId: string
+  ): Promise<WorkoutSession | null> {
+    return prisma.workoutSession.findFirst({
+      where: {
+        memberId,
+        status: WorkoutSessionStatus.IN_PROGRESS,
+      },
+    });
+  }
+
+  async findManyByMember(
+    memberId: string,
+    page: number,
+    limit: number
+  ): Promise<PaginatedResult<WorkoutSessionWithDetails>> {
+    const skip = (page - 1) * limit;
+    const where = { memberId };
+
+    const [data, total] = await Promise.all([
+      prisma.workoutSession.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: {
+          startedAt: 'desc',
+        },
+        include: workoutSessionDetailsInclude,
+      }),
+      prisma.workoutSession.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async upsertSet(sessionId: string, data: LogSetData): Promise<WorkoutSetLog> {
+    const values = {
+      workoutExerciseId: data.workoutExerciseId,
+      weight: data.weight,
+      reps: data.reps,
+      rpe: data.rpe ?? null,
+    };
+
+    return prisma.workoutSetLog.upsert({
+      where: {
+        sessionId_exerciseId_setNumber: {
+          sessionId,
+          exerciseId: data.exerciseId,
+          setNumber: data.setNumber,
+        },
+      },
+      create: {
+        ...values,
+        sessionId,
+        exerciseId: data.exerciseId,
+        setNumber: data.setNumber,
+      },
+      update: values,
+    });
+  }
+
+  async findLastSetNumber(
+    sessionId: string,
+    exerciseId: string
+  ): Promise<number> {
+    const result = await prisma.workoutSetLog.aggregate({
+      where: { sessionId, exerciseId },
+      _max: { setNumber: true },
+    });
+
+    return result._max.setNumber ?? 0;
+  }
+
+  async deleteSet(setId: string): Promise<void> {
+    await prisma.workoutSetLog.delete({
+      where: { id: setId },
+    });
+  }
+
+  async findCompletedSetsByMember(
+    memberId: string,
+    filters: FindLoggedSetsFilters
+  ): Promise<LoggedSet[]> {
+    return prisma.workoutSetLog.findMany({
+      where: {
+        exerciseId: filters.exerciseId,
+        session: {
+          memberId,
+          status: WorkoutSessionStatus.COMPLETED,
+          startedAt: {
+            gte: filters.from,
+            lte: filters.to,
+          },
+        },
+      },
+      orderBy: [{ session: { startedAt: 'asc' } }, { setNumber: 'asc' }],
+      include: loggedSetInclude,
+    });
+  }
+
+  async finish(
+    id: string,
+    data: FinishWorkoutSessionData
+  ): Promise<WorkoutSessionWithDetails> {
+    return prisma.workoutSession.update({
+      where: { id },
+      data,
+      include: workoutSessionDetailsInclude,
+    });
+  }
+}
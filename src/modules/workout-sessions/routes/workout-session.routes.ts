@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { WorkoutSessionController } from '../controllers/workout-session.controller';
+import { authenticate } from '@/shared/middlewares/authenticate.middleware';
+import { authorize } from '@/shared/middlewares/authorize.middleware';
+import { Role } from '@prisma/client';
+
+const workoutSessionRouter = Router();
+const workoutSessionController = new WorkoutSessionController();
+
+/**
+ * Todas as rotas requerem autenticação
+ */
+workoutSessionRouter.use(authenticate);
+
+/**
+ * @route POST /api/workout-sessions
+ * @desc Iniciar sessão a partir de um treino próprio
+ * @access Private (membro dono do treino)
+ */
+workoutSessionRouter.post('/', workoutSessionController.start);
+
+/**
+ * @route GET /api/workout-sessions/me
+ * @desc Histórico de sessões do próprio membro
+ * @access Private (qualquer usuário autenticado)
+ */
+workoutSessionRouter.get('/me', workoutSessionController.listOwn);
+
+/**
+ * @route GET /api/workout-sessions/member/:memberId
+ * @desc Histórico de sessões de um membro
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutSessionRouter.get(
+  '/member/:memberId',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  workoutSessionController.listByMember
+);
+
+/**
+ * @route GET /api/workout-sessions/:id
+ * @desc Buscar sessão com as séries registradas
+ * @access Private (membro dono da sessão ou INSTRUCTOR/ADMIN)
+ */
+workoutSessionRouter.get('/:id', workoutSessionController.getById);
+
+/**
+ * @route POST /api/workout-sessions/:id/sets
+ * @desc Registrar (ou corrigir) série: carga, repetições e RPE
+ * @access Private (membro dono da sessão)
+ */
+workoutSessionRouter.post('/:id/sets', workoutSessionController.logSet);
+
+/**
+ * @route DELETE /api/workout-sessions/:id/sets/:setId
+ * @desc Remover série registrada por engano
+ * @access Private (membro dono da sessão)
+ */
+workoutSessionRouter.delete(
+  '/:id/sets/:setId',
+  workoutSessionController.deleteSet
+);
+
+/**
+ * @route PATCH /api/workout-sessions/:id/finish
+ * @desc Finalizar sessão
+ * @access Private (membro dono da sessão)
+ */
+workoutSessionRouter.patch('/:id/finish', workoutSessionController.finish);
+
+export { workoutSessionRouter };
@@ -0,0 +1,280 @@
+import 'dotenv/config';
+import { WorkoutSessionService } from '../workout-session.service';
+import { PrismaWorkoutSessionRepository } from '@/modules/workout-sessions/repositories/prisma-workout-session.repository';
+import { PrismaWorkoutRepository } from '@/modules/workouts/repositories/prisma-workout.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaExerciseRepository } from '@/modules/exercises/repositories/prisma-exercise.repository';
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { hashPassword } from '@/shared/utils/password.util';
+
+async function testWorkoutSessionService() {
+  console.log('🧪 Testando Workout Session Service...\n');
+
+  const userRepository = new PrismaUserRepository();
+  const exerciseRepository = new PrismaExerciseRepository();
+  const workoutRepository = new PrismaWorkoutRepository();
+  const sessionService = new WorkoutSessionService(
+    new PrismaWorkoutSessionRepository(),
+    workoutRepository,
+    userRepository
+  );
+
+  let testGymId: string | undefined;
+  const exerciseIds: string[] = [];
+
+  try {
+    // ========================================
+    // SETUP: Academia, instrutor, membros, exercícios e treino
+    // ========================================
+    console.log('🏗️  Setup: Criando dados de teste...');
+
+    const gym = await prisma.gym.create({
+      data: {
+        name: 'Academia Session Test',
+        slug: `session-test-${Date.now()}`,
+        email: `session-${Date.now()}@gym.com`,
+      },
+    });
+    testGymId = gym.id;
+
+    const passwordHash = await hashPassword('Senha123');
+
+    const instructor = await userRepository.create({
+      gymId: gym.id,
+      name: 'Instrutor Teste',
+      email: `instructor-${Date.now()}@test.com`,
+      passwordHash,
+      role: Role.INSTRUCTOR,
+    });
+
+    const [member, otherMember] = await Promise.all(
+      [1, 2].map(n =>
+        userRepository.create({
+          gymId: gym.id,
+          name: `Membro ${n}`,
+          email: `member-${n}-${Date.now()}@test.com`,
+          passwordHash,
+          role: Role.MEMBER,
+        })
+      )
+    );
+
+    const [benchPress, squat] = await Promise.all(
+      ['Supino', 'Agachamento'].map(name =>
+        exerciseRepository.create({
+          name: `${name} ${Date.now()}`,
+          muscleGroup: 'Teste',
+        })
+      )
+    );
+    exerciseIds.push(benchPress.id, squat.id);
+
+    const workout = await workoutRepository.create({
+      memberId: member.id,
+      instructorId: instructor.id,
+      name: 'Treino A',
+      exercises: [
+        { exerciseId: benchPress.id, sets: 3, reps: '10', order: 0 },
+        { exerciseId: squat.id, sets: 3, reps: '10', order: 1 },
+      ],
+    });
+    const [benchPressItem] = workout.exercises;
+
+    console.log(`   ✅ Dados criados\n`);
+
+    // ========================================
+    // TESTE 1: Iniciar sessão
+    // ========================================
+    console.log('1️⃣ Testando início de sessão...');
+    const session = await sessionService.start(
+      { workoutId: workout.id },
+      member.id,
+      gym.id
+    );
+    console.log(`   ✅ Sessão iniciada: ${session.status}\n`);
+
+    // ========================================
+    // TESTE 2: Segunda sessão em andamento
+    // ========================================
+    console.log('2️⃣ Testando segunda sessão simultânea...');
+    try {
+      await sessionService.start({ workoutId: workout.id }, member.id, gym.id);
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 3: Registrar séries (numeração automática)
+    // ========================================
+    console.log('3️⃣ Testando registro de séries...');
+    await sessionService.logSet(
+      session.id,
+      { workoutExerciseId: benchPressItem.id, weight: 60, reps: 10 },
+      member.id
+    );
+    const secondSet = await sessionService.logSet(
+      session.id,
+      { workoutExerciseId: benchPressItem.id, weight: 65, reps: 8, rpe: 8.5 },
+      member.id
+    );
+    console.log(
+      `   ${secondSet.setNumber === 2 ? '✅' : '❌'} Série ${secondSet.setNumber} registrada (${secondSet.weight}kg x ${secondSet.reps})\n`
+    );
+
+    // ========================================
+    // TESTE 4: Corrigir série existente
+    // ========================================
+    console.log('4️⃣ Testando correção de série...');
+    const corrected = await sessionService.logSet(
+      session.id,
+      {
+        workoutExerciseId: benchPressItem.id,
+        setNumber: 2,
+        weight: 62.5,
+        reps: 8,
+      },
+      member.id
+    );
+    const afterCorrection = await sessionService.getById(
+      session.id,
+      member.id,
+      Role.MEMBER,
+      gym.id
+    );
+    console.log(
+      `   ${afterCorrection.sets.length === 2 ? '✅' : '❌'} Série corrigida para ${corrected.weight}kg (${afterCorrection.sets.length} séries)\n`
+    );
+
+    // ========================================
+    // TESTE 5: Outro membro registrando série
+    // ========================================
+    console.log('5️⃣ Testando registro por outro membro...');
+    try {
+      await sessionService.logSet(
+        session.id,
+        { workoutExerciseId: benchPressItem.id, weight: 60, reps: 10 },
+        otherMember.id
+      );
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 6: Finalizar sessão
+    // ========================================
+    console.log('6️⃣ Testando finalização...');
+    const finished = await sessionService.finish(
+      session.id,
+      { notes: 'Bom treino' },
+      member.id
+    );
+    console.log(`   ✅ Sessão ${finished.status}\n`);
+
+    // ========================================
+    // TESTE 7: Registrar série em sessão finalizada
+    // ========================================
+    console.log('7️⃣ Testando série após finalização...');
+    try {
+      await sessionService.logSet(
+        session.id,
+        { workoutExerciseId: benchPressItem.id, weight: 60, reps: 10 },
+        member.id
+      );
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 8: Instrutor lendo histórico do membro
+    // ========================================
+    console.log('8️⃣ Testando histórico visto pelo instrutor...');
+    const history = await sessionService.listByMember(
+      member.id,
+      { page: 1, limit: 10 },
+      Role.INSTRUCTOR,
+      gym.id
+    );
+    console.log(`   ✅ ${history.meta.total} sessão(ões) encontrada(s)\n`);
+
+    // ========================================
+    // TESTE 9: Membro lendo sessão de outro membro
+    // ========================================
+    console.log('9️⃣ Testando membro ler sessão alheia...');
+    try {
+      await sessionService.getById(
+        session.id,
+        otherMember.id,
+        Role.MEMBER,
+        gym.id
+      );
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 10: Registrar série após remover uma do meio
+    // ========================================
+    console.log('🔟 Testando numeração após remover série...');
+    const nextSession = await sessionService.start(
+      { workoutId: workout.id },
+      member.id,
+      gym.id
+    );
+    for (const weight of [50, 55, 60]) {
+      await sessionService.logSet(
+        nextSession.id,
+        { workoutExerciseId: benchPressItem.id, weight, reps: 10 },
+        member.id
+      );
+    }
+    const beforeDelete = await sessionService.getById(
+      nextSession.id,
+      member.id,
+      Role.MEMBER,
+      gym.id
+    );
+    const middleSet = beforeDelete.sets.find(set => set.setNumber === 2)!;
+    await sessionService.deleteSet(nextSession.id, middleSet.id, member.id);
+    const newSet = await sessionService.logSet(
+      nextSession.id,
+      { workoutExerciseId: benchPressItem.id, weight: 65, reps: 8 },
+      member.id
+    );
+    const afterDelete = await sessionService.getById(
+      nextSession.id,
+      member.id,
+      Role.MEMBER,
+      gym.id
+    );
+    const thirdSet = afterDelete.sets.find(set => set.setNumber === 3);
+    console.log(
+      `   ${newSet.setNumber === 4 ? '✅' : '❌'} Nova série registrada como ${newSet.setNumber}`
+    );
+    console.log(
+      `   ${afterDelete.sets.length === 3 && Number(thirdSet?.weight) === 60 ? '✅' : '❌'} Série 3 preservada (${thirdSet?.weight}kg)\n`
+    );
+
+    console.log('✅ Todos os testes do Workout Session Service passaram!\n');
+  } catch (error) {
+    console.error('❌ Erro nos testes:', error);
+  } finally {
+    // ========================================
+    // CLEANUP (cascade remove usuários, treinos e sessões)
+    // ========================================
+    console.log('🧹 Limpando dados...');
+    if (testGymId) {
+      await prisma.gym.delete({ where: { id: testGymId } }).catch(() => {});
+    }
+    await prisma.exercise.deleteMany({ where: { id: { in: exerciseIds } } });
+    console.log('   ✅ Dados limpos');
+    await prisma.$disconnect();
+    console.log('   ✅ Conexão encerrada\n');
+  }
+}
+
+testWorkoutSessionService();
@@ -0,0 +1,259 @@
+import { Role, WorkoutSessionStatus, WorkoutSetLog } from '@prisma/client';
+import {
+  IWorkoutSessionRepository,
+  WorkoutSessionWithDetails,
+} from '../interfaces/workout-session-repository.interface';
+import { IWorkoutRepository } from '@/modules/workouts/interfaces/workout-repository.interface';
+import {
+  IUserRepository,
+  PaginatedResult,
+} from '@/modules/users/interfaces/user-repository.interface';
+import { AppError } from '@/shared/errors/app-error';
+import {
+  StartWorkoutSessionDTO,
+  LogSetDTO,
+  FinishWorkoutSessionDTO,
+  ListWorkoutSessionsDTO,
+} from '../dtos/workout-session.dto';
+
+/**
+ * Service de Sessões de Treino
+ * Registro do que o membro realmente executou (carga, repetições e RPE)
+ */
+export class WorkoutSessionService {
+  constructor(
+    private workoutSessionRepository: IWorkoutSessionRepository,
+    private workoutRepository: IWorkoutRepository,
+    private userRepository: IUserRepository
+  ) {}
+
+  /**
+   * Iniciar sessão a partir de um treino próprio
+   * Permissões: Membro dono do treino
+   */
+  async start(
+    data: StartWorkoutSessionDTO,
+    requestingUserId: string,
+    requestingUserGymId: string
+  ): Promise<WorkoutSessionWithDetails> {
+    const workout = await this.workoutRepository.findById(data.workoutId);
+
+    if (!workout) {
+      throw new AppError('Treino não encontrado', 404);
+    }
+
+    if (
+      workout.memberId !== requestingUserId ||
+      workout.member.gymId !== requestingUserGymId
+    ) {
+      throw new AppError(
+        'Só é possível iniciar sessões dos próprios treinos',
+        403
+      );
+    }
+
+    if (!workout.isActive) {
+      throw new AppError('Treino inativo', 400);
+    }
+
+    // Apenas uma sessão em andamento por membro
+    const inProgress =
+      await this.workoutSessionRepository.findInProgressByMember(
+        requestingUserId
+      );
+
+    if (inProgress) {
+      throw new AppError(
+        'Já existe uma sessão em andamento. Finalize-a antes de iniciar outra',
+        409,
+        true,
+        { sessionId: inProgress.id }
+      );
+    }
+
+    return this.workoutSessionRepository.create(requestingUserId, workout.id);
+  }
+
+  /**
+   * Registrar série de um exercício do treino
+   * Permissões: Membro dono da sessão
+   */
+  async logSet(
+    sessionId: string,
+    data: LogSetDTO,
+    requestingUserId: string
+  ): Promise<WorkoutSetLog> {
+    const session = await this.findOwnSessionInProgress(
+      sessionId,
+      requestingUserId
+    );
+
+    const workout = await this.workoutRepository.findById(session.workoutId);
+    const workoutExercise = workout?.exercises.find(
+      item => item.id === data.workoutExerciseId
+    );
+
+    if (!workoutExercise) {
+      throw new AppError('Exercício não encontrado no treino da sessão', 404);
+    }
+
+    // Próxima série após a maior já registrada (não a contagem: após remover
+    // uma série do meio, a contagem apontaria para uma série existente)
+    const setNumber =
+      data.setNumber ??
+      (await this.workoutSessionRepository.findLastSetNumber(
+        session.id,
+        workoutExercise.exerciseId
+      )) + 1;
+
+    return this.workoutSessionRepository.upsertSet(session.id, {
+      workoutExerciseId: workoutExercise.id,
+      exerciseId: workoutExercise.exerciseId,
+      setNumber,
+      weight: data.weight,
+      reps: data.reps,
+      rpe: data.rpe,
+    });
+  }
+
+  /**
+   * Remover série registrada por engano
+   * Permissões: Membro dono da sessão
+   */
+  async deleteSet(
+    sessionId: string,
+    setId: string,
+    requestingUserId: string
+  ): Promise<void> {
+    const session = await this.findOwnSessionInProgress(
+      sessionId,
+      requestingUserId
+    );
+
+    if (!session.sets.some(set => set.id === setId)) {
+      throw new AppError('Série não encontrada na sessão', 404);
+    }
+
+    await this.workoutSessionRepository.deleteSet(setId);
+  }
+
+  /**
+   * Finalizar sessão
+   * Permissões: Membro dono da sessão
+   */
+  async finish(
+    sessionId: string,
+    data: FinishWorkoutSessionDTO,
+    requestingUserId: string
+  ): Promise<WorkoutSessionWithDetails> {
+    await this.findOwnSessionInProgress(sessionId, requestingUserId);
+
+    return this.workoutSessionRepository.finish(sessionId, {
+      status: WorkoutSessionStatus.COMPLETED,
+      finishedAt: new Date(),
+      notes: data.notes,
+    });
+  }
+
+  /**
+   * Buscar sessão por ID
+   * Permissões: Membro dono da sessão ou INSTRUCTOR/ADMIN
+   */
+  async getById(
+    sessionId: string,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutSessionWithDetails> {
+    const session = await this.workoutSessionRepository.findById(sessionId);
+
+    if (!session) {
+      throw new AppError('Sessão não encontrada', 404);
+    }
+
+    if (session.member.gymId !== requestingUserGymId) {
+      throw new AppError('Sessão de outra academia', 403);
+    }
+
+    const isOwner = session.memberId === requestingUserId;
+
+    if (!isOwner && requestingUserRole === Role.MEMBER) {
+      throw new AppError('Sem permissão para visualizar esta sessão', 403);
+    }
+
+    return session;
+  }
+
+  /**
+   * Histórico de sessões do próprio membro
+   * Permissões: Qualquer usuário autenticado
+   */
+  async listOwn(
+    filters: ListWorkoutSessionsDTO,
+    requestingUserId: string
+  ): Promise<PaginatedResult<WorkoutSessionWithDetails>> {
+    return this.workoutSessionRepository.findManyByMember(
+      requestingUserId,
+      filters.page,
+      filters.limit
+    );
+  }
+
+  /**
+   * Histórico de sessões de um membro
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async listByMember(
+    memberId: string,
+    filters: ListWorkoutSessionsDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<PaginatedResult<WorkoutSessionWithDetails>> {
+    if (requestingUserRole === Role.MEMBER) {
+      throw new AppError(
+        'Sem permissão para visualizar sessões de outros membros',
+        403
+      );
+    }
+
+    const member = await this.userRepository.findById(memberId);
+
+    if (!member) {
+      throw new AppError('Membro não encontrado', 404);
+    }
+
+    if (member.gymId !== requestingUserGymId) {
+      throw new AppError('Membro de outra academia', 403);
+    }
+
+    return this.workoutSessionRepository.findManyByMember(
+      memberId,
+      filters.page,
+      filters.limit
+    );
+  }
+
+  /**
+   * Buscar sessão do próprio membro que ainda esteja em andamento
+   */
+  private async findOwnSessionInProgress(
+    sessionId: string,
+    requestingUserId: string
+  ): Promise<WorkoutSessionWithDetails> {
+    const session = await this.workoutSessionRepository.findById(sessionId);
+
+    if (!session) {
+      throw new AppError('Sessão não encontrada', 404);
+    }
+
+    if (session.memberId !== requestingUserId) {
+      throw new AppError('Sessão de outro membro', 403);
+    }
+
+    if (session.status !== WorkoutSessionStatus.IN_PROGRESS) {
+      throw new AppError('Sessão já finalizada', 400);
+    }
+
+    return session;
+  }
+}
@@ -0,0 +1,225 @@
+import { Request, Response, NextFunction } from 'express';
+import { WorkoutTemplateService } from '../services/workout-template.service';
+import { PrismaWorkoutTemplateRepository } from '../repositories/prisma-workout-template.repository';
+import { PrismaWorkoutRepository } from '@/modules/workouts/repositories/prisma-workout.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaExerciseRepository } from '@/modules/exercises/repositories/prisma-exercise.repository';
+import {
+  createWorkoutTemplateSchema,
+  updateWorkoutTemplateSchema,
+  assignWorkoutTemplateSchema,
+  listWorkoutTemplatesFiltersSchema,
+} from '../dtos/workout-template.dto';
+import { Role } from '@prisma/client';
+
+/**
+ * Controller de Modelos de Treino
+ * Gerencia requisições HTTP relacionadas a modelos de treino
+ */
+export class WorkoutTemplateController {
+  private workoutTemplateService: WorkoutTemplateService;
+
+  constructor() {
+    const workoutTemplateRepository = new PrismaWorkoutTemplateRepository();
+    const workoutRepository = new PrismaWorkoutRepository();
+    const userRepository = new PrismaUserRepository();
+    const exerciseRepository = new PrismaExerciseRepository();
+    this.workoutTemplateService = new WorkoutTemplateService(
+      workoutTemplateRepository,
+      workoutRepository,
+      userRepository,
+      exerciseRepository
+    );
+  }
+
+  /**
+   * POST /api/workout-templates
+   * Criar modelo de treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  create = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = createWorkoutTemplateSchema.parse(req.body);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const template = await this.workoutTemplateService.create(
+        data,
+        userRole,
+        gymId
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Modelo de treino criado com sucesso',
+        data: { template },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/workout-templates
+   * Listar modelos da academia
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  list = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const filters = listWorkoutTemplatesFiltersSchema.parse(req.query);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const templates = await this.workoutTemplateService.list(
+        filters,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: { templates },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/workout-templates/:id
+   * Buscar modelo por ID
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  getById = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const template = await this.workoutTemplateService.getById(
+        id,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: { template },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/workout-templates/:id
+   * Atualizar modelo
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  update = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const data = updateWorkoutTemplateSchema.parse(req.body);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const template = await this.workoutTemplateService.update(
+        id,
+        data,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Modelo de treino atualizado com sucesso',
+        data: { template },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/workout-templates/:id
+   * Deletar modelo
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  delete = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      await this.workoutTemplateService.delete(id, userRole, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Modelo de treino deletado com sucesso',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/workout-templates/:id/assign
+   * Atribuir modelo a membros
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  assign = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const data = assignWorkoutTemplateSchema.parse(req.body);
+
+      const userId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const workouts = await this.workoutTemplateService.assign(
+        id,
+        data,
+        userId,
+        userRole,
+        gymId
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: `Modelo atribuído a ${workouts.length} membro(s)`,
+        data: { workouts },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
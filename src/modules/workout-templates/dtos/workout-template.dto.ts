@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { addWorkoutExerciseSchema } from '@/modules/workouts/dtos/workout.dto';
+
+/**
+ * Campos base de um modelo de treino
+ */
+const workoutTemplateFields = {
+  name: z
+    .string()
+    .min(2, 'Nome do modelo deve ter pelo menos 2 caracteres')
+    .max(100, 'Nome do modelo deve ter no máximo 100 caracteres')
+    .trim(),
+
+  description: z
+    .string()
+    .max(500, 'Descrição deve ter no máximo 500 caracteres')
+    .optional(),
+
+  // Exercícios na ordem de execução
+  exercises: z
+    .array(addWorkoutExerciseSchema)
+    .min(1, 'O modelo deve ter pelo menos um exercício'),
+};
+
+/**
+ * DTO para criar modelo de treino
+ */
+export const createWorkoutTemplateSchema = z.object(workoutTemplateFields);
+
+/**
+ * DTO para atualizar modelo de treino
+ * (exercises substitui a lista inteira; treinos já atribuídos não mudam)
+ */
+export const updateWorkoutTemplateSchema = z.object({
+  name: workoutTemplateFields.name.optional(),
+  description: workoutTemplateFields.description.nullable(),
+  exercises: workoutTemplateFields.exercises.optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * DTO para atribuir modelo a membros
+ */
+export const assignWorkoutTemplateSchema = z.object({
+  memberIds: z
+    .array(z.string().uuid('ID de membro inválido'))
+    .min(1, 'Informe pelo menos um membro')
+    .max(50, 'Máximo de 50 membros por atribuição'),
+
+  // Opcional: nome do treino (padrão: nome do modelo)
+  name: workoutTemplateFields.name.optional(),
+
+  startDate: z
+    .string()
+    .datetime('Data de início inválida')
+    .transform(val => new Date(val))
+    .optional(),
+
+  endDate: z
+    .string()
+    .datetime('Data de término inválida')
+    .transform(val => new Date(val))
+    .optional(),
+});
+
+/**
+ * DTO para filtros de listagem
+ */
+export const listWorkoutTemplatesFiltersSchema = z.object({
+  isActive: z
+    .string()
+    .transform(val => val === 'true')
+    .optional(),
+
+  search: z.string().trim().optional(),
+});
+
+/**
+ * Tipos inferidos
+ */
+export type CreateWorkoutTemplateDTO = z.infer<
+  typeof createWorkoutTemplateSchema
+>;
+export type UpdateWorkoutTemplateDTO = z.infer<
+  typeof updateWorkoutTemplateSchema
+>;
+export type AssignWorkoutTemplateDTO = z.infer<
+  typeof assignWorkoutTemplateSchema
+>;
+export type ListWorkoutTemplatesFiltersDTO = z.infer<
+  typeof listWorkoutTemplatesFiltersSchema
+>;
@@ -0,0 +1,106 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Relações carregadas junto com o modelo
+ * (exercícios sempre na ordem de execução)
+ */
+export const workoutTemplateDetailsInclude = {
+  exercises: {
+    orderBy: { order: 'asc' },
+    include: { exercise: true },
+  },
+} satisfies Prisma.WorkoutTemplateInclude;
+
+/**
+ * Modelo de treino com exercícios
+ */
+export type WorkoutTemplateWithExercises = Prisma.WorkoutTemplateGetPayload<{
+  include: typeof workoutTemplateDetailsInclude;
+}>;
+
+/**
+ * Dados de um exercício dentro do modelo
+ */
+export interface WorkoutTemplateExerciseData {
+  exerciseId: string;
+  sets: number;
+  reps: string;
+  restTime?: number;
+  notes?: string;
+  order: number;
+}
+
+/**
+ * DTO para criar modelo de treino
+ */
+export interface CreateWorkoutTemplateData {
+  gymId: string;
+  name: string;
+  description?: string;
+  exercises: WorkoutTemplateExerciseData[];
+}
+
+/**
+ * DTO para atualizar modelo de treino
+ * (exercises substitui a lista inteira de exercícios)
+ */
+export interface UpdateWorkoutTemplateData {
+  name?: string;
+  description?: string | null;
+  isActive?: boolean;
+  exercises?: WorkoutTemplateExerciseData[];
+}
+
+/**
+ * Filtros para listagem de modelos
+ */
+export interface FindWorkoutTemplatesFilters {
+  gymId: string;
+  isActive?: boolean;
+  search?: string;
+}
+
+/**
+ * Interface do Repository de Modelos de Treino
+ */
+export interface IWorkoutTemplateRepository {
+  /**
+   * Criar modelo com exercícios
+   */
+  create(
+    data: CreateWorkoutTemplateData
+  ): Promise<WorkoutTemplateWithExercises>;
+
+  /**
+   * Buscar modelo por ID (com exercícios)
+   */
+  findById(id: string): Promise<WorkoutTemplateWithExercises | null>;
+
+  /**
+   * Buscar modelo pelo nome dentro da academia
+   */
+  findByNameAndGymId(
+    name: string,
+    gymId: string
+  ): Promise<WorkoutTemplateWithExercises | null>;
+
+  /**
+   * Listar modelos da academia
+   */
+  findMany(
+    filters: FindWorkoutTemplatesFilters
+  ): Promise<WorkoutTemplateWithExercises[]>;
+
+  /**
+   * Atualizar modelo (substituindo exercícios, se informados)
+   */
+  update(
+    id: string,
+    data: UpdateWorkoutTemplateData
+  ): Promise<WorkoutTemplateWithExercises>;
+
+  /**
+   * Deletar modelo (treinos já atribuídos são mantidos)
+   */
+  delete(id: string): Promise<void>;
+}
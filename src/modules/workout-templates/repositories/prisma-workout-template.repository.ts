@@ -0,0 +1,102 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IWorkoutTemplateRepository,
+  CreateWorkoutTemplateData,
+  UpdateWorkoutTemplateData,
+  FindWorkoutTemplatesFilters,
+  WorkoutTemplateWithExercises,
+  workoutTemplateDetailsInclude,
+} from '../interfaces/workout-template-repository.interface';
+
+export class PrismaWorkoutTemplateRepository implements IWorkoutTemplateRepository {
+  async create(
+    data: CreateWorkoutTemplateData
+  ): Promise<WorkoutTemplateWithExercises> {
+    const { exercises, ...templateData } = data;
+
+    return prisma.workoutTemplate.create({
+      data: {
+        ...templateData,
+        exercises: {
+          create: exercises,
+        },
+      },
+      include: workoutTemplateDetailsInclude,
+    });
+  }
+
+  async findById(id: string): Promise<WorkoutTemplateWithExercises | null> {
+    return prisma.workoutTemplate.findUnique({
+      where: { id },
+      include: workoutTemplateDetailsInclude,
+    });
+  }
+
+  async findByNameAndGymId(
+    name: string,
+    gymId: string
+  ): Promise<WorkoutTemplateWithExercises | null> {
+    return prisma.workoutTemplate.findUnique({
+      where: {
+        gymId_name: {
+          gymId,
+          name,
+        },
+      },
+      include: workoutTemplateDetailsInclude,
+    });
+  }
+
+  async findMany(
+    filters: FindWorkoutTemplatesFilters
+  ): Promise<WorkoutTemplateWithExercises[]> {
+    const where: Prisma.WorkoutTemplateWhereInput = {
+      gymId: filters.gymId,
+    };
+
+    // Filtro por status (ativo/inativo)
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive;
+    }
+
+    // Busca por nome
+    if (filters.search) {
+      where.name = { contains: filters.search, mode: 'insensitive' };
+    }
+
+    return prisma.workoutTemplate.findMany({
+      where,
+      orderBy: {
+        name: 'asc',
+      },
+      include: workoutTemplateDetailsInclude,
+    });
+  }
+
+  async update(
+    id: string,
+    data: UpdateWorkoutTemplateData
+  ): Promise<WorkoutTemplateWithExercises> {
+    const { exercises, ...templateData } = data;
+
+    // Escrita aninhada: a troca dos exercícios é atômica
+    return prisma.workoutTemplate.update({
+      where: { id },
+      data: {
+        ...templateData,
+        exercises: exercises && {
+          deleteMany: {},
+          create: exercises,
+        },
+      },
+      include: workoutTemplateDetailsInclude,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await prisma.workoutTemplate.delete({
+      where: { id },
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { WorkoutTemplateController } from '../controllers/workout-template.controller';
+import { authenticate } from '@/shared/middlewares/authenticate.middleware';
+import { authorize } from '@/shared/middlewares/authorize.middleware';
+import { Role } from '@prisma/client';
+
+const workoutTemplateRouter = Router();
+const workoutTemplateController = new WorkoutTemplateController();
+
+/**
+ * Todas as rotas requerem autenticação de INSTRUCTOR ou ADMIN
+ */
+workoutTemplateRouter.use(
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN])
+);
+
+/**
+ * @route POST /api/workout-templates
+ * @desc Criar modelo de treino
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutTemplateRouter.post('/', workoutTemplateController.create);
+
+/**
+ * @route GET /api/workout-templates
+ * @desc Listar modelos da academia
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutTemplateRouter.get('/', workoutTemplateController.list);
+
+/**
+ * @route GET /api/workout-templates/:id
+ * @desc Buscar modelo por ID
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutTemplateRouter.get('/:id', workoutTemplateController.getById);
+
+/**
+ * @route PATCH /api/workout-templates/:id
+ * @desc Atualizar modelo (não altera treinos já atribuídos)
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutTemplateRouter.patch('/:id', workoutTemplateController.update);
+
+/**
+ * @route DELETE /api/workout-templates/:id
+ * @desc Deletar modelo (treinos já atribuídos são mantidos)
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutTemplateRouter.delete('/:id', workoutTemplateController.delete);
+
+/**
+ * @route POST /api/workout-templates/:id/assign
+ * @desc Atribuir modelo a membros (cria um treino por membro)
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutTemplateRouter.post('/:id/assign', workoutTemplateController.assign);
+
+export { workoutTemplateRouter };
@@ -0,0 +1,204 @@
+import 'dotenv/config';
+import { WorkoutTemplateService } from '../workout-template.service';
+import { PrismaWorkoutTemplateRepository } from '@/modules/workout-templates/repositories/prisma-workout-template.repository';
+import { PrismaWorkoutRepository } from '@/modules/workouts/repositories/prisma-workout.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaExerciseRepository } from '@/modules/exercises/repositories/prisma-exercise.repository';
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { hashPassword } from '@/shared/utils/password.util';
+
+async function testWorkoutTemplateService() {
+  console.log('🧪 Testando Workout Template Service...\n');
+
+  const userRepository = new PrismaUserRepository();
+  const exerciseRepository = new PrismaExerciseRepository();
+  const workoutRepository = new PrismaWorkoutRepository();
+  const templateService = new WorkoutTemplateService(
+    new PrismaWorkoutTemplateRepository(),
+    workoutRepository,
+    userRepository,
+    exerciseRepository
+  );
+
+  let testGymId: string | undefined;
+  const exerciseIds: string[] = [];
+
+  try {
+    // ========================================
+    // SETUP: Academia, instrutor, membros e exercícios
+    // ========================================
+    console.log('🏗️  Setup: Criando dados de teste...');
+
+    const gym = await prisma.gym.create({
+      data: {
+        name: 'Academia Template Test',
+        slug: `template-test-${Date.now()}`,
+        email: `template-${Date.now()}@gym.com`,
+      },
+    });
+    testGymId = gym.id;
+
+    const passwordHash = await hashPassword('Senha123');
+
+    const instructor = await userRepository.create({
+      gymId: gym.id,
+      name: 'Instrutor Teste',
+      email: `instructor-${Date.now()}@test.com`,
+      passwordHash,
+      role: Role.INSTRUCTOR,
+    });
+
+    const members = await Promise.all(
+      [1, 2, 3].map(n =>
+        userRepository.create({
+          gymId: gym.id,
+          name: `Membro ${n}`,
+          email: `member-${n}-${Date.now()}@test.com`,
+          passwordHash,
+          role: Role.MEMBER,
+        })
+      )
+    );
+
+    const [benchPress, squat, run] = await Promise.all(
+      ['Supino', 'Agachamento', 'Corrida'].map(name =>
+        exerciseRepository.create({
+          name: `${name} ${Date.now()}`,
+          muscleGroup: 'Teste',
+        })
+      )
+    );
+    exerciseIds.push(benchPress.id, squat.id, run.id);
+
+    console.log(`   ✅ Dados criados\n`);
+
+    // ========================================
+    // TESTE 1: Criar modelo
+    // ========================================
+    console.log('1️⃣ Testando criação de modelo...');
+    const template = await templateService.create(
+      {
+        name: 'Iniciante A',
+        exercises: [
+          { exerciseId: benchPress.id, sets: 3, reps: '12', restTime: 60 },
+          { exerciseId: squat.id, sets: 3, reps: '12', restTime: 60 },
+        ],
+      },
+      Role.INSTRUCTOR,
+      gym.id
+    );
+    console.log(
+      `   ✅ Modelo criado com ${template.exercises.length} exercícios\n`
+    );
+
+    // ========================================
+    // TESTE 2: Atribuir a vários membros
+    // ========================================
+    console.log('2️⃣ Testando atribuição a 3 membros...');
+    const workouts = await templateService.assign(
+      template.id,
+      { memberIds: members.map(member => member.id) },
+      instructor.id,
+      Role.INSTRUCTOR,
+      gym.id
+    );
+    console.log(
+      `   ${workouts.length === 3 ? '✅' : '❌'} ${workouts.length} treinos criados\n`
+    );
+
+    // ========================================
+    // TESTE 3: Membro inválido desfaz a atribuição toda
+    // ========================================
+    console.log('3️⃣ Testando atribuição com membro inválido...');
+    try {
+      await templateService.assign(
+        template.id,
+        { memberIds: [members[0].id, instructor.id] },
+        instructor.id,
+        Role.INSTRUCTOR,
+        gym.id
+      );
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      const count = await prisma.workout.count({
+        where: { templateId: template.id },
+      });
+      console.log(`   ✅ Bloqueado: ${error.message} (treinos: ${count})\n`);
+    }
+
+    // ========================================
+    // TESTE 4: Editar modelo não altera treinos atribuídos
+    // ========================================
+    console.log('4️⃣ Testando edição do modelo...');
+    await templateService.update(
+      template.id,
+      {
+        exercises: [{ exerciseId: run.id, sets: 1, reps: '20 min' }],
+      },
+      Role.INSTRUCTOR,
+      gym.id
+    );
+    const assigned = await workoutRepository.findById(workouts[0].id);
+    console.log(
+      `   ${assigned?.exercises.length === 2 ? '✅' : '❌'} Treino atribuído mantém ${assigned?.exercises.length} exercícios\n`
+    );
+
+    // ========================================
+    // TESTE 5: Membro tentando criar modelo
+    // ========================================
+    console.log('5️⃣ Testando membro criar modelo...');
+    try {
+      await templateService.create(
+        {
+          name: 'Modelo do Membro',
+          exercises: [{ exerciseId: run.id, sets: 1, reps: '10' }],
+        },
+        Role.MEMBER,
+        gym.id
+      );
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 6: Instrutor inativo tentando atribuir
+    // ========================================
+    console.log('6️⃣ Testando atribuição por instrutor inativo...');
+    await prisma.user.update({
+      where: { id: instructor.id },
+      data: { isActive: false },
+    });
+    try {
+      await templateService.assign(
+        template.id,
+        { memberIds: [members[0].id] },
+        instructor.id,
+        Role.INSTRUCTOR,
+        gym.id
+      );
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    console.log('✅ Todos os testes do Workout Template Service passaram!\n');
+  } catch (error) {
+    console.error('❌ Erro nos testes:', error);
+  } finally {
+    // ========================================
+    // CLEANUP (cascade remove usuários, treinos e modelos)
+    // ========================================
+    console.log('🧹 Limpando dados...');
+    if (testGymId) {
+      await prisma.gym.delete({ where: { id: testGymId } }).catch(() => {});
+    }
+    await prisma.exercise.deleteMany({ where: { id: { in: exerciseIds } } });
+    console.log('   ✅ Dados limpos');
+    await prisma.$disconnect();
+    console.log('   ✅ Conexão encerrada\n');
+  }
+}
+
+testWorkoutTemplateService();
@@ -0,0 +1,294 @@
+import { Role, User } from '@prisma/client';
+import {
+  IWorkoutTemplateRepository,
+  WorkoutTemplateWithExercises,
+  WorkoutTemplateExerciseData,
+} from '../interfaces/workout-template-repository.interface';
+import {
+  IWorkoutRepository,
+  WorkoutWithDetails,
+} from '@/modules/workouts/interfaces/workout-repository.interface';
+import { IUserRepository } from '@/modules/users/interfaces/user-repository.interface';
+import { IExerciseRepository } from '@/modules/exercises/interfaces/exercise-repository.interface';
+import { AddWorkoutExerciseDTO } from '@/modules/workouts/dtos/workout.dto';
+import { AppError } from '@/shared/errors/app-error';
+import {
+  CreateWorkoutTemplateDTO,
+  UpdateWorkoutTemplateDTO,
+  AssignWorkoutTemplateDTO,
+  ListWorkoutTemplatesFiltersDTO,
+} from '../dtos/workout-template.dto';
+
+/**
+ * Service de Modelos de Treino
+ * Rotinas reaproveitáveis que são copiadas para os treinos dos membros
+ */
+export class WorkoutTemplateService {
+  constructor(
+    private workoutTemplateRepository: IWorkoutTemplateRepository,
+    private workoutRepository: IWorkoutRepository,
+    private userRepository: IUserRepository,
+    private exerciseRepository: IExerciseRepository
+  ) {}
+
+  /**
+   * Criar modelo de treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async create(
+    data: CreateWorkoutTemplateDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutTemplateWithExercises> {
+    this.ensureStaff(requestingUserRole);
+
+    await this.ensureNameAvailable(data.name, requestingUserGymId);
+
+    return this.workoutTemplateRepository.create({
+      ...data,
+      gymId: requestingUserGymId,
+      exercises: await this.buildExercises(data.exercises, requestingUserGymId),
+    });
+  }
+
+  /**
+   * Listar modelos da academia
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async list(
+    filters: ListWorkoutTemplatesFiltersDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutTemplateWithExercises[]> {
+    this.ensureStaff(requestingUserRole);
+
+    // Forçar filtro por academia
+    return this.workoutTemplateRepository.findMany({
+      ...filters,
+      gymId: requestingUserGymId,
+    });
+  }
+
+  /**
+   * Buscar modelo por ID
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async getById(
+    templateId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutTemplateWithExercises> {
+    this.ensureStaff(requestingUserRole);
+
+    return this.findTemplateInGym(templateId, requestingUserGymId);
+  }
+
+  /**
+   * Atualizar modelo
+   * Treinos já atribuídos são cópias e não são alterados
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async update(
+    templateId: string,
+    data: UpdateWorkoutTemplateDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutTemplateWithExercises> {
+    this.ensureStaff(requestingUserRole);
+
+    const template = await this.findTemplateInGym(
+      templateId,
+      requestingUserGymId
+    );
+
+    if (data.name && data.name !== template.name) {
+      await this.ensureNameAvailable(data.name, requestingUserGymId);
+    }
+
+    return this.workoutTemplateRepository.update(templateId, {
+      ...data,
+      exercises:
+        data.exercises &&
+        (await this.buildExercises(data.exercises, requestingUserGymId)),
+    });
+  }
+
+  /**
+   * Deletar modelo
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async delete(
+    templateId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<void> {
+    this.ensureStaff(requestingUserRole);
+
+    await this.findTemplateInGym(templateId, requestingUserGymId);
+
+    await this.workoutTemplateRepository.delete(templateId);
+  }
+
+  /**
+   * Atribuir modelo a membros
+   * Cria um treino (cópia dos exercícios) por membro, em uma única transação
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async assign(
+    templateId: string,
+    data: AssignWorkoutTemplateDTO,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutWithDetails[]> {
+    this.ensureStaff(requestingUserRole);
+
+    const instructor = await this.userRepository.findById(requestingUserId);
+
+    if (!instructor || !instructor.isActive) {
+      throw new AppError('Instrutor não encontrado ou inativo', 403);
+    }
+
+    if (instructor.gymId !== requestingUserGymId) {
+      throw new AppError('Instrutor de outra academia', 403);
+    }
+
+    const template = await this.findTemplateInGym(
+      templateId,
+      requestingUserGymId
+    );
+
+    if (!template.isActive) {
+      throw new AppError('Modelo inativo não pode ser atribuído', 400);
+    }
+
+    if (data.startDate && data.endDate && data.endDate <= data.startDate) {
+      throw new AppError('Data de término deve ser após a data de início', 400);
+    }
+
+    const memberIds = [...new Set(data.memberIds)];
+    const members: User[] = [];
+
+    for (const memberId of memberIds) {
+      members.push(await this.findMemberInGym(memberId, requestingUserGymId));
+    }
+
+    // Copiar exercícios: edições futuras do modelo não afetam estes treinos
+    const exercises = template.exercises.map((item, index) => ({
+      exerciseId: item.exerciseId,
+      sets: item.sets,
+      reps: item.reps,
+      restTime: item.restTime ?? undefined,
+      notes: item.notes ?? undefined,
+      order: index,
+    }));
+
+    return this.workoutRepository.createMany(
+      members.map(member => ({
+        memberId: member.id,
+        instructorId: instructor.id,
+        templateId: template.id,
+        name: data.name ?? template.name,
+        description: template.description ?? undefined,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        exercises,
+      }))
+    );
+  }
+
+  /**
+   * Validar exercícios e definir a ordem pela posição na lista
+   */
+  private async buildExercises(
+    exercises: AddWorkoutExerciseDTO[],
+    gymId: string
+  ): Promise<WorkoutTemplateExerciseData[]> {
+    const exerciseIds = exercises.map(exercise => exercise.exerciseId);
+
+    if (new Set(exerciseIds).size !== exerciseIds.length) {
+      throw new AppError('Exercício repetido no modelo', 400);
+    }
+
+    for (const exerciseId of exerciseIds) {
+      // Catálogo global ou exercício da própria academia
+      const exercise = await this.exerciseRepository.findAvailableById(
+        exerciseId,
+        gymId
+      );
+
+      if (!exercise) {
+        throw new AppError('Exercício não encontrado', 404);
+      }
+    }
+
+    return exercises.map((exercise, index) => ({
+      ...exercise,
+      order: index,
+    }));
+  }
+
+  /**
+   * Buscar modelo garantindo que pertence à academia
+   */
+  private async findTemplateInGym(
+    templateId: string,
+    gymId: string
+  ): Promise<WorkoutTemplateWithExercises> {
+    const template = await this.workoutTemplateRepository.findById(templateId);
+
+    if (!template) {
+      throw new AppError('Modelo de treino não encontrado', 404);
+    }
+
+    if (template.gymId !== gymId) {
+      throw new AppError('Modelo de treino de outra academia', 403);
+    }
+
+    return template;
+  }
+
+  /**
+   * Validar que o membro existe, está ativo e pertence à academia
+   */
+  private async findMemberInGym(
+    memberId: string,
+    gymId: string
+  ): Promise<User> {
+    const member = await this.userRepository.findById(memberId);
+
+    if (!member) {
+      throw new AppError(`Membro ${memberId} não encontrado`, 404);
+    }
+
+    if (member.gymId !== gymId) {
+      throw new AppError(`Membro ${memberId} é de outra academia`, 403);
+    }
+
+    if (member.role !== Role.MEMBER || !member.isActive) {
+      throw new AppError(`Usuário ${memberId} não é um membro ativo`, 400);
+    }
+
+    return member;
+  }
+
+  private async ensureNameAvailable(
+    name: string,
+    gymId: string
+  ): Promise<void> {
+    const nameExists = await this.workoutTemplateRepository.findByNameAndGymId(
+      name,
+      gymId
+    );
+
+    if (nameExists) {
+      throw new AppError('Já existe um modelo com este nome', 409);
+    }
+  }
+
+  private ensureStaff(requestingUserRole: Role): void {
+    if (requestingUserRole === Role.MEMBER) {
+      throw new AppError('Sem permissão para gerenciar modelos de treino', 403);
+    }
+  }
+}
@@ -0,0 +1,414 @@
+import { Request, Response, NextFunction } from 'express';
+import { WorkoutService } from '../services/workout.service';
+import { WorkoutProgressService } from '../services/workout-progress.service';
+import { PrismaWorkoutRepository } from '../repositories/prisma-workout.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaExerciseRepository } from '@/modules/exercises/repositories/prisma-exercise.repository';
+import { PrismaWorkoutSessionRepository } from '@/modules/workout-sessions/repositories/prisma-workout-session.repository';
+import {
+  createWorkoutSchema,
+  updateWorkoutSchema,
+  addWorkoutExerciseSchema,
+  updateWorkoutExerciseSchema,
+  reorderWorkoutExercisesSchema,
+  listWorkoutsFiltersSchema,
+  workoutProgressFiltersSchema,
+} from '../dtos/workout.dto';
+import { Role } from '@prisma/client';
+
+/**
+ * Controller de Treinos
+ * Gerencia requisições HTTP relacionadas a treinos
+ */
+export class WorkoutController {
+  private workoutService: WorkoutService;
+  private workoutProgressService: WorkoutProgressService;
+
+  constructor() {
+    const workoutRepository = new PrismaWorkoutRepository();
+    const userRepository = new PrismaUserRepository();
+    const exerciseRepository = new PrismaExerciseRepository();
+    this.workoutService = new WorkoutService(
+      workoutRepository,
+      userRepository,
+      exerciseRepository
+    );
+    this.workoutProgressService = new WorkoutProgressService(
+      new PrismaWorkoutSessionRepository(),
+      userRepository
+    );
+  }
+
+  /**
+   * POST /api/workouts
+   * Criar treino para um membro
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  create = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data = createWorkoutSchema.parse(req.body);
+
+      const userId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const workout = await this.workoutService.create(
+        data,
+        userId,
+        userRole,
+        gymId
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Treino criado com sucesso',
+        data: { workout },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/workouts/me
+   * Listar próprios treinos ativos
+   * Permissões: Qualquer usuário autenticado
+   */
+  listOwn = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = req.userId!;
+
+      const workouts = await this.workoutService.listOwn(userId);
+
+      res.status(200).json({
+        status: 'success',
+        data: { workouts },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/workouts/progress/:userId
+   * Evolução do membro por exercício (1RM estimado, volume e recordes)
+   * Permissões: Próprio membro ou INSTRUCTOR/ADMIN
+   */
+  getProgress = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params as { userId: string };
+      const filters = workoutProgressFiltersSchema.parse(req.query);
+
+      const requestingUserId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const progress = await this.workoutProgressService.getMemberProgress(
+        userId,
+        filters,
+        requestingUserId,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: { progress },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/workouts
+   * Listar treinos da academia (com filtros)
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  list = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const filters = listWorkoutsFiltersSchema.parse(req.query);
+
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const result = await this.workoutService.list(filters, userRole, gymId);
+
+      res.status(200).json({
+        status: 'success',
+        data: result.data,
+        meta: result.meta,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/workouts/:id
+   * Buscar treino por ID
+   * Permissões: Membro dono do treino ou INSTRUCTOR/ADMIN
+   */
+  getById = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const userId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const workout = await this.workoutService.getById(
+        id,
+        userId,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: { workout },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/workouts/:id
+   * Atualizar dados do treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  update = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const data = updateWorkoutSchema.parse(req.body);
+
+      const userId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const workout = await this.workoutService.update(
+        id,
+        data,
+        userId,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Treino atualizado com sucesso',
+        data: { workout },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/workouts/:id/deactivate
+   * Desativar treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  deactivate = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+
+      const userId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const workout = await this.workoutService.deactivate(
+        id,
+        userId,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Treino desativado com sucesso',
+        data: { workout },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/workouts/:id/exercises
+   * Adicionar exercício ao treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  addExercise = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const data = addWorkoutExerciseSchema.parse(req.body);
+
+      const userId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const workoutExercise = await this.workoutService.addExercise(
+        id,
+        data,
+        userId,
+        userRole,
+        gymId
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Exercício adicionado ao treino',
+        data: { workoutExercise },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PUT /api/workouts/:id/exercises/order
+   * Reordenar exercícios do treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  reorderExercises = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params as { id: string };
+      const data = reorderWorkoutExercisesSchema.parse(req.body);
+
+      const userId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const workout = await this.workoutService.reorderExercises(
+        id,
+        data,
+        userId,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Exercícios reordenados com sucesso',
+        data: { workout },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/workouts/:id/exercises/:workoutExerciseId
+   * Atualizar exercício do treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  updateExercise = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id, workoutExerciseId } = req.params as {
+        id: string;
+        workoutExerciseId: string;
+      };
+      const data = updateWorkoutExerciseSchema.parse(req.body);
+
+      const userId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      const workoutExercise = await this.workoutService.updateExercise(
+        id,
+        workoutExerciseId,
+        data,
+        userId,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Exercício do treino atualizado com sucesso',
+        data: { workoutExercise },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/workouts/:id/exercises/:workoutExerciseId
+   * Remover exercício do treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  removeExercise = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id, workoutExerciseId } = req.params as {
+        id: string;
+        workoutExerciseId: string;
+      };
+
+      const userId = req.userId!;
+      const userRole = req.userRole as Role;
+      const gymId = req.gymId!;
+
+      await this.workoutService.removeExercise(
+        id,
+        workoutExerciseId,
+        userId,
+        userRole,
+        gymId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Exercício removido do treino',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
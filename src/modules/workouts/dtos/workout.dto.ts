@@ -0,0 +1,169 @@
+import { z } from 'zod';
+
+/**
+ * Campos de um exercício dentro do treino
+ */
+const workoutExerciseFields = {
+  sets: z
+    .number()
+    .int('Séries deve ser um número inteiro')
+    .min(1, 'Mínimo de 1 série')
+    .max(20, 'Máximo de 20 séries'),
+
+  // Texto livre: "12", "8-10", "até a falha"
+  reps: z
+    .string()
+    .min(1, 'Repetições são obrigatórias')
+    .max(30, 'Repetições deve ter no máximo 30 caracteres')
+    .trim(),
+
+  restTime: z
+    .number()
+    .int('Descanso deve ser um número inteiro de segundos')
+    .min(0, 'Descanso não pode ser negativo')
+    .max(600, 'Descanso máximo de 600 segundos')
+    .optional(),
+
+  notes: z
+    .string()
+    .max(500, 'Observações devem ter no máximo 500 caracteres')
+    .optional(),
+};
+
+/**
+ * DTO para adicionar exercício ao treino
+ */
+export const addWorkoutExerciseSchema = z.object({
+  exerciseId: z.string().uuid('ID de exercício inválido'),
+  ...workoutExerciseFields,
+});
+
+/**
+ * DTO para criar treino
+ * (instrutor virá do contexto autenticado)
+ */
+export const createWorkoutSchema = z.object({
+  memberId: z.string().uuid('ID de membro inválido'),
+
+  name: z
+    .string()
+    .min(2, 'Nome do treino deve ter pelo menos 2 caracteres')
+    .max(100, 'Nome do treino deve ter no máximo 100 caracteres')
+    .trim(),
+
+  description: z
+    .string()
+    .max(500, 'Descrição deve ter no máximo 500 caracteres')
+    .optional(),
+
+  startDate: z
+    .string()
+    .datetime('Data de início inválida')
+    .transform(val => new Date(val))
+    .optional(),
+
+  endDate: z
+    .string()
+    .datetime('Data de término inválida')
+    .transform(val => new Date(val))
+    .optional(),
+
+  // Exercícios na ordem de execução
+  exercises: z.array(addWorkoutExerciseSchema).optional(),
+});
+
+/**
+ * DTO para atualizar treino
+ */
+export const updateWorkoutSchema = z.object({
+  name: createWorkoutSchema.shape.name.optional(),
+
+  description: createWorkoutSchema.shape.description.nullable(),
+
+  endDate: z
+    .string()
+    .datetime('Data de término inválida')
+    .transform(val => new Date(val))
+    .nullable()
+    .optional(),
+});
+
+/**
+ * DTO para atualizar exercício do treino
+ */
+export const updateWorkoutExerciseSchema = z.object({
+  sets: workoutExerciseFields.sets.optional(),
+  reps: workoutExerciseFields.reps.optional(),
+  restTime: workoutExerciseFields.restTime.nullable(),
+  notes: workoutExerciseFields.notes.nullable(),
+});
+
+/**
+ * DTO para reordenar exercícios
+ * (todos os exercícios do treino, na nova ordem)
+ */
+export const reorderWorkoutExercisesSchema = z.object({
+  workoutExerciseIds: z
+    .array(z.string().uuid('ID de exercício do treino inválido'))
+    .min(1, 'Informe ao menos um exercício'),
+});
+
+/**
+ * DTO para filtros de listagem
+ */
+export const listWorkoutsFiltersSchema = z.object({
+  memberId: z.string().uuid('ID de membro inválido').optional(),
+
+  instructorId: z.string().uuid('ID de instrutor inválido').optional(),
+
+  isActive: z
+    .string()
+    .transform(val => val === 'true')
+    .optional(),
+
+  page: z
+    .string()
+    .default('1')
+    .transform(val => parseInt(val, 10)),
+
+  limit: z
+    .string()
+    .default('20')
+    .transform(val => parseInt(val, 10)),
+});
+
+/**
+ * DTO para filtros da evolução do membro
+ */
+export const workoutProgressFiltersSchema = z.object({
+  exerciseId: z.string().uuid('ID de exercício inválido').optional(),
+
+  from: z
+    .string()
+    .datetime('Data inicial inválida')
+    .transform(val => new Date(val))
+    .optional(),
+
+  to: z
+    .string()
+    .datetime('Data final inválida')
+    .transform(val => new Date(val))
+    .optional(),
+});
+
+/**
+ * Tipos inferidos
+ */
+export type CreateWorkoutDTO = z.infer<typeof createWorkoutSchema>;
+export type UpdateWorkoutDTO = z.infer<typeof updateWorkoutSchema>;
+export type AddWorkoutExerciseDTO = z.infer<typeof addWorkoutExerciseSchema>;
+export type UpdateWorkoutExerciseDTO = z.infer<
+  typeof updateWorkoutExerciseSchema
+>;
+export type ReorderWorkoutExercisesDTO = z.infer<
+  typeof reorderWorkoutExercisesSchema
+>;
+export type ListWorkoutsFiltersDTO = z.infer<typeof listWorkoutsFiltersSchema>;
+export type WorkoutProgressFiltersDTO = z.infer<
+  typeof workoutProgressFiltersSchema
+>;
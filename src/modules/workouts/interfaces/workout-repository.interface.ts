@@ -0,0 +1,150 @@
+import { Workout, WorkoutExercise, Prisma } from '@prisma/client';
+import { PaginatedResult } from '@/modules/users/interfaces/user-repository.interface';
+
+/**
+ * Relações carregadas junto com o treino
+ * (exercícios sempre na ordem de execução)
+ */
+export const workoutDetailsInclude = {
+  member: {
+    select: { id: true, name: true, gymId: true },
+  },
+  instructor: {
+    select: { id: true, name: true },
+  },
+  exercises: {
+    orderBy: { order: 'asc' },
+    include: { exercise: true },
+  },
+} satisfies Prisma.WorkoutInclude;
+
+/**
+ * Treino com membro, instrutor e exercícios
+ */
+export type WorkoutWithDetails = Prisma.WorkoutGetPayload<{
+  include: typeof workoutDetailsInclude;
+}>;
+
+/**
+ * Dados de um exercício dentro do treino
+ */
+export interface WorkoutExerciseData {
+  exerciseId: string;
+  sets: number;
+  reps: string;
+  restTime?: number;
+  notes?: string;
+  order: number;
+}
+
+/**
+ * DTO para criar treino
+ */
+export interface CreateWorkoutData {
+  memberId: string;
+  instructorId: string;
+  templateId?: string;
+  name: string;
+  description?: string;
+  startDate?: Date;
+  endDate?: Date;
+  exercises?: WorkoutExerciseData[];
+}
+
+/**
+ * DTO para atualizar treino
+ */
+export interface UpdateWorkoutData {
+  name?: string;
+  description?: string | null;
+  endDate?: Date | null;
+  isActive?: boolean;
+}
+
+/**
+ * DTO para atualizar exercício do treino
+ */
+export interface UpdateWorkoutExerciseData {
+  sets?: number;
+  reps?: string;
+  restTime?: number | null;
+  notes?: string | null;
+}
+
+/**
+ * Filtros para buscar treinos
+ */
+export interface FindWorkoutsFilters {
+  gymId: string;
+  memberId?: string;
+  instructorId?: string;
+  isActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Interface do Repository de Treinos
+ */
+export interface IWorkoutRepository {
+  /**
+   * Criar treino (com exercícios, se informados)
+   */
+  create(data: CreateWorkoutData): Promise<WorkoutWithDetails>;
+
+  /**
+   * Criar vários treinos em uma única transação
+   */
+  createMany(data: CreateWorkoutData[]): Promise<WorkoutWithDetails[]>;
+
+  /**
+   * Buscar treino por ID (com detalhes)
+   */
+  findById(id: string): Promise<WorkoutWithDetails | null>;
+
+  /**
+   * Buscar treinos ativos do membro
+   */
+  findActiveByMember(memberId: string): Promise<WorkoutWithDetails[]>;
+
+  /**
+   * Buscar treinos com filtros
+   */
+  findManyWithFilters(
+    filters: FindWorkoutsFilters
+  ): Promise<PaginatedResult<Workout>>;
+
+  /**
+   * Atualizar treino
+   */
+  update(id: string, data: UpdateWorkoutData): Promise<WorkoutWithDetails>;
+
+  /**
+   * Adicionar exercício ao treino
+   */
+  addExercise(
+    workoutId: string,
+    data: WorkoutExerciseData
+  ): Promise<WorkoutExercise>;
+
+  /**
+   * Atualizar exercício do treino
+   */
+  updateExercise(
+    workoutExerciseId: string,
+    data: UpdateWorkoutExerciseData
+  ): Promise<WorkoutExercise>;
+
+  /**
+   * Remover exercício do treino
+   */
+  removeExercise(workoutExerciseId: string): Promise<void>;
+
+  /**
+   * Reordenar exercícios (IDs na nova ordem, em uma transação)
+   */
+  reorderExercises(
+    workoutId: string,
+    workoutExerciseIds: string[]
+  ): Promise<void>;
+}
@@ -0,0 +1,182 @@
+import { Workout, WorkoutExercise, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IWorkoutRepository,
+  CreateWorkoutData,
+  UpdateWorkoutData,
+  UpdateWorkoutExerciseData,
+  WorkoutExerciseData,
+  FindWorkoutsFilters,
+  WorkoutWithDetails,
+  workoutDetailsInclude,
+} from '../interfaces/workout-repository.interface';
+import { PaginatedResult } from '@/modules/users/interfaces/user-repository.interface';
+
+export class PrismaWorkoutRepository implements IWorkoutRepository {
+  async create(data: CreateWorkoutData): Promise<WorkoutWithDetails> {
+    const { exercises, ...workoutData } = data;
+
+    return prisma.workout.create({
+      data: {
+        ...workoutData,
+        exercises: exercises && {
+          create: exercises,
+        },
+      },
+      include: workoutDetailsInclude,
+    });
+  }
+
+  async createMany(data: CreateWorkoutData[]): Promise<WorkoutWithDetails[]> {
+    return prisma.$transaction(
+      data.map(({ exercises, ...workoutData }) =>
+        prisma.workout.create({
+          data: {
+            ...workoutData,
+            exercises: exercises && {
+              create: exercises,
+            },
+          },
+          include: workoutDetailsInclude,
+        })
+      )
+    );
+  }
+
+  async findById(id: string): Promise<WorkoutWithDetails | null> {
+    return prisma.workout.findUnique({
+      where: { id },
+      include: workoutDetailsInclude,
+    });
+  }
+
+  async findActiveByMember(memberId: string): Promise<WorkoutWithDetails[]> {
+    return prisma.workout.findMany({
+      where: {
+        memberId,
+        isActive: true,
+      },
+      orderBy: {
+        startDate: 'desc',
+      },
+      include: workoutDetailsInclude,
+    });
+  }
+
+  async findManyWithFilters(
+    filters: FindWorkoutsFilters
+  ): Promise<PaginatedResult<Workout>> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const skip = (page - 1) * limit;
+
+    // Treinos não têm gymId: filtrar pelo membro
+    const where: Prisma.WorkoutWhereInput = {
+      member: { gymId: filters.gymId },
+    };
+
+    if (filters.memberId) {
+      where.memberId = filters.memberId;
+    }
+
+    if (filters.instructorId) {
+      where.instructorId = filters.instructorId;
+    }
+
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive;
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.workout.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: {
+          createdAt: 'desc',
+        },
+        include: {
+          member: {
+            select: { id: true, name: true },
+          },
+          instructor: {
+            select: { id: true, name: true },
+          },
+          _count: {
+            select: { exercises: true },
+          },
+        },
+      }),
+      prisma.workout.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async update(
+    id: string,
+    data: UpdateWorkoutData
+  ): Promise<WorkoutWithDetails> {
+    return prisma.workout.update({
+      where: { id },
+      data,
+      include: workoutDetailsInclude,
+    });
+  }
+
+  async addExercise(
+    workoutId: string,
+    data: WorkoutExerciseData
+  ): Promise<WorkoutExercise> {
+    return prisma.workoutExercise.create({
+      data: {
+        ...data,
+        workoutId,
+      },
+      include: {
+        exercise: true,
+      },
+    });
+  }
+
+  async updateExercise(
+    workoutExerciseId: string,
+    data: UpdateWorkoutExerciseData
+  ): Promise<WorkoutExercise> {
+    return prisma.workoutExercise.update({
+      where: { id: workoutExerciseId },
+      data,
+      include: {
+        exercise: true,
+      },
+    });
+  }
+
+  async removeExercise(workoutExerciseId: string): Promise<void> {
+    await prisma.workoutExercise.delete({
+      where: { id: workoutExerciseId },
+    });
+  }
+
+  async reorderExercises(
+    workoutId: string,
+    workoutExerciseIds: string[]
+  ): Promise<void> {
+    await prisma.$transaction(
+      workoutExerciseIds.map((id, index) =>
+        prisma.workoutExercise.update({
+          where: { id, workoutId },
+          data: { order: index },
+        })
+      )
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { Router } from 'express';
+import { WorkoutController } from '../controllers/workout.controller';
+import { authenticate } from '@/shared/middlewares/authenticate.middleware';
+import { authorize } from '@/shared/middlewares/authorize.middleware';
+import { Role } from '@prisma/client';
+
+const workoutRouter = Router();
+const workoutController = new WorkoutController();
+
+/**
+ * Todas as rotas requerem autenticação
+ */
+workoutRouter.use(authenticate);
+
+/**
+ * @route GET /api/workouts/me
+ * @desc Listar próprios treinos ativos (exercícios em ordem)
+ * @access Private (qualquer usuário autenticado)
+ */
+workoutRouter.get('/me', workoutController.listOwn);
+
+/**
+ * @route GET /api/workouts/progress/:userId
+ * @desc Evolução por exercício: 1RM estimado, volume semanal e recordes
+ * @access Private (próprio membro ou INSTRUCTOR/ADMIN)
+ */
+workoutRouter.get('/progress/:userId', workoutController.getProgress);
+
+/**
+ * @route POST /api/workouts
+ * @desc Criar treino para um membro
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutRouter.post(
+  '/',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  workoutController.create
+);
+
+/**
+ * @route GET /api/workouts
+ * @desc Listar treinos da academia (com filtros)
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutRouter.get(
+  '/',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  workoutController.list
+);
+
+/**
+ * @route GET /api/workouts/:id
+ * @desc Buscar treino por ID
+ * @access Private (membro dono do treino ou INSTRUCTOR/ADMIN)
+ */
+workoutRouter.get('/:id', workoutController.getById);
+
+/**
+ * @route PATCH /api/workouts/:id
+ * @desc Atualizar dados do treino
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutRouter.patch(
+  '/:id',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  workoutController.update
+);
+
+/**
+ * @route PATCH /api/workouts/:id/deactivate
+ * @desc Desativar treino
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutRouter.patch(
+  '/:id/deactivate',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  workoutController.deactivate
+);
+
+/**
+ * @route POST /api/workouts/:id/exercises
+ * @desc Adicionar exercício ao final do treino
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutRouter.post(
+  '/:id/exercises',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  workoutController.addExercise
+);
+
+/**
+ * @route PUT /api/workouts/:id/exercises/order
+ * @desc Reordenar exercícios do treino
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutRouter.put(
+  '/:id/exercises/order',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  workoutController.reorderExercises
+);
+
+/**
+ * @route PATCH /api/workouts/:id/exercises/:workoutExerciseId
+ * @desc Atualizar séries, repetições e descanso de um exercício
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutRouter.patch(
+  '/:id/exercises/:workoutExerciseId',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  workoutController.updateExercise
+);
+
+/**
+ * @route DELETE /api/workouts/:id/exercises/:workoutExerciseId
+ * @desc Remover exercício do treino
+ * @access INSTRUCTOR, ADMIN
+ */
+workoutRouter.delete(
+  '/:id/exercises/:workoutExerciseId',
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  workoutController.removeExercise
+);
+
+export { workoutRouter };
@@ -0,0 +1,108 @@
+import { Prisma } from '@prisma/client';
+import { LoggedSet } from '@/modules/workout-sessions/interfaces/workout-session-repository.interface';
+import {
+  buildExerciseProgress,
+  estimateOneRepMax,
+} from '../workout-progress.service';
+
+const benchPress = { id: 'bench', name: 'Supino', muscleGroup: 'Peito' };
+const squat = { id: 'squat', name: 'Agachamento', muscleGroup: 'Pernas' };
+
+function makeSet(
+  exercise: typeof benchPress,
+  startedAt: string,
+  setNumber: number,
+  weight: number,
+  reps: number
+): LoggedSet {
+  const session = { id: startedAt, startedAt: new Date(startedAt) };
+
+  return {
+    id: `${exercise.id}-${startedAt}-${setNumber}`,
+    sessionId: session.id,
+    workoutExerciseId: null,
+    exerciseId: exercise.id,
+    setNumber,
+    weight: new Prisma.Decimal(weight),
+    reps,
+    rpe: null,
+    createdAt: session.startedAt,
+    updatedAt: session.startedAt,
+    session,
+    exercise,
+  };
+}
+
+function testWorkoutProgress() {
+  console.log('🧪 Testando cálculos de evolução...\n');
+
+  // ========================================
+  // TESTE 1: Fórmula de Epley
+  // ========================================
+  console.log('1️⃣ Testando 1RM estimado...');
+  const tenReps = estimateOneRepMax(100, 10);
+  const single = estimateOneRepMax(120, 1);
+  const noReps = estimateOneRepMax(100, 0);
+  console.log(
+    `   ${tenReps === 133.33 && single === 120 && noReps === 0 ? '✅' : '❌'} 100x10 = ${tenReps}, 120x1 = ${single}, 100x0 = ${noReps}\n`
+  );
+
+  const sets = [
+    // Semana de 06/01/2025
+    makeSet(benchPress, '2025-01-06T10:00:00Z', 1, 60, 10),
+    makeSet(benchPress, '2025-01-06T10:00:00Z', 2, 65, 8),
+    makeSet(squat, '2025-01-06T10:00:00Z', 1, 80, 8),
+    makeSet(benchPress, '2025-01-09T10:00:00Z', 1, 60, 8),
+    // Semana de 13/01/2025
+    makeSet(benchPress, '2025-01-13T10:00:00Z', 1, 70, 6),
+    makeSet(benchPress, '2025-01-13T10:00:00Z', 2, 70, 5),
+  ];
+
+  const progress = buildExerciseProgress(sets);
+  const bench = progress.find(item => item.exercise.id === benchPress.id)!;
+
+  // ========================================
+  // TESTE 2: Agrupamento por exercício
+  // ========================================
+  console.log('2️⃣ Testando agrupamento...');
+  console.log(
+    `   ${progress.length === 2 ? '✅' : '❌'} ${progress.length} exercícios\n`
+  );
+
+  // ========================================
+  // TESTE 3: Recordes pessoais
+  // ========================================
+  console.log('3️⃣ Testando recordes...');
+  console.log(`   1RM atual: ${bench.estimatedOneRepMax}`);
+  console.log(`   Recordes: ${bench.personalRecordCount}`);
+  console.log(
+    `   ${bench.estimatedOneRepMax === 84 && bench.personalRecordCount === 3 && bench.lastPersonalRecordAt?.toISOString() === '2025-01-13T10:00:00.000Z' ? '✅' : '❌'} Último recorde em ${bench.lastPersonalRecordAt?.toISOString()}\n`
+  );
+
+  // ========================================
+  // TESTE 4: Tendência (melhor série de cada sessão)
+  // ========================================
+  console.log('4️⃣ Testando tendência...');
+  const trend = bench.oneRepMaxTrend.map(point => point.estimatedOneRepMax);
+  console.log(
+    `   ${trend.join(',') === '82.33,76,84' ? '✅' : '❌'} ${trend.join(' → ')}\n`
+  );
+
+  // ========================================
+  // TESTE 5: Volume semanal
+  // ========================================
+  console.log('5️⃣ Testando volume semanal...');
+  bench.weeklyVolume.forEach(week => {
+    console.log(
+      `   ${week.weekStart.toISOString().slice(0, 10)}: ${week.volume}kg em ${week.sets} séries`
+    );
+  });
+  const [firstWeek, secondWeek] = bench.weeklyVolume;
+  console.log(
+    `   ${bench.weeklyVolume.length === 2 && firstWeek.volume === 1600 && secondWeek.volume === 770 ? '✅' : '❌'} Volume agrupado por semana\n`
+  );
+
+  console.log('✅ Todos os testes de evolução passaram!\n');
+}
+
+testWorkoutProgress();
@@ -0,0 +1,204 @@
+import 'dotenv/config';
+import { WorkoutService } from '../workout.service';
+import { PrismaWorkoutRepository } from '@/modules/workouts/repositories/prisma-workout.repository';
+import { PrismaUserRepository } from '@/modules/users/repositories/prisma-user.repository';
+import { PrismaExerciseRepository } from '@/modules/exercises/repositories/prisma-exercise.repository';
+import { Role } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { hashPassword } from '@/shared/utils/password.util';
+
+async function testWorkoutService() {
+  console.log('🧪 Testando Workout Service...\n');
+
+  const userRepository = new PrismaUserRepository();
+  const exerciseRepository = new PrismaExerciseRepository();
+  const workoutService = new WorkoutService(
+    new PrismaWorkoutRepository(),
+    userRepository,
+    exerciseRepository
+  );
+
+  const gymIds: string[] = [];
+  const exerciseIds: string[] = [];
+
+  try {
+    // ========================================
+    // SETUP: Academias, usuários e exercícios
+    // ========================================
+    console.log('🏗️  Setup: Criando dados de teste...');
+
+    const gym = await prisma.gym.create({
+      data: {
+        name: 'Academia Workout Test',
+        slug: `workout-test-${Date.now()}`,
+        email: `workout-${Date.now()}@gym.com`,
+      },
+    });
+    const otherGym = await prisma.gym.create({
+      data: {
+        name: 'Outra Academia',
+        slug: `workout-other-${Date.now()}`,
+        email: `workout-other-${Date.now()}@gym.com`,
+      },
+    });
+    gymIds.push(gym.id, otherGym.id);
+
+    const passwordHash = await hashPassword('Senha123');
+
+    const instructor = await userRepository.create({
+      gymId: gym.id,
+      name: 'Instrutor Teste',
+      email: `instructor-${Date.now()}@test.com`,
+      passwordHash,
+      role: Role.INSTRUCTOR,
+    });
+
+    const member = await userRepository.create({
+      gymId: gym.id,
+      name: 'Membro Teste',
+      email: `member-${Date.now()}@test.com`,
+      passwordHash,
+      role: Role.MEMBER,
+    });
+
+    const outsider = await userRepository.create({
+      gymId: otherGym.id,
+      name: 'Membro de Fora',
+      email: `outsider-${Date.now()}@test.com`,
+      passwordHash,
+      role: Role.MEMBER,
+    });
+
+    const [benchPress, squat, row] = await Promise.all(
+      ['Supino', 'Agachamento', 'Remada'].map(name =>
+        exerciseRepository.create({
+          name: `${name} ${Date.now()}`,
+          muscleGroup: 'Teste',
+        })
+      )
+    );
+    exerciseIds.push(benchPress.id, squat.id, row.id);
+
+    console.log(`   ✅ Dados criados\n`);
+
+    // ========================================
+    // TESTE 1: Instrutor criando treino
+    // ========================================
+    console.log('1️⃣ Testando criação de treino...');
+    const workout = await workoutService.create(
+      {
+        memberId: member.id,
+        name: 'Treino A',
+        exercises: [
+          { exerciseId: benchPress.id, sets: 4, reps: '8-10', restTime: 90 },
+          { exerciseId: squat.id, sets: 4, reps: '10' },
+        ],
+      },
+      instructor.id,
+      Role.INSTRUCTOR,
+      gym.id
+    );
+    console.log(
+      `   ✅ Treino criado com ${workout.exercises.length} exercícios\n`
+    );
+
+    // ========================================
+    // TESTE 2: Membro de outra academia
+    // ========================================
+    console.log('2️⃣ Testando treino para membro de outra academia...');
+    try {
+      await workoutService.create(
+        { memberId: outsider.id, name: 'Treino B' },
+        instructor.id,
+        Role.INSTRUCTOR,
+        gym.id
+      );
+      console.log('   ❌ Deveria ter falhado\n');
+    } catch (error: any) {
+      console.log(`   ✅ Bloqueado: ${error.message}\n`);
+    }
+
+    // ========================================
+    // TESTE 3: Adicionar e reordenar exercícios
+    // ========================================
+    console.log('3️⃣ Testando adicionar e reordenar...');
+    const added = await workoutService.addExercise(
+      workout.id,
+      { exerciseId: row.id, sets: 3, reps: '12' },
+      instructor.id,
+      Role.INSTRUCTOR,
+      gym.id
+    );
+    console.log(`   ✅ Remada adicionada na posição ${added.order}`);
+
+    const reversedIds = [
+      ...workout.exercises.map(item => item.id),
+      added.id,
+    ].reverse();
+    const reordered = await workoutService.reorderExercises(
+      workout.id,
+      { workoutExerciseIds: reversedIds },
+      instructor.id,
+      Role.INSTRUCTOR,
+      gym.id
+    );
+    console.log(
+      `   ${reordered.exercises[0].id === added.id ? '✅' : '❌'} Nova ordem: ${reordered.exercises
+        .map(item => item.exercise.name.split(' ')[0])
+        .join(' → ')}\n`
+    );
+
+    // ========================================
+    // TESTE 4: Remover exercício
+    // ========================================
+    console.log('4️⃣ Testando remover exercício...');
+    await workoutService.removeExercise(
+      workout.id,
+      added.id,
+      instructor.id,
+      Role.INSTRUCTOR,
+      gym.id
+    );
+    console.log(`   ✅ Exercício removido\n`);
+
+    // ========================================
+    // TESTE 5: Membro listando próprios treinos
+    // ========================================
+    console.log('5️⃣ Testando GET /me do membro...');
+    const ownWorkouts = await workoutService.listOwn(member.id);
+    console.log(
+      `   ✅ ${ownWorkouts.length} treino(s) ativo(s), ${ownWorkouts[0].exercises.length} exercício(s)\n`
+    );
+
+    // ========================================
+    // TESTE 6: Desativar treino
+    // ========================================
+    console.log('6️⃣ Testando desativação...');
+    await workoutService.deactivate(
+      workout.id,
+      instructor.id,
+      Role.INSTRUCTOR,
+      gym.id
+    );
+    const afterDeactivate = await workoutService.listOwn(member.id);
+    console.log(
+      `   ${afterDeactivate.length === 0 ? '✅' : '❌'} Treino não aparece mais em /me\n`
+    );
+
+    console.log('✅ Todos os testes do Workout Service passaram!\n');
+  } catch (error) {
+    console.error('❌ Erro nos testes:', error);
+  } finally {
+    // ========================================
+    // CLEANUP (cascade remove usuários e treinos)
+    // ========================================
+    console.log('🧹 Limpando dados...');
+    await prisma.gym.deleteMany({ where: { id: { in: gymIds } } });
+    await prisma.exercise.deleteMany({ where: { id: { in: exerciseIds } } });
+    console.log('   ✅ Dados limpos');
+    await prisma.$disconnect();
+    console.log('   ✅ Conexão encerrada\n');
+  }
+}
+
+testWorkoutService();
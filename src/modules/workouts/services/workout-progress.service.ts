@@ -0,0 +1,179 @@
+import { Exercise, Role } from '@prisma/client';
+import {
+  IWorkoutSessionRepository,
+  LoggedSet,
+} from '@/modules/workout-sessions/interfaces/workout-session-repository.interface';
+import { IUserRepository } from '@/modules/users/interfaces/user-repository.interface';
+import { AppError } from '@/shared/errors/app-error';
+import { startOfWeek } from '@/shared/utils/date.util';
+import { WorkoutProgressFiltersDTO } from '../dtos/workout.dto';
+
+/**
+ * Recorde pessoal (maior 1RM estimado até então)
+ */
+export interface PersonalRecord {
+  weight: number;
+  reps: number;
+  estimatedOneRepMax: number;
+  achievedAt: Date;
+}
+
+/**
+ * Evolução de um exercício
+ */
+export interface ExerciseProgress {
+  exercise: Pick<Exercise, 'id' | 'name' | 'muscleGroup'>;
+  estimatedOneRepMax: number;
+  personalRecord: PersonalRecord | null;
+  personalRecordCount: number;
+  lastPersonalRecordAt: Date | null;
+  oneRepMaxTrend: { date: Date; estimatedOneRepMax: number }[];
+  weeklyVolume: { weekStart: Date; volume: number; sets: number }[];
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * 1RM estimado pela fórmula de Epley: carga × (1 + repetições / 30)
+ * Com 1 repetição a própria carga é o 1RM; sem repetições não há estimativa.
+ *
+ * @example
+ * estimateOneRepMax(100, 10); // 133.33
+ */
+export function estimateOneRepMax(weight: number, reps: number): number {
+  if (reps <= 0 || weight <= 0) {
+    return 0;
+  }
+
+  if (reps === 1) {
+    return round(weight);
+  }
+
+  return round(weight * (1 + reps / 30));
+}
+
+/**
+ * Agrupa as séries por exercício e calcula 1RM, recordes e volume semanal
+ * As séries devem vir em ordem cronológica; recordes consideram apenas o
+ * período recebido.
+ */
+export function buildExerciseProgress(sets: LoggedSet[]): ExerciseProgress[] {
+  const byExercise = new Map<string, ExerciseProgress>();
+  const bestByExercise = new Map<string, number>();
+
+  for (const set of sets) {
+    const weight = Number(set.weight);
+    const date = set.session.startedAt;
+    const oneRepMax = estimateOneRepMax(weight, set.reps);
+
+    let progress = byExercise.get(set.exerciseId);
+    if (!progress) {
+      progress = {
+        exercise: set.exercise,
+        estimatedOneRepMax: 0,
+        personalRecord: null,
+        personalRecordCount: 0,
+        lastPersonalRecordAt: null,
+        oneRepMaxTrend: [],
+        weeklyVolume: [],
+      };
+      byExercise.set(set.exerciseId, progress);
+    }
+
+    // Recorde: supera tudo o que veio antes
+    const best = bestByExercise.get(set.exerciseId) ?? 0;
+    if (oneRepMax > best) {
+      bestByExercise.set(set.exerciseId, oneRepMax);
+      progress.estimatedOneRepMax = oneRepMax;
+      progress.personalRecord = {
+        weight,
+        reps: set.reps,
+        estimatedOneRepMax: oneRepMax,
+        achievedAt: date,
+      };
+      progress.personalRecordCount += 1;
+      progress.lastPersonalRecordAt = date;
+    }
+
+    // Tendência: melhor 1RM de cada sessão
+    const lastPoint =
+      progress.oneRepMaxTrend[progress.oneRepMaxTrend.length - 1];
+    if (lastPoint && lastPoint.date.getTime() === date.getTime()) {
+      lastPoint.estimatedOneRepMax = Math.max(
+        lastPoint.estimatedOneRepMax,
+        oneRepMax
+      );
+    } else {
+      progress.oneRepMaxTrend.push({ date, estimatedOneRepMax: oneRepMax });
+    }
+
+    // Volume semanal: soma de carga × repetições
+    const weekStart = startOfWeek(date);
+    const lastWeek = progress.weeklyVolume[progress.weeklyVolume.length - 1];
+    if (lastWeek && lastWeek.weekStart.getTime() === weekStart.getTime()) {
+      lastWeek.volume = round(lastWeek.volume + weight * set.reps);
+      lastWeek.sets += 1;
+    } else {
+      progress.weeklyVolume.push({
+        weekStart,
+        volume: round(weight * set.reps),
+        sets: 1,
+      });
+    }
+  }
+
+  return [...byExercise.values()];
+}
+
+/**
+ * Service de Evolução dos Treinos
+ * Indicadores calculados a partir das séries das sessões finalizadas
+ */
+export class WorkoutProgressService {
+  constructor(
+    private workoutSessionRepository: IWorkoutSessionRepository,
+    private userRepository: IUserRepository
+  ) {}
+
+  /**
+   * Evolução do membro por exercício
+   * Permissões: Próprio membro ou INSTRUCTOR/ADMIN da academia
+   */
+  async getMemberProgress(
+    userId: string,
+    filters: WorkoutProgressFiltersDTO,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<ExerciseProgress[]> {
+    // Validar permissão
+    const isSelf = userId === requestingUserId;
+    const hasPermission = isSelf || requestingUserRole !== Role.MEMBER;
+
+    if (!hasPermission) {
+      throw new AppError('Sem permissão para visualizar evolução', 403);
+    }
+
+    // Validar que usuário é da mesma academia
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    if (user.gymId !== requestingUserGymId) {
+      throw new AppError('Usuário de outra academia', 403);
+    }
+
+    if (filters.from && filters.to && filters.to < filters.from) {
+      throw new AppError('Data final deve ser após a data inicial', 400);
+    }
+
+    const sets = await this.workoutSessionRepository.findCompletedSetsByMember(
+      userId,
+      filters
+    );
+
+    return buildExerciseProgress(sets);
+  }
+}
@@ -0,0 +1,428 @@
+import { Role, User, Workout, WorkoutExercise } from '@prisma/client';
+import {
+  IWorkoutRepository,
+  WorkoutWithDetails,
+} from '../interfaces/workout-repository.interface';
+import {
+  IUserRepository,
+  PaginatedResult,
+} from '@/modules/users/interfaces/user-repository.interface';
+import { IExerciseRepository } from '@/modules/exercises/interfaces/exercise-repository.interface';
+import { AppError } from '@/shared/errors/app-error';
+import {
+  CreateWorkoutDTO,
+  UpdateWorkoutDTO,
+  AddWorkoutExerciseDTO,
+  UpdateWorkoutExerciseDTO,
+  ReorderWorkoutExercisesDTO,
+  ListWorkoutsFiltersDTO,
+} from '../dtos/workout.dto';
+
+/**
+ * Service de Treinos
+ * Prescrição de treinos dos instrutores para os membros
+ */
+export class WorkoutService {
+  constructor(
+    private workoutRepository: IWorkoutRepository,
+    private userRepository: IUserRepository,
+    private exerciseRepository: IExerciseRepository
+  ) {}
+
+  /**
+   * Criar treino para um membro
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async create(
+    data: CreateWorkoutDTO,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutWithDetails> {
+    const instructor = await this.findStaffInGym(
+      requestingUserId,
+      requestingUserRole,
+      requestingUserGymId
+    );
+
+    const member = await this.findMemberInGym(
+      data.memberId,
+      requestingUserGymId
+    );
+
+    if (data.startDate && data.endDate && data.endDate <= data.startDate) {
+      throw new AppError('Data de término deve ser após a data de início', 400);
+    }
+
+    const exercises = data.exercises ?? [];
+    const exerciseIds = exercises.map(exercise => exercise.exerciseId);
+
+    if (new Set(exerciseIds).size !== exerciseIds.length) {
+      throw new AppError('Exercício repetido no treino', 400);
+    }
+
+    for (const exerciseId of exerciseIds) {
+      await this.ensureExerciseExists(exerciseId, requestingUserGymId);
+    }
+
+    return this.workoutRepository.create({
+      ...data,
+      memberId: member.id,
+      instructorId: instructor.id,
+      exercises: exercises.map((exercise, index) => ({
+        ...exercise,
+        order: index,
+      })),
+    });
+  }
+
+  /**
+   * Listar próprios treinos ativos
+   * Permissões: Qualquer usuário autenticado
+   */
+  async listOwn(requestingUserId: string): Promise<WorkoutWithDetails[]> {
+    return this.workoutRepository.findActiveByMember(requestingUserId);
+  }
+
+  /**
+   * Listar treinos da academia com filtros
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async list(
+    filters: ListWorkoutsFiltersDTO,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<PaginatedResult<Workout>> {
+    if (requestingUserRole === Role.MEMBER) {
+      throw new AppError('Sem permissão para listar treinos', 403);
+    }
+
+    // Forçar filtro por academia
+    return this.workoutRepository.findManyWithFilters({
+      ...filters,
+      gymId: requestingUserGymId,
+    });
+  }
+
+  /**
+   * Buscar treino por ID
+   * Permissões: Membro dono do treino ou INSTRUCTOR/ADMIN
+   */
+  async getById(
+    workoutId: string,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutWithDetails> {
+    const workout = await this.findWorkoutInGym(workoutId, requestingUserGymId);
+
+    const isOwner = workout.memberId === requestingUserId;
+
+    if (!isOwner && requestingUserRole === Role.MEMBER) {
+      throw new AppError('Sem permissão para visualizar este treino', 403);
+    }
+
+    return workout;
+  }
+
+  /**
+   * Atualizar dados do treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async update(
+    workoutId: string,
+    data: UpdateWorkoutDTO,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutWithDetails> {
+    const workout = await this.findEditableWorkout(
+      workoutId,
+      requestingUserId,
+      requestingUserRole,
+      requestingUserGymId
+    );
+
+    if (data.endDate && data.endDate <= workout.startDate) {
+      throw new AppError('Data de término deve ser após a data de início', 400);
+    }
+
+    return this.workoutRepository.update(workoutId, data);
+  }
+
+  /**
+   * Desativar treino (mantém histórico)
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async deactivate(
+    workoutId: string,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutWithDetails> {
+    const workout = await this.findEditableWorkout(
+      workoutId,
+      requestingUserId,
+      requestingUserRole,
+      requestingUserGymId
+    );
+
+    return this.workoutRepository.update(workoutId, {
+      isActive: false,
+      endDate: workout.endDate ?? new Date(),
+    });
+  }
+
+  /**
+   * Adicionar exercício ao final do treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async addExercise(
+    workoutId: string,
+    data: AddWorkoutExerciseDTO,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutExercise> {
+    const workout = await this.findEditableWorkout(
+      workoutId,
+      requestingUserId,
+      requestingUserRole,
+      requestingUserGymId
+    );
+
+    await this.ensureExerciseExists(data.exerciseId, requestingUserGymId);
+
+    const alreadyInWorkout = workout.exercises.some(
+      item => item.exerciseId === data.exerciseId
+    );
+
+    if (alreadyInWorkout) {
+      throw new AppError('Exercício já está no treino', 409);
+    }
+
+    const lastOrder = workout.exercises.reduce(
+      (max, item) => Math.max(max, item.order),
+      -1
+    );
+
+    return this.workoutRepository.addExercise(workoutId, {
+      ...data,
+      order: lastOrder + 1,
+    });
+  }
+
+  /**
+   * Atualizar séries/repetições/descanso de um exercício do treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async updateExercise(
+    workoutId: string,
+    workoutExerciseId: string,
+    data: UpdateWorkoutExerciseDTO,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutExercise> {
+    const workout = await this.findEditableWorkout(
+      workoutId,
+      requestingUserId,
+      requestingUserRole,
+      requestingUserGymId
+    );
+
+    this.ensureExerciseInWorkout(workout, workoutExerciseId);
+
+    return this.workoutRepository.updateExercise(workoutExerciseId, data);
+  }
+
+  /**
+   * Remover exercício do treino
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async removeExercise(
+    workoutId: string,
+    workoutExerciseId: string,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<void> {
+    const workout = await this.findEditableWorkout(
+      workoutId,
+      requestingUserId,
+      requestingUserRole,
+      requestingUserGymId
+    );
+
+    this.ensureExerciseInWorkout(workout, workoutExerciseId);
+
+    await this.workoutRepository.removeExercise(workoutExerciseId);
+  }
+
+  /**
+   * Reordenar exercícios do treino
+   * A lista deve conter todos os exercícios do treino, na nova ordem
+   * Permissões: INSTRUCTOR, ADMIN
+   */
+  async reorderExercises(
+    workoutId: string,
+    data: ReorderWorkoutExercisesDTO,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutWithDetails> {
+    const workout = await this.findEditableWorkout(
+      workoutId,
+      requestingUserId,
+      requestingUserRole,
+      requestingUserGymId
+    );
+
+    const currentIds = new Set(workout.exercises.map(item => item.id));
+    const requestedIds = new Set(data.workoutExerciseIds);
+
+    const sameExercises =
+      requestedIds.size === data.workoutExerciseIds.length &&
+      requestedIds.size === currentIds.size &&
+      data.workoutExerciseIds.every(id => currentIds.has(id));
+
+    if (!sameExercises) {
+      throw new AppError(
+        'Informe todos os exercícios do treino, sem repetições',
+        400
+      );
+    }
+
+    await this.workoutRepository.reorderExercises(
+      workoutId,
+      data.workoutExerciseIds
+    );
+
+    return this.findWorkoutInGym(workoutId, requestingUserGymId);
+  }
+
+  /**
+   * Buscar treino garantindo que o membro pertence à academia
+   */
+  private async findWorkoutInGym(
+    workoutId: string,
+    gymId: string
+  ): Promise<WorkoutWithDetails> {
+    const workout = await this.workoutRepository.findById(workoutId);
+
+    if (!workout) {
+      throw new AppError('Treino não encontrado', 404);
+    }
+
+    if (workout.member.gymId !== gymId) {
+      throw new AppError('Treino de outra academia', 403);
+    }
+
+    return workout;
+  }
+
+  /**
+   * Validar permissão de escrita e buscar treino ativo
+   */
+  private async findEditableWorkout(
+    workoutId: string,
+    requestingUserId: string,
+    requestingUserRole: Role,
+    requestingUserGymId: string
+  ): Promise<WorkoutWithDetails> {
+    await this.findStaffInGym(
+      requestingUserId,
+      requestingUserRole,
+      requestingUserGymId
+    );
+
+    const workout = await this.findWorkoutInGym(workoutId, requestingUserGymId);
+
+    if (!workout.isActive) {
+      throw new AppError('Treino inativo não pode ser alterado', 400);
+    }
+
+    return workout;
+  }
+
+  /**
+   * Validar que o instrutor/admin existe e pertence à academia
+   */
+  private async findStaffInGym(
+    userId: string,
+    role: Role,
+    gymId: string
+  ): Promise<User> {
+    if (role === Role.MEMBER) {
+      throw new AppError('Sem permissão para gerenciar treinos', 403);
+    }
+
+    const staff = await this.userRepository.findById(userId);
+
+    if (!staff || !staff.isActive) {
+      throw new AppError('Instrutor não encontrado ou inativo', 403);
+    }
+
+    if (staff.gymId !== gymId) {
+      throw new AppError('Instrutor de outra academia', 403);
+    }
+
+    return staff;
+  }
+
+  /**
+   * Validar que o membro existe, está ativo e pertence à academia
+   */
+  private async findMemberInGym(
+    memberId: string,
+    gymId: string
+  ): Promise<User> {
+    const member = await this.userRepository.findById(memberId);
+
+    if (!member) {
+      throw new AppError('Membro não encontrado', 404);
+    }
+
+    if (member.gymId !== gymId) {
+      throw new AppError('Membro de outra academia', 403);
+    }
+
+    if (member.role !== Role.MEMBER) {
+      throw new AppError('Treinos só podem ser criados para membros', 400);
+    }
+
+    if (!member.isActive) {
+      throw new AppError('Membro inativo', 400);
+    }
+
+    return member;
+  }
+
+  private async ensureExerciseExists(
+    exerciseId: string,
+    gymId: string
+  ): Promise<void> {
+    // Catálogo global ou exercício da própria academia
+    const exercise = await this.exerciseRepository.findAvailableById(
+      exerciseId,
+      gymId
+    );
+
+    if (!exercise) {
+      throw new AppError('Exercício não encontrado', 404);
+    }
+  }
+
+  private ensureExerciseInWorkout(
+    workout: WorkoutWithDetails,
+    workoutExerciseId: string
+  ): void {
+    const belongsToWorkout = workout.exercises.some(
+      item => item.id === workoutExerciseId
+    );
+
+    if (!belongsToWorkout) {
+      throw new AppError('Exercício não encontrado no treino', 404);
+    }
+  }
+}
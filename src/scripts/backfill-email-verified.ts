@@ -0,0 +1,44 @@
+import 'dotenv/config';
+import { prisma } from '@/config/database';
+
+/**
+ * Backfill da verificação de e-mail (executar uma vez após criar a coluna
+ * email_verified_at)
+ * Contas criadas antes da verificação de e-mail nunca receberam o link:
+ * sem o backfill, ficariam bloqueadas quando a academia desativar
+ * allowUnverifiedLogin. Marca como verificadas (emailVerifiedAt = createdAt)
+ * as contas criadas antes da data informada (padrão: agora)
+ * Idempotente: contas já verificadas não são alteradas
+ *
+ * @example
+ * npm run db:backfill-email-verified
+ * npm run db:backfill-email-verified -- 2025-03-01
+ */
+async function backfillEmailVerified() {
+  const [cutoffArg] = process.argv.slice(2);
+  const cutoff = cutoffArg ? new Date(cutoffArg) : new Date();
+
+  if (Number.isNaN(cutoff.getTime())) {
+    console.error(`❌ Data inválida: ${cutoffArg} (use AAAA-MM-DD)`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const updated = await prisma.$executeRaw`
+    UPDATE users
+    SET email_verified_at = created_at
+    WHERE email_verified_at IS NULL
+      AND created_at < ${cutoff}
+  `;
+
+  console.log(
+    `✅ ${updated} conta(s) criada(s) antes de ${cutoff.toISOString()} marcada(s) como verificada(s)`
+  );
+}
+
+backfillEmailVerified()
+  .catch(error => {
+    console.error('❌ Erro no backfill:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,9 +1,15 @@
 import 'dotenv/config';
 import { App } from './app';
+import { JobRunner } from './shared/jobs/job-runner';
+import { jobs } from './shared/jobs/jobs.registry';
+import { PrismaJobRunRepository } from './shared/jobs/repositories/prisma-job-run.repository';
 
 const PORT = process.env.PORT || 3333;
 const HOST = process.env.HOST || '0.0.0.0'; // ← Mudança aqui
 
+const JOBS_ENABLED = process.env.JOBS_ENABLED !== 'false';
+const JOBS_INTERVAL_MINUTES = Number(process.env.JOBS_INTERVAL_MINUTES) || 60;
+
 const { app } = new App();
 
 // Iniciar servidor (apenas em ambiente local)
@@ -13,6 +19,13 @@ if (process.env.NODE_ENV !== 'production') {
     console.log(`   - Local:   http://localhost:${PORT}`);
     console.log(`   - Network: http://${getLocalIp()}:${PORT}`);
     console.log(`📚 Health check: http://${getLocalIp()}:${PORT}/health`);
+
+    // Jobs agendados (em produção, usar `npm run jobs:run` via cron)
+    if (JOBS_ENABLED) {
+      const jobRunner = new JobRunner(jobs, new PrismaJobRunRepository());
+      jobRunner.start(JOBS_INTERVAL_MINUTES * 60 * 1000);
+      console.log(`⏰ Jobs agendados a cada ${JOBS_INTERVAL_MINUTES} min`);
+    }
   });
 }
 
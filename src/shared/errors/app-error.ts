@@ -1,11 +1,18 @@
 export class AppError extends Error {
   public readonly statusCode: number;
   public readonly isOperational: boolean;
+  public readonly details?: Record<string, unknown>;
 
-  constructor(message: string, statusCode = 400, isOperational = true) {
+  constructor(
+    message: string,
+    statusCode = 400,
+    isOperational = true,
+    details?: Record<string, unknown>
+  ) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = isOperational;
+    this.details = details;
 
     // Stack trace correto
     Error.captureStackTrace(this, this.constructor);
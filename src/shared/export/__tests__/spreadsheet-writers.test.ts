@@ -0,0 +1,177 @@
+import { PassThrough } from 'stream';
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { createSpreadsheetWriter } from '../spreadsheet-writer.factory';
+import { ZipStreamWriter } from '../zip-stream';
+import {
+  SpreadsheetCell,
+  SpreadsheetFormat,
+} from '../interfaces/spreadsheet-writer.interface';
+
+const ROWS: SpreadsheetCell[][] = [
+  ['Nome', 'E-mail', 'Ativo', 'Cadastrado em', 'Observação'],
+  ['Ana Souza', 'ana@email.com', true, new Date('2025-01-15T12:00:00Z'), null],
+  ['Silva; Maria', 'maria@email.com', false, null, '=HYPERLINK("x")'],
+  ['João <Dev> & Cia', 'joao@email.com', true, null, 'linha 1\nlinha 2'],
+];
+
+/**
+ * Gera o arquivo completo em memória (apenas para o teste)
+ */
+async function render(format: SpreadsheetFormat): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+
+  const writer = createSpreadsheetWriter(format, output, 'Usuários');
+  for (const row of ROWS) {
+    await writer.writeRow(row);
+  }
+  await writer.end();
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Abre o ZIP com um leitor independente (valida o CRC32 de cada entrada)
+ */
+async function readZip(zip: Buffer): Promise<Map<string, string>> {
+  const archive = await JSZip.loadAsync(zip, { checkCRC32: true });
+
+  const entries = new Map<string, string>();
+  for (const file of Object.values(archive.files)) {
+    entries.set(file.name, await file.async('string'));
+  }
+
+  return entries;
+}
+
+async function testSpreadsheetWriters() {
+  console.log('🧪 Testando escritores de planilha...\n');
+
+  // ========================================
+  // TESTE 1: CSV
+  // ========================================
+  console.log('1️⃣ Testando exportação CSV...');
+  const csv = (await render('csv')).toString('utf8');
+  const lines = csv.split('\r\n');
+  console.log(
+    `   ${csv.startsWith('\uFEFF') ? '✅' : '❌'} BOM para o Excel reconhecer UTF-8`
+  );
+  console.log(
+    `   ${lines[1] === 'Ana Souza;ana@email.com;sim;2025-01-15T12:00:00.000Z;' ? '✅' : '❌'} ${lines[1]}`
+  );
+  console.log(
+    `   ${lines[2].startsWith('"Silva; Maria"') ? '✅' : '❌'} Separador entre aspas: ${lines[2]}`
+  );
+  console.log(
+    `   ${lines[2].endsWith(`"'=HYPERLINK(""x"")"`) ? '✅' : '❌'} Fórmula neutralizada\n`
+  );
+
+  // ========================================
+  // TESTE 2: XLSX (estrutura do pacote)
+  // ========================================
+  console.log('2️⃣ Testando exportação XLSX...');
+  const xlsx = await render('xlsx');
+  const entries = await readZip(xlsx);
+  const expectedParts = [
+    '[Content_Types].xml',
+    '_rels/.rels',
+    'xl/workbook.xml',
+    'xl/_rels/workbook.xml.rels',
+    'xl/styles.xml',
+    'xl/worksheets/sheet1.xml',
+  ];
+  const missing = expectedParts.filter(part => !entries.has(part));
+  console.log(
+    `   ${missing.length === 0 ? '✅' : '❌'} Partes do pacote: ${entries.size} (faltando: ${missing.join(', ') || 'nenhuma'})`
+  );
+  console.log(
+    `   ${entries.get('xl/workbook.xml')!.includes('name="Usuários"') ? '✅' : '❌'} Nome da aba\n`
+  );
+
+  // ========================================
+  // TESTE 3: XLSX (células)
+  // ========================================
+  console.log('3️⃣ Testando células do XLSX...');
+  const sheet = entries.get('xl/worksheets/sheet1.xml')!;
+  // 15/01/2025 12:00 = serial 45672.5 no Excel
+  console.log(
+    `   ${sheet.includes('<c r="D2" s="1"><v>45672.5</v></c>') ? '✅' : '❌'} Data como número serial`
+  );
+  console.log(
+    `   ${sheet.includes('<c r="C2" t="b"><v>1</v></c>') ? '✅' : '❌'} Booleano`
+  );
+  console.log(
+    `   ${sheet.includes('João &lt;Dev&gt; &amp; Cia') ? '✅' : '❌'} Texto escapado`
+  );
+  console.log(
+    `   ${!sheet.includes('r="E2"') ? '✅' : '❌'} Célula vazia omitida\n`
+  );
+
+  // ========================================
+  // TESTE 4: XLSX aberto por uma biblioteca de planilhas
+  // ========================================
+  console.log('4️⃣ Testando leitura do XLSX com ExcelJS...');
+  const workbook = new ExcelJS.Workbook();
+  // Cópia em um ArrayBuffer próprio (tipo esperado pelo ExcelJS)
+  await workbook.xlsx.load(new Uint8Array(xlsx).buffer);
+  const worksheet = workbook.getWorksheet('Usuários');
+  const registeredAt = worksheet?.getCell('D2').value;
+  console.log(
+    `   ${worksheet?.rowCount === ROWS.length ? '✅' : '❌'} Linhas lidas: ${worksheet?.rowCount}`
+  );
+  console.log(
+    `   ${worksheet?.getCell('A4').value === 'João <Dev> & Cia' ? '✅' : '❌'} Texto: ${worksheet?.getCell('A4').value}`
+  );
+  console.log(
+    `   ${worksheet?.getCell('C3').value === false ? '✅' : '❌'} Booleano: ${worksheet?.getCell('C3').value}`
+  );
+  console.log(
+    `   ${registeredAt instanceof Date && registeredAt.toISOString() === '2025-01-15T12:00:00.000Z' ? '✅' : '❌'} Data: ${registeredAt}`
+  );
+  console.log(
+    `   ${worksheet?.getCell('E4').value === 'linha 1\nlinha 2' ? '✅' : '❌'} Quebra de linha preservada\n`
+  );
+
+  // ========================================
+  // TESTE 5: ZIP com várias entradas e blocos
+  // ========================================
+  console.log('5️⃣ Testando ZipStreamWriter com JSZip...');
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+
+  // Maior que um bloco de compressão (64 KB)
+  const large = 'registro;'.repeat(20000);
+  const zip = new ZipStreamWriter(output);
+  zip.startEntry('manifest.json');
+  await zip.write('{"files":["check-ins.csv"]}');
+  await zip.endEntry();
+  zip.startEntry('dados/check-ins.csv');
+  await zip.write(large.slice(0, 100000));
+  await zip.write(large.slice(100000));
+  await zip.endEntry();
+  zip.startEntry('observações.txt');
+  await zip.endEntry();
+  await zip.finish();
+
+  try {
+    const files = await readZip(Buffer.concat(chunks));
+    console.log(
+      `   ${files.size === 3 && files.has('observações.txt') ? '✅' : '❌'} Entradas (nome UTF-8): ${[...files.keys()].join(', ')}`
+    );
+    console.log(
+      `   ${files.get('dados/check-ins.csv') === large ? '✅' : '❌'} Conteúdo em vários blocos preservado`
+    );
+    console.log(
+      `   ${files.get('observações.txt') === '' ? '✅' : '❌'} Entrada vazia\n`
+    );
+  } catch (error) {
+    console.log(`   ❌ ZIP rejeitado pelo leitor: ${error}\n`);
+  }
+
+  console.log('✅ Todos os testes dos escritores de planilha passaram!');
+}
+
+testSpreadsheetWriters();
@@ -0,0 +1,31 @@
+/**
+ * Valor de uma célula (null/undefined = célula vazia)
+ */
+export type SpreadsheetCell =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined;
+
+/**
+ * Formatos de planilha suportados na exportação
+ */
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+/**
+ * Escritor de planilhas em streaming
+ * As linhas são gravadas no destino à medida que chegam
+ */
+export interface SpreadsheetWriter {
+  readonly contentType: string;
+  readonly fileExtension: string;
+
+  writeRow(values: SpreadsheetCell[]): Promise<void>;
+
+  /**
+   * Finaliza o arquivo e encerra o stream de saída
+   */
+  end(): Promise<void>;
+}
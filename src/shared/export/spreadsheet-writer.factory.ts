@@ -0,0 +1,29 @@
+import { Writable } from 'stream';
+import {
+  SpreadsheetFormat,
+  SpreadsheetWriter,
+} from './interfaces/spreadsheet-writer.interface';
+import { CsvSpreadsheetWriter } from './writers/csv-spreadsheet.writer';
+import { XlsxSpreadsheetWriter } from './writers/xlsx-spreadsheet.writer';
+
+/**
+ * Cria o escritor de planilha para o formato pedido
+ *
+ * @param sheetName - Nome da aba (apenas XLSX)
+ */
+export function createSpreadsheetWriter(
+  format: SpreadsheetFormat,
+  output: Writable,
+  sheetName?: string
+): SpreadsheetWriter {
+  switch (format) {
+    case 'csv':
+      return new CsvSpreadsheetWriter(output);
+    case 'xlsx':
+      return new XlsxSpreadsheetWriter(output, sheetName);
+    default:
+      throw new Error(
+        `Unknown spreadsheet format "${format}". Use csv or xlsx`
+      );
+  }
+}
@@ -0,0 +1,53 @@
+import { Writable } from 'stream';
+import {
+  SpreadsheetCell,
+  SpreadsheetWriter,
+} from '../interfaces/spreadsheet-writer.interface';
+import { formatCsvRow } from '@/shared/utils/csv.util';
+import { writeChunk } from '@/shared/utils/stream.util';
+
+/**
+ * CSV com BOM e separador ";" (abre com acentos e colunas corretas no
+ * Excel em pt-BR e é aceito pela importação de usuários)
+ */
+export class CsvSpreadsheetWriter implements SpreadsheetWriter {
+  readonly contentType = 'text/csv; charset=utf-8';
+  readonly fileExtension = 'csv';
+
+  private started = false;
+
+  constructor(private output: Writable) {}
+
+  async writeRow(values: SpreadsheetCell[]): Promise<void> {
+    const prefix = this.started ? '' : '\uFEFF';
+    this.started = true;
+
+    await writeChunk(
+      this.output,
+      `${prefix}${formatCsvRow(
+        values.map(value => this.formatCell(value)),
+        ';'
+      )}\r\n`
+    );
+  }
+
+  async end(): Promise<void> {
+    await new Promise<void>(resolve => this.output.end(resolve));
+  }
+
+  private formatCell(value: SpreadsheetCell): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    if (typeof value === 'boolean') {
+      return value ? 'sim' : 'não';
+    }
+
+    return String(value);
+  }
+}
@@ -0,0 +1,173 @@
+import { Writable } from 'stream';
+import {
+  SpreadsheetCell,
+  SpreadsheetWriter,
+} from '../interfaces/spreadsheet-writer.interface';
+import { ZipStreamWriter } from '../zip-stream';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const MAIN_NAMESPACE =
+  'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NAMESPACE =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NAMESPACE =
+  'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Estilos das células: 0 = padrão, 1 = data e hora (formato 22 do Excel)
+const DATE_STYLE = 1;
+
+// Dias entre a época do Excel (30/12/1899) e a do Unix (01/01/1970)
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Remove caracteres inválidos em XML e escapa os reservados
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/[^\t\n\r -\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Letra da coluna a partir do índice (0 = A, 26 = AA)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Planilha XLSX (Office Open XML) com uma aba, gerada em streaming
+ * Textos são gravados inline (sem tabela de strings compartilhadas) para não
+ * precisar manter o conteúdo em memória
+ */
+export class XlsxSpreadsheetWriter implements SpreadsheetWriter {
+  readonly contentType =
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+  readonly fileExtension = 'xlsx';
+
+  private zip: ZipStreamWriter;
+  private rowCount = 0;
+
+  constructor(
+    output: Writable,
+    private sheetName = 'Planilha1'
+  ) {
+    this.zip = new ZipStreamWriter(output);
+  }
+
+  async writeRow(values: SpreadsheetCell[]): Promise<void> {
+    if (this.rowCount === 0) {
+      await this.startSheet();
+    }
+
+    const rowNumber = ++this.rowCount;
+    const cells = values
+      .map((value, index) =>
+        this.formatCell(value, `${columnName(index)}${rowNumber}`)
+      )
+      .join('');
+
+    await this.zip.write(`<row r="${rowNumber}">${cells}</row>`);
+  }
+
+  async end(): Promise<void> {
+    if (this.rowCount === 0) {
+      await this.startSheet();
+    }
+
+    await this.zip.write('</sheetData></worksheet>');
+    await this.zip.endEntry();
+
+    await this.addFile(
+      '[Content_Types].xml',
+      `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>'
+    );
+
+    await this.addFile(
+      '_rels/.rels',
+      `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>'
+    );
+
+    await this.addFile(
+      'xl/workbook.xml',
+      `<workbook xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}">` +
+        `<sheets><sheet name="${escapeXml(this.sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>'
+    );
+
+    await this.addFile(
+      'xl/_rels/workbook.xml.rels',
+      `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `<Relationship Id="rId2" Type="${RELATIONSHIP_NAMESPACE}/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    );
+
+    await this.addFile(
+      'xl/styles.xml',
+      `<styleSheet xmlns="${MAIN_NAMESPACE}">` +
+        '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2">' +
+        '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+        '</cellXfs>' +
+        '</styleSheet>'
+    );
+
+    await this.zip.finish();
+  }
+
+  private async startSheet(): Promise<void> {
+    this.zip.startEntry('xl/worksheets/sheet1.xml');
+    await this.zip.write(
+      `${XML_HEADER}<worksheet xmlns="${MAIN_NAMESPACE}"><sheetData>`
+    );
+  }
+
+  private async addFile(name: string, content: string): Promise<void> {
+    this.zip.startEntry(name);
+    await this.zip.write(XML_HEADER + content);
+    await this.zip.endEntry();
+  }
+
+  private formatCell(value: SpreadsheetCell, ref: string): string {
+    if (value === null || value === undefined || value === '') {
+      return '';
+    }
+
+    if (value instanceof Date) {
+      const serial = value.getTime() / MS_PER_DAY + EXCEL_EPOCH_OFFSET_DAYS;
+      return `<c r="${ref}" s="${DATE_STYLE}"><v>${serial}</v></c>`;
+    }
+
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+    }
+
+    if (typeof value === 'boolean') {
+      return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    }
+
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+  }
+}
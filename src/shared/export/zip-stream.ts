@@ -0,0 +1,208 @@
+import { Writable } from 'stream';
+import { constants, deflateRawSync } from 'zlib';
+import { writeChunk } from '@/shared/utils/stream.util';
+
+/**
+ * Tamanho do bloco comprimido de cada vez (dados pendentes em memória)
+ */
+const CHUNK_SIZE = 64 * 1024;
+
+// Flag 3: tamanhos e CRC no descritor após os dados | flag 11: nomes em UTF-8
+const GENERAL_PURPOSE_FLAGS = 0x0808;
+const DEFLATE_METHOD = 8;
+const ZIP_VERSION = 20;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  size: number;
+  compressedSize: number;
+}
+
+/**
+ * Escritor de arquivos ZIP em streaming (sem ZIP64: até 4 GB)
+ * Cada entrada é comprimida em blocos, sem manter o arquivo inteiro em memória
+ *
+ * @example
+ * const zip = new ZipStreamWriter(res);
+ * zip.startEntry('dados.txt');
+ * await zip.write('conteúdo');
+ * await zip.endEntry();
+ * await zip.finish();
+ */
+export class ZipStreamWriter {
+  private entries: ZipEntry[] = [];
+  private current: ZipEntry | null = null;
+  private pending: Buffer[] = [];
+  private pendingSize = 0;
+  private offset = 0;
+  private headerWritten = false;
+
+  // DOS date/time fixos: o conteúdo não depende do horário da geração
+  private readonly dosTime = 0;
+  private readonly dosDate = ((2020 - 1980) << 9) | (1 << 5) | 1;
+
+  constructor(private output: Writable) {}
+
+  /**
+   * Inicia uma nova entrada (arquivo dentro do ZIP)
+   */
+  startEntry(name: string): void {
+    if (this.current) {
+      throw new Error('Finalize a entrada atual antes de iniciar outra');
+    }
+
+    this.current = {
+      name: Buffer.from(name, 'utf8'),
+      offset: this.offset,
+      crc: 0,
+      size: 0,
+      compressedSize: 0,
+    };
+    this.headerWritten = false;
+  }
+
+  /**
+   * Adiciona conteúdo à entrada atual
+   */
+  async write(data: string | Buffer): Promise<void> {
+    const entry = this.requireEntry();
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+
+    entry.crc = crc32(buffer, entry.crc);
+    entry.size += buffer.length;
+    this.pending.push(buffer);
+    this.pendingSize += buffer.length;
+
+    if (this.pendingSize >= CHUNK_SIZE) {
+      await this.flush(false);
+    }
+  }
+
+  /**
+   * Finaliza a entrada atual (bloco final + descritor de dados)
+   */
+  async endEntry(): Promise<void> {
+    const entry = this.requireEntry();
+
+    await this.flush(true);
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.push(descriptor);
+
+    this.entries.push(entry);
+    this.current = null;
+  }
+
+  /**
+   * Escreve o diretório central e encerra o stream de saída
+   */
+  async finish(): Promise<void> {
+    if (this.current) {
+      await this.endEntry();
+    }
+
+    const centralDirectoryOffset = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4);
+      header.writeUInt16LE(ZIP_VERSION, 6);
+      header.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 8);
+      header.writeUInt16LE(DEFLATE_METHOD, 10);
+      header.writeUInt16LE(this.dosTime, 12);
+      header.writeUInt16LE(this.dosDate, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.push(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - centralDirectoryOffset, 12);
+    end.writeUInt32LE(centralDirectoryOffset, 16);
+    await this.push(end);
+
+    await new Promise<void>(resolve => this.output.end(resolve));
+  }
+
+  private requireEntry(): ZipEntry {
+    if (!this.current) {
+      throw new Error('Nenhuma entrada iniciada');
+    }
+    return this.current;
+  }
+
+  /**
+   * Comprime os dados pendentes
+   * Blocos intermediários terminam com SYNC_FLUSH (sem marcar fim do stream),
+   * então podem ser concatenados; o último usa FINISH
+   */
+  private async flush(final: boolean): Promise<void> {
+    const entry = this.requireEntry();
+
+    if (!this.headerWritten) {
+      await this.writeLocalHeader(entry);
+    }
+
+    if (this.pendingSize === 0 && !final) {
+      return;
+    }
+
+    const compressed = deflateRawSync(Buffer.concat(this.pending), {
+      finishFlush: final ? constants.Z_FINISH : constants.Z_SYNC_FLUSH,
+    });
+    this.pending = [];
+    this.pendingSize = 0;
+
+    entry.compressedSize += compressed.length;
+    await this.push(compressed);
+  }
+
+  private async writeLocalHeader(entry: ZipEntry): Promise<void> {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 6);
+    header.writeUInt16LE(DEFLATE_METHOD, 8);
+    header.writeUInt16LE(this.dosTime, 10);
+    header.writeUInt16LE(this.dosDate, 12);
+    // CRC e tamanhos (offsets 14-25) ficam zerados: vão no descritor
+    header.writeUInt16LE(entry.name.length, 26);
+
+    this.headerWritten = true;
+    await this.push(Buffer.concat([header, entry.name]));
+  }
+
+  private async push(buffer: Buffer): Promise<void> {
+    this.offset += buffer.length;
+    await writeChunk(this.output, buffer);
+  }
+}
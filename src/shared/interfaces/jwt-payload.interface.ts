@@ -8,14 +8,29 @@ export interface JwtPayload {
   userId: string;
   gymId: string;
   role: Role;
+  sessionId: string;
 }
 
 /**
  * Payload do Refresh Token (token de longa duração)
  * Contém apenas informações mínimas para segurança
+ * tokenId/familyId apontam para o registro persistido (rotação e revogação)
+ * familyId é o ID da sessão de login
  */
 export interface RefreshTokenPayload {
   userId: string;
+  tokenId: string;
+  familyId: string;
+}
+
+/**
+ * Payload do token de desafio do login em duas etapas (2FA)
+ * Não autoriza nenhuma rota: serve apenas para concluir o login
+ * setupRequired indica que o usuário ainda precisa cadastrar o autenticador
+ */
+export interface TwoFactorChallengePayload {
+  userId: string;
+  setupRequired: boolean;
 }
 
 /**
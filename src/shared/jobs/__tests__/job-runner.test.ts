@@ -0,0 +1,100 @@
+import { JobRun, JobRunStatus } from '@prisma/client';
+import { JobRunner } from '../job-runner';
+import { Job } from '../interfaces/job.interface';
+import {
+  IJobRunRepository,
+  FinishJobRunData,
+} from '../interfaces/job-run-repository.interface';
+
+/**
+ * Repository em memória (não depende do banco)
+ */
+class InMemoryJobRunRepository implements IJobRunRepository {
+  runs: JobRun[] = [];
+
+  async start(jobName: string): Promise<JobRun> {
+    const run: JobRun = {
+      id: String(this.runs.length + 1),
+      jobName,
+      status: JobRunStatus.RUNNING,
+      affectedCount: 0,
+      details: null,
+      error: null,
+      startedAt: new Date(),
+      finishedAt: null,
+    };
+    this.runs.push(run);
+    return run;
+  }
+
+  async finish(id: string, data: FinishJobRunData): Promise<JobRun> {
+    const run = this.runs.find(r => r.id === id)!;
+    Object.assign(run, data, { finishedAt: new Date() });
+    return run;
+  }
+}
+
+async function testJobRunner() {
+  console.log('🧪 Testando JobRunner...\n');
+
+  // Job idempotente: só altera registros na primeira execução
+  const pending = new Set(['a', 'b']);
+  const expireJob: Job = {
+    name: 'fake-expire',
+    async run() {
+      const ids = [...pending];
+      pending.clear();
+      return { affectedCount: ids.length, details: { ids } };
+    },
+  };
+
+  const failingJob: Job = {
+    name: 'fake-failing',
+    async run() {
+      throw new Error('Banco indisponível');
+    },
+  };
+
+  const repository = new InMemoryJobRunRepository();
+  const runner = new JobRunner([failingJob, expireJob], repository);
+
+  // ========================================
+  // TESTE 1: Falha de um job não interrompe os demais
+  // ========================================
+  console.log('1️⃣ Testando isolamento de falhas...');
+  const firstRuns = await runner.runAll();
+  firstRuns.forEach(run => {
+    console.log(
+      `   ${run.jobName}: ${run.status} (${run.affectedCount}) ${run.error ?? ''}`
+    );
+  });
+  console.log(
+    `   ${firstRuns[0].status === JobRunStatus.FAILED && firstRuns[1].status === JobRunStatus.SUCCEEDED ? '✅' : '❌'} Job com falha registrado e seguinte executado\n`
+  );
+
+  // ========================================
+  // TESTE 2: Segunda execução não altera nada
+  // ========================================
+  console.log('2️⃣ Testando idempotência...');
+  const secondRuns = await runner.runAll();
+  console.log(
+    `   ${secondRuns[1].affectedCount === 0 ? '✅' : '❌'} Segunda execução alterou ${secondRuns[1].affectedCount} registro(s)\n`
+  );
+
+  // ========================================
+  // TESTE 3: Execuções sobrepostas são ignoradas
+  // ========================================
+  console.log('3️⃣ Testando execuções sobrepostas...');
+  const [first, overlapping] = await Promise.all([
+    runner.runAll(),
+    runner.runAll(),
+  ]);
+  console.log(
+    `   ${first.length === 2 && overlapping.length === 0 ? '✅' : '❌'} Segunda chamada ignorada enquanto a primeira rodava\n`
+  );
+
+  console.log(`📋 Execuções registradas: ${repository.runs.length}`);
+  console.log('\n✅ Todos os testes do JobRunner concluídos!');
+}
+
+testJobRunner();
@@ -0,0 +1,26 @@
+import { JobRun, JobRunStatus, Prisma } from '@prisma/client';
+
+/**
+ * DTO para finalizar execução de job
+ */
+export interface FinishJobRunData {
+  status: JobRunStatus;
+  affectedCount?: number;
+  details?: Prisma.InputJsonObject;
+  error?: string;
+}
+
+/**
+ * Interface do Repository de Execuções de Jobs
+ */
+export interface IJobRunRepository {
+  /**
+   * Registrar início de execução (status RUNNING)
+   */
+  start(jobName: string): Promise<JobRun>;
+
+  /**
+   * Registrar fim de execução
+   */
+  finish(id: string, data: FinishJobRunData): Promise<JobRun>;
+}
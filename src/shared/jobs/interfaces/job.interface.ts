@@ -0,0 +1,27 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Resultado de uma execução de job
+ * (details é gravado no JobRun para auditoria)
+ */
+export interface JobResult {
+  affectedCount: number;
+  details?: Prisma.InputJsonObject;
+}
+
+/**
+ * Interface de um job agendado
+ * Jobs devem ser idempotentes: rodar duas vezes com o mesmo `now`
+ * não pode alterar nada na segunda execução
+ */
+export interface Job {
+  /**
+   * Nome único do job (usado no CLI e no histórico)
+   */
+  readonly name: string;
+
+  /**
+   * Executar o job tomando `now` como referência de data
+   */
+  run(now: Date): Promise<JobResult>;
+}
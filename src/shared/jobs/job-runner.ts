@@ -0,0 +1,94 @@
+import { JobRun, JobRunStatus } from '@prisma/client';
+import { Job } from './interfaces/job.interface';
+import { IJobRunRepository } from './interfaces/job-run-repository.interface';
+
+/**
+ * Executor de jobs agendados
+ * Roda os jobs em sequência e registra cada execução em JobRun.
+ * A falha de um job não impede os seguintes.
+ */
+export class JobRunner {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private jobs: Job[],
+    private jobRunRepository: IJobRunRepository
+  ) {}
+
+  /**
+   * Executar todos os jobs uma vez
+   * Retorna [] se uma execução anterior ainda estiver em andamento
+   */
+  async runAll(now: Date = new Date()): Promise<JobRun[]> {
+    if (this.running) {
+      return [];
+    }
+
+    this.running = true;
+
+    try {
+      const runs: JobRun[] = [];
+
+      for (const job of this.jobs) {
+        runs.push(await this.runJob(job, now));
+      }
+
+      return runs;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Agendar execução periódica (primeira execução imediata)
+   */
+  start(intervalMs: number): void {
+    if (this.timer) {
+      return;
+    }
+
+    const tick = () => {
+      this.runAll().catch(error => {
+        console.error('❌ Erro ao executar jobs:', error);
+      });
+    };
+
+    tick();
+    this.timer = setInterval(tick, intervalMs);
+
+    // Não impedir o processo de encerrar
+    this.timer.unref();
+  }
+
+  /**
+   * Cancelar execução periódica
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async runJob(job: Job, now: Date): Promise<JobRun> {
+    const jobRun = await this.jobRunRepository.start(job.name);
+
+    try {
+      const result = await job.run(now);
+
+      return await this.jobRunRepository.finish(jobRun.id, {
+        status: JobRunStatus.SUCCEEDED,
+        affectedCount: result.affectedCount,
+        details: result.details,
+      });
+    } catch (error) {
+      console.error(`❌ Job ${job.name} falhou:`, error);
+
+      return this.jobRunRepository.finish(jobRun.id, {
+        status: JobRunStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
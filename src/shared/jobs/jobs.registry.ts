@@ -0,0 +1,16 @@
+import { Job } from './interfaces/job.interface';
+import { ExpireSubscriptionsJob } from '@/modules/subscriptions/jobs/expire-subscriptions.job';
+import { FlagOverduePaymentsJob } from '@/modules/payments/jobs/flag-overdue-payments.job';
+import { PurgeLoginAttemptsJob } from '@/modules/auth/jobs/purge-login-attempts.job';
+import { PrismaSubscriptionRepository } from '@/modules/subscriptions/repositories/prisma-subscription.repository';
+import { PrismaPaymentRepository } from '@/modules/payments/repositories/prisma-payment.repository';
+import { PrismaLoginAttemptStore } from '@/modules/auth/repositories/prisma-login-attempt.store';
+
+/**
+ * Jobs registrados, na ordem de execução
+ */
+export const jobs: Job[] = [
+  new ExpireSubscriptionsJob(new PrismaSubscriptionRepository()),
+  new FlagOverduePaymentsJob(new PrismaPaymentRepository()),
+  new PurgeLoginAttemptsJob(new PrismaLoginAttemptStore()),
+];
@@ -0,0 +1,24 @@
+import { JobRun } from '@prisma/client';
+import { prisma } from '@/config/database';
+import {
+  IJobRunRepository,
+  FinishJobRunData,
+} from '../interfaces/job-run-repository.interface';
+
+export class PrismaJobRunRepository implements IJobRunRepository {
+  async start(jobName: string): Promise<JobRun> {
+    return prisma.jobRun.create({
+      data: { jobName },
+    });
+  }
+
+  async finish(id: string, data: FinishJobRunData): Promise<JobRun> {
+    return prisma.jobRun.update({
+      where: { id },
+      data: {
+        ...data,
+        finishedAt: new Date(),
+      },
+    });
+  }
+}
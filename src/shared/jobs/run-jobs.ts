@@ -0,0 +1,51 @@
+import 'dotenv/config';
+import { JobRunStatus } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { JobRunner } from './job-runner';
+import { jobs } from './jobs.registry';
+import { PrismaJobRunRepository } from './repositories/prisma-job-run.repository';
+
+/**
+ * Execução avulsa dos jobs (ex: cron externo)
+ *
+ * @example
+ * npm run jobs:run                        # todos os jobs
+ * npm run jobs:run -- expire-subscriptions
+ */
+async function runJobs() {
+  const names = process.argv.slice(2);
+  const unknown = names.filter(name => !jobs.some(job => job.name === name));
+
+  if (unknown.length > 0) {
+    console.error(`❌ Job(s) desconhecido(s): ${unknown.join(', ')}`);
+    console.error(`   Disponíveis: ${jobs.map(job => job.name).join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const selected =
+    names.length > 0 ? jobs.filter(job => names.includes(job.name)) : jobs;
+
+  const runner = new JobRunner(selected, new PrismaJobRunRepository());
+  const runs = await runner.runAll();
+
+  for (const run of runs) {
+    const succeeded = run.status === JobRunStatus.SUCCEEDED;
+    console.log(
+      `${succeeded ? '✅' : '❌'} ${run.jobName}: ${
+        succeeded ? `${run.affectedCount} registro(s) alterado(s)` : run.error
+      }`
+    );
+  }
+
+  if (runs.some(run => run.status === JobRunStatus.FAILED)) {
+    process.exitCode = 1;
+  }
+}
+
+runJobs()
+  .catch(error => {
+    console.error('❌ Erro ao executar jobs:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,20 @@
+/**
+ * Mensagem de e-mail
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Interface de um transporte de e-mail
+ * Implementações trocáveis por ambiente (console, arquivo, SMTP...)
+ */
+export interface MailTransport {
+  /**
+   * Enviar mensagem
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { MailTransport } from './interfaces/mail-transport.interface';
+import { ConsoleMailTransport } from './transports/console-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+
+/**
+ * Configurações de e-mail a partir das variáveis de ambiente
+ */
+const MAIL_CONFIG = {
+  transport: process.env.MAIL_TRANSPORT || 'console',
+  from: process.env.MAIL_FROM || 'Gym SaaS <no-reply@gym-saas.local>',
+  outboxDir: process.env.MAIL_OUTBOX_DIR || 'tmp/mail',
+};
+
+/**
+ * Cria o transporte configurado em MAIL_TRANSPORT (console | file)
+ */
+export function createMailTransport(): MailTransport {
+  switch (MAIL_CONFIG.transport) {
+    case 'console':
+      return new ConsoleMailTransport(MAIL_CONFIG.from);
+    case 'file':
+      return new FileMailTransport(MAIL_CONFIG.from, MAIL_CONFIG.outboxDir);
+    default:
+      throw new Error(
+        `Unknown MAIL_TRANSPORT "${MAIL_CONFIG.transport}". Use console or file`
+      );
+  }
+}
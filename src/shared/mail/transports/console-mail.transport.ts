@@ -0,0 +1,24 @@
+import {
+  MailMessage,
+  MailTransport,
+} from '../interfaces/mail-transport.interface';
+
+/**
+ * Transporte de desenvolvimento: imprime o e-mail no console
+ */
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      [
+        '📧 E-mail (console)',
+        `   De: ${this.from}`,
+        `   Para: ${message.to}`,
+        `   Assunto: ${message.subject}`,
+        '',
+        message.text,
+      ].join('\n')
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  MailMessage,
+  MailTransport,
+} from '../interfaces/mail-transport.interface';
+
+/**
+ * Transporte local: grava cada e-mail como JSON em um diretório (caixa de saída)
+ * Útil para testes e para inspecionar links sem um servidor SMTP
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(
+    private from: string,
+    private outboxDir: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outboxDir, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${message.to.replace(/[^a-z0-9.@-]/gi, '_')}.json`;
+
+    await writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ from: this.from, sentAt, ...message }, null, 2)
+    );
+  }
+}
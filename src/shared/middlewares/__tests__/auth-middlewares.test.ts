@@ -1,12 +1,17 @@
 import 'dotenv/config';
 import express from 'express';
 import request from 'supertest';
-import { authenticate } from '../authenticate.middleware';
+import { createAuthenticate } from '../authenticate.middleware';
 import { authorize } from '../authorize.middleware';
 import { generateAccessToken } from '@/shared/utils/jwt.util';
 import { Role } from '@prisma/client';
 import cookieParser from 'cookie-parser';
 
+// Sessões em memória: apenas 'session-revoked' foi encerrada
+const authenticate = createAuthenticate({
+  isActive: async (sessionId: string) => sessionId !== 'session-revoked',
+});
+
 const app = express();
 app.use(express.json());
 app.use(cookieParser());
@@ -48,18 +53,29 @@ async function testAuthMiddlewares() {
     userId: 'user-123',
     gymId: 'gym-abc',
     role: Role.MEMBER,
+    sessionId: 'session-123',
   });
 
   const instructorToken = generateAccessToken({
     userId: 'user-456',
     gymId: 'gym-abc',
     role: Role.INSTRUCTOR,
+    sessionId: 'session-456',
   });
 
   const adminToken = generateAccessToken({
     userId: 'user-789',
     gymId: 'gym-abc',
     role: Role.ADMIN,
+    sessionId: 'session-789',
+  });
+
+  // Token ainda válido de uma sessão encerrada (ex: usuário desativado)
+  const revokedToken = generateAccessToken({
+    userId: 'user-000',
+    gymId: 'gym-abc',
+    role: Role.MEMBER,
+    sessionId: 'session-revoked',
   });
 
   try {
@@ -141,6 +157,18 @@ async function testAuthMiddlewares() {
     console.log(`   Status: ${memberStaffResponse.status}`);
     console.log(`   ✅ Acesso negado (403 esperado)\n`);
 
+    // ========================================
+    // TESTE 9: Token de sessão encerrada
+    // ========================================
+    console.log('9️⃣ Testando token de sessão encerrada...');
+    const revokedResponse = await request(app)
+      .get('/protected')
+      .set('Cookie', [`accessToken=${revokedToken}`]);
+    console.log(`   Status: ${revokedResponse.status}`);
+    console.log(
+      `   ${revokedResponse.status === 401 ? '✅' : '❌'} Acesso negado antes de o token expirar\n`
+    );
+
     console.log('✅ Todos os testes de middlewares passaram!');
   } catch (error) {
     console.error('❌ Erro nos testes:', error);
@@ -0,0 +1,124 @@
+import 'dotenv/config';
+import express from 'express';
+import request from 'supertest';
+import cookieParser from 'cookie-parser';
+import { Role } from '@prisma/client';
+import { rateLimit } from '../rate-limit.middleware';
+import { errorHandler } from '../error-handler';
+import { InMemoryRateLimitStore } from '@/shared/rate-limit/stores/in-memory-rate-limit.store';
+import { generateAccessToken } from '@/shared/utils/jwt.util';
+
+// Janela longa: o teste não atravessa a virada de janela
+const windowMs = 60 * 60 * 1000;
+
+const incrementedKeys: string[] = [];
+const store = new InMemoryRateLimitStore();
+const spyStore = {
+  increment: (key: string, windowStart: number, windowMs: number) => {
+    incrementedKeys.push(key);
+    return store.increment(key, windowStart, windowMs);
+  },
+  get: (key: string, windowStart: number) => store.get(key, windowStart),
+};
+
+const app = express();
+app.use(express.json());
+app.use(cookieParser());
+app.use(
+  '/auth',
+  rateLimit({ name: 'auth', windowMs, limit: 2, store: spyStore })
+);
+app.use(
+  rateLimit({
+    name: 'api',
+    windowMs,
+    limit: 3,
+    store: spyStore,
+    skip: req => req.path.startsWith('/auth'),
+  })
+);
+
+app.post('/auth/login', (_req, res) => {
+  res.json({ message: 'Login' });
+});
+
+app.get('/items', (_req, res) => {
+  res.json({ message: 'Itens' });
+});
+
+app.use(errorHandler);
+
+async function testRateLimit() {
+  console.log('🧪 Testando Rate Limiting...\n');
+
+  const memberToken = generateAccessToken({
+    userId: 'user-123',
+    gymId: 'gym-abc',
+    role: Role.MEMBER,
+    sessionId: 'session-123',
+  });
+
+  try {
+    // ========================================
+    // TESTE 1: Cabeçalhos RateLimit-*
+    // ========================================
+    console.log('1️⃣ Testando cabeçalhos...');
+    const first = await request(app).get('/items');
+    console.log(`   Status: ${first.status}`);
+    console.log(`   RateLimit-Policy: ${first.headers['ratelimit-policy']}`);
+    console.log(`   RateLimit-Limit: ${first.headers['ratelimit-limit']}`);
+    console.log(
+      `   ${first.headers['ratelimit-remaining'] === '2' ? '✅' : '❌'} RateLimit-Remaining: ${first.headers['ratelimit-remaining']}\n`
+    );
+
+    // ========================================
+    // TESTE 2: Estouro do orçamento da API
+    // ========================================
+    console.log('2️⃣ Testando estouro do limite...');
+    await request(app).get('/items');
+    await request(app).get('/items');
+    const blocked = await request(app).get('/items');
+    console.log(`   Status: ${blocked.status}`);
+    console.log(`   Mensagem: ${blocked.body.message}`);
+    console.log(
+      `   ${blocked.status === 429 && blocked.headers['retry-after'] ? '✅' : '❌'} 429 com Retry-After: ${blocked.headers['retry-after']}\n`
+    );
+
+    // ========================================
+    // TESTE 3: Orçamento separado para autenticação
+    // ========================================
+    console.log('3️⃣ Testando orçamento de /auth...');
+    const authResponse = await request(app).post('/auth/login');
+    console.log(
+      `   ${authResponse.status === 200 ? '✅' : '❌'} /auth liberado com a API bloqueada`
+    );
+    await request(app).post('/auth/login');
+    const authBlocked = await request(app).post('/auth/login');
+    console.log(
+      `   ${authBlocked.status === 429 ? '✅' : '❌'} /auth bloqueado após 2 requisições`
+    );
+    console.log(
+      `   ${incrementedKeys.filter(key => key.startsWith('api:')).length === 4 ? '✅' : '❌'} /auth não consome o orçamento da API\n`
+    );
+
+    // ========================================
+    // TESTE 4: Chave por usuário autenticado
+    // ========================================
+    console.log('4️⃣ Testando chave por usuário...');
+    const userResponse = await request(app)
+      .get('/items')
+      .set('Authorization', `Bearer ${memberToken}`);
+    console.log(
+      `   ${userResponse.status === 200 ? '✅' : '❌'} Usuário autenticado tem orçamento próprio`
+    );
+    console.log(
+      `   ${incrementedKeys.includes('api:user:user-123') ? '✅' : '❌'} Chave: api:user:user-123\n`
+    );
+
+    console.log('✅ Todos os testes de Rate Limiting passaram!\n');
+  } catch (error) {
+    console.error('❌ Erro nos testes:', error);
+  }
+}
+
+testRateLimit();
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken } from '@/shared/utils/jwt.util';
 import { AppError } from '@/shared/errors/app-error';
+import { DecodedToken } from '@/shared/interfaces/jwt-payload.interface';
+import { IAuthSessionRepository } from '@/modules/auth/interfaces/auth-session-repository.interface';
+import { PrismaAuthSessionRepository } from '@/modules/auth/repositories/prisma-auth-session.repository';
 
 /**
  * Extensão do tipo Request para incluir dados do usuário autenticado
@@ -11,45 +14,73 @@ declare global {
       userId?: string;
       gymId?: string;
       userRole?: string;
+      sessionId?: string;
     }
   }
 }
 
 /**
- * Middleware de autenticação
- * Valida o JWT e injeta dados do usuário na requisição
+ * Cria o middleware de autenticação
+ * Valida o JWT, confere se a sessão continua aberta e o usuário ativo
+ * (logout remoto e desativação valem imediatamente, sem esperar o
+ * Access Token expirar) e injeta dados do usuário na requisição
  */
-export function authenticate(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void {
-  try {
-    // 1. Pegar token do cookie OU header Authorization
-    const tokenFromCookie = req.cookies.accessToken;
-    const tokenFromHeader = req.headers.authorization?.replace('Bearer ', '');
-
-    const token = tokenFromCookie || tokenFromHeader;
-
-    if (!token) {
-      throw new AppError('Token de autenticação não fornecido', 401);
-    }
+export function createAuthenticate(
+  authSessionRepository: Pick<IAuthSessionRepository, 'isActive'>
+) {
+  return async function authenticate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      // 1. Pegar token do cookie OU header Authorization
+      const tokenFromCookie = req.cookies.accessToken;
+      const tokenFromHeader = req.headers.authorization?.replace('Bearer ', '');
+
+      const token = tokenFromCookie || tokenFromHeader;
+
+      if (!token) {
+        throw new AppError('Token de autenticação não fornecido', 401);
+      }
+
+      // 2. Validar e decodificar token
+      let decoded: DecodedToken;
+      try {
+        decoded = verifyAccessToken(token);
+      } catch {
+        throw new AppError('Token inválido ou expirado', 401);
+      }
+
+      // 3. Sessão encerrada ou usuário desativado após a emissão do token
+      const isSessionActive =
+        !!decoded.sessionId &&
+        (await authSessionRepository.isActive(
+          decoded.sessionId,
+          decoded.userId
+        ));
 
-    // 2. Validar e decodificar token
-    const decoded = verifyAccessToken(token);
+      if (!isSessionActive) {
+        throw new AppError('Sessão encerrada', 401);
+      }
 
-    // 3. Injetar dados na requisição
-    req.userId = decoded.userId;
-    req.gymId = decoded.gymId;
-    req.userRole = decoded.role;
+      // 4. Injetar dados na requisição
+      req.userId = decoded.userId;
+      req.gymId = decoded.gymId;
+      req.userRole = decoded.role;
+      req.sessionId = decoded.sessionId;
 
-    // 4. Continuar para próximo middleware/controller
-    next();
-  } catch (error) {
-    if (error instanceof AppError) {
+      // 5. Continuar para próximo middleware/controller
+      next();
+    } catch (error) {
       next(error);
-    } else {
-      next(new AppError('Token inválido ou expirado', 401));
     }
-  }
-}
\ No newline at end of file
+  };
+}
+
+/**
+ * Middleware de autenticação (sessões no Postgres)
+ */
+export const authenticate = createAuthenticate(
+  new PrismaAuthSessionRepository()
+);
@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { RateLimitStore } from '@/shared/rate-limit/interfaces/rate-limit-store.interface';
+import { InMemoryRateLimitStore } from '@/shared/rate-limit/stores/in-memory-rate-limit.store';
+import { verifyAccessToken } from '@/shared/utils/jwt.util';
+import { AppError } from '@/shared/errors/app-error';
+
+/**
+ * Opções do rate limiter
+ */
+export interface RateLimitOptions {
+  name: string; // Prefixo das chaves (orçamentos separados no mesmo store)
+  windowMs: number;
+  limit: number;
+  store?: RateLimitStore;
+  keyGenerator?: (req: Request) => string;
+  skip?: (req: Request) => boolean;
+}
+
+const defaultStore = new InMemoryRateLimitStore();
+
+/**
+ * Chave padrão: usuário autenticado quando houver token válido, senão IP
+ * (roda antes do authenticate, por isso lê o token diretamente)
+ */
+export function resolveClientKey(req: Request): string {
+  if (req.userId) {
+    return `user:${req.userId}`;
+  }
+
+  const token =
+    req.cookies?.accessToken ||
+    req.headers.authorization?.replace('Bearer ', '');
+
+  if (token) {
+    try {
+      return `user:${verifyAccessToken(token).userId}`;
+    } catch {
+      // Token inválido: limita pelo IP
+    }
+  }
+
+  return `ip:${req.ip}`;
+}
+
+/**
+ * Middleware de rate limiting com janela deslizante
+ * Estima as requisições da última janela ponderando a janela fixa anterior
+ * e define os cabeçalhos RateLimit-* (draft IETF)
+ *
+ * @example
+ * router.use(rateLimit({ name: 'auth', windowMs: 60_000, limit: 30 }));
+ */
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+  const store = options.store ?? defaultStore;
+  const keyGenerator = options.keyGenerator ?? resolveClientKey;
+  const windowSeconds = Math.ceil(options.windowMs / 1000);
+
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (options.skip?.(req)) {
+        return next();
+      }
+
+      const key = `${options.name}:${keyGenerator(req)}`;
+      const now = Date.now();
+      const windowStart = now - (now % options.windowMs);
+
+      const previous = await store.get(key, windowStart - options.windowMs);
+      const current = await store.increment(key, windowStart, options.windowMs);
+
+      // Parcela da janela anterior que ainda está dentro da janela deslizante
+      const previousWeight = 1 - (now - windowStart) / options.windowMs;
+      const used = Math.floor(previous * previousWeight) + current;
+      const resetSeconds = Math.ceil(
+        (windowStart + options.windowMs - now) / 1000
+      );
+
+      res.setHeader('RateLimit-Policy', `${options.limit};w=${windowSeconds}`);
+      res.setHeader('RateLimit-Limit', options.limit);
+      res.setHeader('RateLimit-Remaining', Math.max(options.limit - used, 0));
+      res.setHeader('RateLimit-Reset', resetSeconds);
+
+      if (used > options.limit) {
+        res.setHeader('Retry-After', resetSeconds);
+        throw new AppError(
+          'Muitas requisições. Tente novamente mais tarde',
+          429,
+          true,
+          { retryAfterSeconds: resetSeconds }
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * Store de contadores do rate limiter
+ * Cada contador pertence a uma janela fixa (início em ms desde a época);
+ * o middleware combina a janela atual com a anterior (janela deslizante)
+ */
+export interface RateLimitStore {
+  /**
+   * Incrementar o contador da janela e retornar o novo total
+   */
+  increment(
+    key: string,
+    windowStart: number,
+    windowMs: number
+  ): Promise<number>;
+
+  /**
+   * Buscar o contador de uma janela (0 se não existir)
+   */
+  get(key: string, windowStart: number): Promise<number>;
+}
@@ -0,0 +1,52 @@
+import { RateLimitStore } from '../interfaces/rate-limit-store.interface';
+
+// Intervalo mínimo entre varreduras de contadores expirados
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Store em memória (padrão)
+ * Contadores ficam no processo: com várias instâncias, cada uma limita sozinha
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+  private lastSweepAt = 0;
+
+  async increment(
+    key: string,
+    windowStart: number,
+    windowMs: number
+  ): Promise<number> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const counterKey = `${key}:${windowStart}`;
+    const counter = this.counters.get(counterKey) ?? {
+      count: 0,
+      // A janela ainda é lida como "anterior" durante a próxima janela
+      expiresAt: windowStart + 2 * windowMs,
+    };
+
+    counter.count += 1;
+    this.counters.set(counterKey, counter);
+
+    return counter.count;
+  }
+
+  async get(key: string, windowStart: number): Promise<number> {
+    return this.counters.get(`${key}:${windowStart}`)?.count ?? 0;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweepAt < SWEEP_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastSweepAt = now;
+
+    for (const [counterKey, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(counterKey);
+      }
+    }
+  }
+}
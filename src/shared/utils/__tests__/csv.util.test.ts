@@ -0,0 +1,77 @@
+import { formatCsvRow, parseCsv } from '../csv.util';
+
+function testCsvUtils() {
+  console.log('🧪 Testando utilitários de CSV...\n');
+
+  // ========================================
+  // TESTE 1: Separador vírgula
+  // ========================================
+  console.log('1️⃣ Testando CSV separado por vírgula...');
+  const commaRows = parseCsv('name,email\nAna,ana@email.com\n');
+  console.log(
+    `   ${
+      JSON.stringify(commaRows) ===
+      JSON.stringify([
+        ['name', 'email'],
+        ['Ana', 'ana@email.com'],
+      ])
+        ? '✅'
+        : '❌'
+    } ${JSON.stringify(commaRows)}\n`
+  );
+
+  // ========================================
+  // TESTE 2: Separador ponto e vírgula (Excel pt-BR) com BOM e CRLF
+  // ========================================
+  console.log('2️⃣ Testando CSV do Excel (;, BOM e CRLF)...');
+  const excelRows = parseCsv('\uFEFFnome;email\r\nJoão;joao@email.com\r\n');
+  console.log(
+    `   ${excelRows[0][0] === 'nome' && excelRows[1][0] === 'João' ? '✅' : '❌'} ${JSON.stringify(excelRows)}\n`
+  );
+
+  // ========================================
+  // TESTE 3: Campos entre aspas
+  // ========================================
+  console.log('3️⃣ Testando campos entre aspas...');
+  const quotedRows = parseCsv(
+    'name,note\n"Silva, Maria","Disse ""oi""\nem duas linhas"\n'
+  );
+  const [name, note] = quotedRows[1];
+  console.log(
+    `   ${name === 'Silva, Maria' ? '✅' : '❌'} Separador dentro de aspas: ${name}`
+  );
+  console.log(
+    `   ${note === 'Disse "oi"\nem duas linhas' ? '✅' : '❌'} Aspas duplicadas e quebra de linha\n`
+  );
+
+  // ========================================
+  // TESTE 4: Linhas vazias e campos vazios
+  // ========================================
+  console.log('4️⃣ Testando linhas e campos vazios...');
+  const sparseRows = parseCsv('name,cpf,phone\n\nAna,,\n,,\n');
+  console.log(
+    `   ${sparseRows.length === 2 ? '✅' : '❌'} Linhas vazias ignoradas: ${sparseRows.length} linhas`
+  );
+  console.log(
+    `   ${sparseRows[1].length === 3 ? '✅' : '❌'} Campos vazios preservados: ${JSON.stringify(sparseRows[1])}\n`
+  );
+
+  // ========================================
+  // TESTE 5: Formatação de linha (ida e volta)
+  // ========================================
+  console.log('5️⃣ Testando formatação de linha...');
+  const values = ['Silva; Maria', 'Disse "oi"', '=1+1', 'comum'];
+  const line = formatCsvRow(values, ';');
+  const [parsed] = parseCsv(line, ';');
+  console.log(`   Linha: ${line}`);
+  console.log(
+    `   ${parsed[0] === values[0] && parsed[1] === values[1] ? '✅' : '❌'} Aspas e separador preservados`
+  );
+  console.log(
+    `   ${parsed[2] === "'=1+1" ? '✅' : '❌'} Fórmula neutralizada: ${parsed[2]}\n`
+  );
+
+  console.log('✅ Todos os testes de CSV passaram!');
+}
+
+testCsvUtils();
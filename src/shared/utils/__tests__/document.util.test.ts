@@ -0,0 +1,57 @@
+import { isValidCnpj, isValidCpf, onlyDigits } from '../document.util';
+
+function testDocumentUtils() {
+  console.log('🧪 Testando utilitários de documentos (CPF/CNPJ)...\n');
+
+  // ========================================
+  // TESTE 1: CPF
+  // ========================================
+  console.log('1️⃣ Testando validação de CPF...');
+  const cpfCases: [string, boolean][] = [
+    ['52998224725', true],
+    ['529.982.247-25', true],
+    ['52998224724', false],
+    ['111.111.111-11', false],
+    ['5299822472', false],
+    ['529-982-247.25', false],
+  ];
+  for (const [cpf, expected] of cpfCases) {
+    const valid = isValidCpf(cpf);
+    console.log(
+      `   ${valid === expected ? '✅' : '❌'} ${cpf}: ${valid ? 'válido' : 'inválido'}`
+    );
+  }
+  console.log('');
+
+  // ========================================
+  // TESTE 2: CNPJ
+  // ========================================
+  console.log('2️⃣ Testando validação de CNPJ...');
+  const cnpjCases: [string, boolean][] = [
+    ['11222333000181', true],
+    ['11.222.333/0001-81', true],
+    ['11222333000180', false],
+    ['00.000.000/0000-00', false],
+    ['1122233300018', false],
+  ];
+  for (const [cnpj, expected] of cnpjCases) {
+    const valid = isValidCnpj(cnpj);
+    console.log(
+      `   ${valid === expected ? '✅' : '❌'} ${cnpj}: ${valid ? 'válido' : 'inválido'}`
+    );
+  }
+  console.log('');
+
+  // ========================================
+  // TESTE 3: Normalização
+  // ========================================
+  console.log('3️⃣ Testando remoção da máscara...');
+  const digits = onlyDigits('11.222.333/0001-81');
+  console.log(
+    `   ${digits === '11222333000181' ? '✅' : '❌'} 11.222.333/0001-81 → ${digits}\n`
+  );
+
+  console.log('✅ Todos os testes de documentos passaram!');
+}
+
+testDocumentUtils();
@@ -14,6 +14,7 @@ async function testJwtUtils() {
     userId: '123e4567-e89b-12d3-a456-426614174000',
     gymId: 'gym-abc-123',
     role: 'MEMBER' as const,
+    sessionId: 'session-123',
   };
 
   // Teste 1: Gerar Access Token
@@ -44,7 +45,11 @@ async function testJwtUtils() {
 
   // Teste 4: Gerar Refresh Token
   console.log('4️⃣ Gerando Refresh Token...');
-  const refreshToken = generateRefreshToken({ userId: mockPayload.userId });
+  const refreshToken = generateRefreshToken({
+    userId: mockPayload.userId,
+    tokenId: 'token-123',
+    familyId: mockPayload.sessionId,
+  });
   console.log(`   Token: ${refreshToken.substring(0, 50)}...`);
   console.log(`   ✅ Refresh Token gerado\n`);
 
@@ -53,7 +58,8 @@ async function testJwtUtils() {
   try {
     const verifiedRefresh = verifyRefreshToken(refreshToken);
     console.log(`   ✅ Refresh Token válido!`);
-    console.log(`   User ID: ${verifiedRefresh.userId}\n`);
+    console.log(`   User ID: ${verifiedRefresh.userId}`);
+    console.log(`   Família: ${verifiedRefresh.familyId}\n`);
   } catch (error) {
     console.log(`   ❌ Erro: ${error}\n`);
   }
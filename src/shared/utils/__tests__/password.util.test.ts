@@ -1,4 +1,9 @@
-import { hashPassword, comparePassword } from '../password.util';
+import {
+  hashPassword,
+  comparePassword,
+  generateTemporaryPassword,
+} from '../password.util';
+import { passwordSchema } from '@/modules/auth/dtos/auth.dto';
 
 async function testPasswordUtils() {
   console.log('🧪 Testando utilitários de senha...\n');
@@ -38,6 +43,17 @@ async function testPasswordUtils() {
   const duration = Date.now() - start;
   console.log(`   ⏱️  5 hashes gerados em ${duration}ms (~${duration / 5}ms por hash)\n`);
 
+  // Teste 6: Senha temporária atende às regras de senha
+  console.log('5️⃣ Testando senha temporária...');
+  const temporaryPasswords = Array.from({ length: 20 }, () =>
+    generateTemporaryPassword()
+  );
+  const allValid = temporaryPasswords.every(
+    temporary => passwordSchema.safeParse(temporary).success
+  );
+  console.log(`   Exemplo: ${temporaryPasswords[0]}`);
+  console.log(`   ✅ Senhas temporárias válidas: ${allValid}\n`);
+
   console.log('✅ Todos os testes passaram!');
 }
 
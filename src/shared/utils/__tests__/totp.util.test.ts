@@ -0,0 +1,76 @@
+import {
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from '../totp.util';
+
+// Segredo ASCII "12345678901234567890" dos vetores de teste da RFC 6238
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const RFC_VECTORS: [number, string][] = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130'],
+];
+
+function testTotpUtils() {
+  console.log('🧪 Testando utilitários de TOTP...\n');
+
+  // ========================================
+  // TESTE 1: Vetores da RFC 6238 (SHA-1, 8 dígitos)
+  // ========================================
+  console.log('1️⃣ Testando vetores da RFC 6238...');
+  RFC_VECTORS.forEach(([seconds, expected]) => {
+    const code = generateTotp(RFC_SECRET, seconds * 1000, 8);
+    console.log(
+      `   ${code === expected ? '✅' : '❌'} T=${seconds}: ${code} (esperado ${expected})`
+    );
+  });
+  console.log('');
+
+  // ========================================
+  // TESTE 2: Segredo gerado e margem de relógio
+  // ========================================
+  console.log('2️⃣ Testando validação com margem...');
+  const secret = generateTotpSecret();
+  const now = Date.now();
+  console.log(`   Segredo: ${secret} (${secret.length} caracteres)`);
+
+  const currentCode = generateTotp(secret, now);
+  const previousCode = generateTotp(secret, now - 30 * 1000);
+  const oldCode = generateTotp(secret, now - 5 * 60 * 1000);
+  console.log(
+    `   ${verifyTotp(secret, currentCode, 1, now) !== null ? '✅' : '❌'} Código atual aceito`
+  );
+  console.log(
+    `   ${verifyTotp(secret, previousCode, 1, now) !== null ? '✅' : '❌'} Código do passo anterior aceito`
+  );
+  console.log(
+    `   ${verifyTotp(secret, oldCode, 1, now) === null ? '✅' : '❌'} Código de 5 minutos atrás recusado`
+  );
+  console.log(
+    `   ${verifyTotp(secret, 'abc123', 1, now) === null ? '✅' : '❌'} Código não numérico recusado\n`
+  );
+
+  // ========================================
+  // TESTE 3: URI otpauth
+  // ========================================
+  console.log('3️⃣ Testando URI otpauth...');
+  const uri = buildOtpauthUri({
+    secret,
+    accountName: 'maria@example.com',
+    issuer: 'Academia Centro',
+  });
+  console.log(`   URI: ${uri}`);
+  console.log(
+    `   ${uri.startsWith('otpauth://totp/Academia%20Centro:maria%40example.com?secret=') ? '✅' : '❌'} Rótulo e segredo corretos\n`
+  );
+
+  console.log('✅ Todos os testes de TOTP passaram!\n');
+}
+
+testTotpUtils();
@@ -0,0 +1,103 @@
+/**
+ * Detecta o separador pela primeira linha do arquivo
+ * Planilhas exportadas em pt-BR costumam usar ";" no lugar de ","
+ */
+function detectDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const semicolons = firstLine.split(';').length;
+  const commas = firstLine.split(',').length;
+  return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Converte o conteúdo de um arquivo CSV em linhas e colunas (RFC 4180)
+ * Suporta campos entre aspas (com separador, aspas duplicadas e quebras de linha)
+ * Linhas totalmente vazias são ignoradas
+ *
+ * @param content - Conteúdo do arquivo
+ * @param delimiter - Separador (padrão: detectado pela primeira linha)
+ * @returns Lista de linhas, cada uma com a lista de valores
+ *
+ * @example
+ * parseCsv('nome;email\nAna;ana@email.com');
+ * // [['nome', 'email'], ['Ana', 'ana@email.com']]
+ */
+export function parseCsv(
+  content: string,
+  delimiter: string = detectDelimiter(content)
+): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const pushRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      pushRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Formata uma linha CSV (RFC 4180), colocando entre aspas quando necessário
+ * Valores iniciados por =, +, -, @ ou tab recebem um apóstrofo na frente
+ * para não serem interpretados como fórmula pelo Excel (CSV injection)
+ *
+ * @example
+ * formatCsvRow(['Ana', 'Silva; Maria', '=1+1'], ';');
+ * // 'Ana;"Silva; Maria";\'=1+1'
+ */
+export function formatCsvRow(values: string[], delimiter = ','): string {
+  return values
+    .map(value => {
+      const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+      if (
+        safe.includes(delimiter) ||
+        safe.includes('"') ||
+        /[\r\n]/.test(safe)
+      ) {
+        return `"${safe.replace(/"/g, '""')}"`;
+      }
+
+      return safe;
+    })
+    .join(delimiter);
+}
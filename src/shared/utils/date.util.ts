@@ -0,0 +1,51 @@
+/**
+ * Soma meses a uma data sem alterar a original
+ * Se o dia não existir no mês de destino (ex: 31/01 + 1 mês),
+ * usa o último dia do mês
+ *
+ * @example
+ * addMonths(new Date('2025-01-31'), 1); // 2025-02-28
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getDate();
+
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+
+  const lastDayOfMonth = new Date(
+    result.getFullYear(),
+    result.getMonth() + 1,
+    0
+  ).getDate();
+  result.setDate(Math.min(day, lastDayOfMonth));
+
+  return result;
+}
+
+/**
+ * Soma dias a uma data sem alterar a original
+ *
+ * @example
+ * addDays(new Date('2025-01-30'), 5); // 2025-02-04
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Início da semana (segunda-feira, 00:00 UTC) da data informada
+ *
+ * @example
+ * startOfWeek(new Date('2025-01-30T15:00:00Z')); // 2025-01-27T00:00:00Z
+ */
+export function startOfWeek(date: Date): Date {
+  const result = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  const daysSinceMonday = (result.getUTCDay() + 6) % 7;
+  result.setUTCDate(result.getUTCDate() - daysSinceMonday);
+  return result;
+}
@@ -0,0 +1,90 @@
+/**
+ * CPF com ou sem máscara (ex: 123.456.789-09 ou 12345678909)
+ */
+const CPF_PATTERN = /^\d{3}\.?\d{3}\.?\d{3}-?\d{2}$/;
+
+/**
+ * CNPJ com ou sem máscara (ex: 12.345.678/0001-95 ou 12345678000195)
+ */
+const CNPJ_PATTERN = /^\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}$/;
+
+/**
+ * Remove tudo que não for dígito
+ *
+ * @example
+ * onlyDigits('123.456.789-09'); // '12345678909'
+ */
+export function onlyDigits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Dígito verificador (módulo 11) a partir dos pesos informados
+ */
+function checkDigit(digits: string, weights: number[]): number {
+  const sum = weights.reduce(
+    (total, weight, index) => total + Number(digits[index]) * weight,
+    0
+  );
+  const rest = sum % 11;
+
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+/**
+ * Sequências repetidas (ex: 111.111.111-11) passam no cálculo
+ * dos dígitos, mas não são documentos válidos
+ */
+function isRepeatedSequence(digits: string): boolean {
+  return /^(\d)\1+$/.test(digits);
+}
+
+/**
+ * Valida CPF (formato e dígitos verificadores)
+ * Aceita o valor com ou sem máscara
+ *
+ * @example
+ * isValidCpf('529.982.247-25'); // true
+ * isValidCpf('11111111111'); // false
+ */
+export function isValidCpf(value: string): boolean {
+  if (!CPF_PATTERN.test(value)) {
+    return false;
+  }
+
+  const digits = onlyDigits(value);
+
+  if (isRepeatedSequence(digits)) {
+    return false;
+  }
+
+  const first = checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+
+  return first === Number(digits[9]) && second === Number(digits[10]);
+}
+
+/**
+ * Valida CNPJ (formato e dígitos verificadores)
+ * Aceita o valor com ou sem máscara
+ *
+ * @example
+ * isValidCnpj('11.222.333/0001-81'); // true
+ * isValidCnpj('11222333000180'); // false
+ */
+export function isValidCnpj(value: string): boolean {
+  if (!CNPJ_PATTERN.test(value)) {
+    return false;
+  }
+
+  const digits = onlyDigits(value);
+
+  if (isRepeatedSequence(digits)) {
+    return false;
+  }
+
+  const first = checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+
+  return first === Number(digits[12]) && second === Number(digits[13]);
+}
@@ -2,6 +2,7 @@ import jwt from 'jsonwebtoken';
 import {
   JwtPayload,
   RefreshTokenPayload,
+  TwoFactorChallengePayload,
   DecodedToken,
 } from '@/shared/interfaces/jwt-payload.interface';
 
@@ -13,6 +14,7 @@ const JWT_CONFIG = {
   refreshSecret: process.env.JWT_REFRESH_SECRET!,
   accessExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
   refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+  twoFactorChallengeExpiresInSeconds: 5 * 60,
 };
 
 // Validação das variáveis de ambiente (fail-fast)
@@ -130,6 +132,61 @@ export function verifyRefreshToken(
   }
 }
 
+/**
+ * Gera o token de desafio do login em duas etapas (5 minutos)
+ * Usa audience própria: não é aceito como Access Token
+ *
+ * @param payload - Usuário e se o cadastro do 2FA é obrigatório
+ * @returns Token JWT assinado
+ */
+export function generateTwoFactorChallengeToken(
+  payload: TwoFactorChallengePayload
+): string {
+  return jwt.sign(payload, JWT_CONFIG.accessSecret, {
+    expiresIn: JWT_CONFIG.twoFactorChallengeExpiresInSeconds,
+    issuer: 'gym-saas-api',
+    audience: 'gym-saas-2fa',
+  });
+}
+
+/**
+ * Valida e decodifica o token de desafio do login em duas etapas
+ *
+ * @param token - Token JWT a ser validado
+ * @returns Payload decodificado
+ * @throws Error se o token for inválido ou expirado
+ */
+export function verifyTwoFactorChallengeToken(
+  token: string
+): TwoFactorChallengePayload {
+  try {
+    return jwt.verify(token, JWT_CONFIG.accessSecret, {
+      issuer: 'gym-saas-api',
+      audience: 'gym-saas-2fa',
+    }) as TwoFactorChallengePayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new Error('Two-factor challenge token expired');
+    }
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new Error('Invalid two-factor challenge token');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Data de expiração de um token (claim exp)
+ * Usada para persistir a validade do Refresh Token
+ *
+ * @param token - Token JWT
+ * @returns Data de expiração
+ */
+export function getTokenExpiration(token: string): Date {
+  const { exp } = jwt.decode(token) as { exp: number };
+  return new Date(exp * 1000);
+}
+
 /**
  * Decodifica um token SEM validar a assinatura
  * Útil para debugging ou para ler informações antes de validar
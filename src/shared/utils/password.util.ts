@@ -1,4 +1,5 @@
 import bcrypt from 'bcryptjs';
+import { randomInt } from 'crypto';
 
 /**
  * Configuração do custo do hash (rounds)
@@ -41,4 +42,34 @@ export async function comparePassword(
   hash: string
 ): Promise<boolean> {
   return bcrypt.compare(password, hash);
+}
+
+/**
+ * Gera uma senha temporária que atende às regras de senha
+ * (ao menos uma maiúscula, uma minúscula e um número)
+ *
+ * @param length - Tamanho da senha (padrão: 12)
+ * @returns Senha em texto plano (deve ser trocada pelo usuário)
+ */
+export function generateTemporaryPassword(length = 12): string {
+  // Sem caracteres ambíguos (0/O, 1/l/I)
+  const groups = [
+    'ABCDEFGHJKLMNPQRSTUVWXYZ',
+    'abcdefghijkmnpqrstuvwxyz',
+    '23456789',
+  ];
+  const alphabet = groups.join('');
+
+  const chars = groups.map(group => group[randomInt(group.length)]);
+  while (chars.length < length) {
+    chars.push(alphabet[randomInt(alphabet.length)]);
+  }
+
+  // Embaralha para as classes obrigatórias não ficarem sempre no início
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+
+  return chars.join('');
 }
\ No newline at end of file
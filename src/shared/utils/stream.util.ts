@@ -0,0 +1,36 @@
+import { Writable } from 'stream';
+
+/**
+ * Escreve em um stream respeitando o backpressure
+ * (aguarda o "drain" quando o buffer do destino está cheio)
+ * Rejeita se o destino foi encerrado, ex: cliente cancelou o download
+ *
+ * @example
+ * await writeChunk(res, 'linha\n');
+ */
+export async function writeChunk(
+  output: Writable,
+  chunk: string | Buffer
+): Promise<void> {
+  if (output.destroyed) {
+    throw new Error('Stream de saída encerrado');
+  }
+
+  if (output.write(chunk)) {
+    return;
+  }
+
+  await new Promise<void>(resolve => {
+    const done = () => {
+      output.off('drain', done);
+      output.off('close', done);
+      resolve();
+    };
+    output.once('drain', done);
+    output.once('close', done);
+  });
+
+  if (output.destroyed) {
+    throw new Error('Stream de saída encerrado');
+  }
+}
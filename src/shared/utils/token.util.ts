@@ -0,0 +1,43 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Gera um token opaco aleatório (enviado ao usuário por e-mail)
+ * Apenas o hash do token deve ser persistido
+ *
+ * @returns Token em hexadecimal (64 caracteres)
+ *
+ * @example
+ * const token = generateOpaqueToken();
+ * const tokenHash = hashToken(token);
+ */
+export function generateOpaqueToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Hash SHA-256 de um token opaco
+ * (tokens aleatórios longos não precisam de bcrypt)
+ *
+ * @param token - Token em texto plano
+ * @returns Hash em hexadecimal
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Gera um código de recuperação legível (ex: "3f9a1-c07be")
+ * Deve ser persistido com hashToken(normalizeRecoveryCode(code))
+ */
+export function generateRecoveryCode(): string {
+  const code = randomBytes(5).toString('hex');
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Normaliza um código de recuperação digitado pelo usuário
+ * (ignora hífen, espaços e maiúsculas)
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
@@ -0,0 +1,183 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Parâmetros TOTP (RFC 6238) compatíveis com os apps autenticadores
+ */
+const TOTP_CONFIG = {
+  digits: 6,
+  periodSeconds: 30,
+  algorithm: 'sha1',
+};
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Codifica bytes em Base32 (RFC 4648, sem padding)
+ */
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decodifica Base32 (ignora padding e espaços, aceita minúsculas)
+ */
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Passo de tempo TOTP para um instante
+ */
+function timeStep(time: number): number {
+  return Math.floor(time / 1000 / TOTP_CONFIG.periodSeconds);
+}
+
+/**
+ * Código HOTP (RFC 4226) para um contador
+ */
+function hotp(secret: Buffer, counter: number, digits: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac(TOTP_CONFIG.algorithm, secret)
+    .update(counterBuffer)
+    .digest();
+
+  // Truncamento dinâmico
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Gera um segredo TOTP aleatório (160 bits, em Base32)
+ *
+ * @returns Segredo para cadastrar no app autenticador
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Monta a URI otpauth:// lida pelos apps autenticadores (conteúdo do QR code)
+ *
+ * @example
+ * buildOtpauthUri({ secret, accountName: 'maria@example.com', issuer: 'Academia Centro' });
+ * // otpauth://totp/Academia%20Centro:maria%40example.com?secret=...&issuer=...
+ */
+export function buildOtpauthUri(params: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}): string {
+  const label = `${encodeURIComponent(params.issuer)}:${encodeURIComponent(params.accountName)}`;
+  // encodeURIComponent: alguns apps exibem "+" literalmente no emissor
+  const query = Object.entries({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: TOTP_CONFIG.algorithm.toUpperCase(),
+    digits: TOTP_CONFIG.digits,
+    period: TOTP_CONFIG.periodSeconds,
+  })
+    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+    .join('&');
+
+  return `otpauth://totp/${label}?${query}`;
+}
+
+/**
+ * Gera o código TOTP de um instante
+ *
+ * @param secret - Segredo em Base32
+ * @param time - Instante em ms (padrão: agora)
+ * @param digits - Quantidade de dígitos (padrão: 6)
+ */
+export function generateTotp(
+  secret: string,
+  time = Date.now(),
+  digits = TOTP_CONFIG.digits
+): string {
+  return hotp(base32Decode(secret), timeStep(time), digits);
+}
+
+/**
+ * Valida um código TOTP aceitando a margem de passos informada
+ * (relógios do celular e do servidor podem divergir)
+ *
+ * @param secret - Segredo em Base32
+ * @param code - Código informado pelo usuário
+ * @param window - Passos aceitos antes e depois do atual (padrão: 1)
+ * @param time - Instante em ms (padrão: agora)
+ * @returns Passo de tempo que validou o código, ou null se inválido
+ *          (o passo permite recusar a reutilização do mesmo código)
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  window = 1,
+  time = Date.now()
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_CONFIG.digits) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = timeStep(time);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    const expected = hotp(key, step, TOTP_CONFIG.digits);
+
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}